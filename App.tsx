@@ -1,65 +1,47 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
-import { LESSONS, VOCABULARY_DATA, AI_CONVERSATION_PROMPTS } from './constants';
-import type { Lesson, VocabularyWord } from './types';
-
-// Make TypeScript aware of the HanziWriter library loaded from the CDN
-declare const HanziWriter: any;
+import type HanziWriter from 'hanzi-writer';
+import { CONTENT_PACKS, LESSONS, VOCABULARY_DATA, AI_CONVERSATION_PROMPTS, GRAMMAR_DATA, SUPPLEMENTARY_VOCABULARY } from './content';
+import type { LoadedPack } from './content';
+import type { Lesson, VocabularyWord, TranscriptItem, QuestionGrade, TypingAttempt } from './types';
+import { decodeAudioData, playChineseText } from './audio';
+import { createGeminiLiveProvider } from './geminiLiveProvider';
+import { buildLessonMockScript, createMockConversationProvider } from './mockConversationProvider';
+import { createGeminiChatProvider } from './geminiChatProvider';
+import type { ConversationMode, ConversationProvider, ConversationProviderId, ConversationSessionHandle } from './conversationProvider';
+import { saveConversationSession } from './conversationHistory';
+import { MARK_ANSWER, SESSION_COMPLETE, TUTOR_TOOLS, applyMarkAnswer, buildTutorInstruction, countAnswered, outcomesFromGrades } from './tutor';
+import { checkPinyinAnswer } from './pinyin';
+import { addTimeSpent, getWritingStats, recordTypingAttempt, recordWritingAttempt } from './progress';
+import { wordKey } from './srs';
+import { getStorageBackend, onStorageBackendChange, readValue, writeValue } from './storage';
+import type { StorageBackend } from './storage';
+import { buildHash, parseHash, readInitialLocation, saveLastLocation } from './navigation';
+import { createHanziWriter, startWritingQuiz } from './handwriting';
+import type { WritingQuizResult as QuizResult } from './handwriting';
+import type { PinyinAnswerCheck, TypedSyllable } from './pinyin';
+import ReviewSession from './components/ReviewSession';
+import PronunciationPractice from './components/PronunciationPractice';
+import ToneDrill from './components/ToneDrill';
+import GrammarViewer from './components/GrammarViewer';
+import VocabularyRow from './components/VocabularyRow';
+import SupplementaryVocabulary from './components/SupplementaryVocabulary';
+import LessonExercises from './components/LessonExercises';
+import CharacterBreakdown from './components/CharacterBreakdown';
+import WritingQuizResult from './components/WritingQuizResult';
+import WritingPractice from './components/WritingPractice';
+import DictationExercise from './components/DictationExercise';
+import TranscriptBubble from './components/TranscriptBubble';
+import ConversationHistory from './components/ConversationHistory';
+import ProgressDashboard from './components/ProgressDashboard';
+import BackupPanel from './components/BackupPanel';
+import DictionarySearch from './components/DictionarySearch';
+import ContentPackManager from './components/ContentPackManager';
+
+const TIME_TICK_MS = 30000;
 
 // Define updated SUB_LESSONS locally to include new sections
-const SUB_LESSONS: string[] = ['Từ mới', 'Gõ từ mới', 'Từ mới SS', 'Ngữ pháp', 'Gõ bài khóa', 'Giao tiếp', 'AI giao tiếp', 'Bài tập'];
-
-// --- Gemini Live API Audio Helper Functions ---
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
+const SUB_LESSONS: string[] = ['Từ mới', 'Ôn tập hôm nay', 'Gõ từ mới', 'Luyện phát âm', 'Luyện thanh điệu', 'Viết chữ', 'Từ mới SS', 'Ngữ pháp', 'Gõ bài khóa', 'Nghe viết', 'Giao tiếp', 'AI giao tiếp', 'Bài tập'];
 
 // --- UI Components ---
 
@@ -93,34 +75,45 @@ const SubLessonButton: React.FC<SubLessonButtonProps> = ({ label, onClick, isAct
 
 interface HanziWriterModalProps {
   char: string | null;
+  onCharClick: (char: string) => void;
   onClose: () => void;
 }
 
-const HanziWriterModal: React.FC<HanziWriterModalProps> = ({ char, onClose }) => {
-  const writerRef = useRef<any>(null);
+const HanziWriterModal: React.FC<HanziWriterModalProps> = ({ char, onCharClick, onClose }) => {
+  const writerRef = useRef<HanziWriter | null>(null);
   const targetRef = useRef<HTMLDivElement>(null);
+  const [hasStrokeData, setHasStrokeData] = useState(true);
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
 
   useEffect(() => {
     if (char && targetRef.current) {
-      targetRef.current.innerHTML = ''; 
-      writerRef.current = HanziWriter.create(targetRef.current, char, {
-        width: 250,
-        height: 250,
-        padding: 5,
-        showOutline: true,
-        strokeAnimationSpeed: 1.2,
-        delayBetweenStrokes: 150,
-        strokeColor: '#f97316',
-        radicalColor: '#38bdf8',
+      targetRef.current.innerHTML = '';
+      setHasStrokeData(true);
+      setQuizResult(null);
+      const writer = createHanziWriter(targetRef.current, char, 250, () => {
+        if (writerRef.current === writer) setHasStrokeData(false);
       });
-      writerRef.current.animateCharacter();
+      writerRef.current = writer;
+      writer.animateCharacter();
     }
   }, [char]);
 
   if (!char) return null;
 
-  const handleAnimate = () => writerRef.current?.animateCharacter();
-  const handleQuiz = () => writerRef.current?.quiz();
+  const handleAnimate = () => {
+    setQuizResult(null);
+    writerRef.current?.animateCharacter();
+  };
+  const handleQuiz = () => {
+    const writer = writerRef.current;
+    if (!writer) return;
+    setQuizResult(null);
+    startWritingQuiz(writer, char, result => {
+      if (writerRef.current !== writer) return;
+      recordWritingAttempt(result.char, result.attempt);
+      setQuizResult(result);
+    });
+  };
 
   return (
     <div 
@@ -130,14 +123,23 @@ const HanziWriterModal: React.FC<HanziWriterModalProps> = ({ char, onClose }) =>
       aria-modal="true"
     >
       <div 
-        className="bg-white rounded-2xl p-6 sm:p-8 shadow-2xl flex flex-col items-center justify-center gap-6 border-2 border-orange-400 relative"
+        className="bg-white rounded-2xl p-6 sm:p-8 shadow-2xl flex flex-col items-center justify-center gap-6 border-2 border-orange-400 relative max-h-[95vh] overflow-y-auto custom-scrollbar"
         onClick={(e) => e.stopPropagation()}
       >
-        <div ref={targetRef} className="bg-white rounded-lg"></div>
-        <div className="flex gap-4">
-           <button onClick={handleAnimate} className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg transition-colors">Tập viết lại</button>
-           <button onClick={handleQuiz} className="px-6 py-2 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors">Luyện tập</button>
-        </div>
+        <div ref={targetRef} className={hasStrokeData ? 'bg-white rounded-lg' : 'hidden'}></div>
+        {hasStrokeData ? (
+          <div className="flex gap-4">
+             <button onClick={handleAnimate} className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg transition-colors">Tập viết lại</button>
+             <button onClick={handleQuiz} className="px-6 py-2 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors">Luyện tập</button>
+          </div>
+        ) : (
+          <div className="w-[250px] flex flex-col items-center gap-3 text-center">
+            <span className="text-8xl text-gray-800">{char}</span>
+            <p className="text-sm text-gray-500">Chưa có dữ liệu nét viết cho chữ này. Khi có mạng, ứng dụng sẽ tải và lưu lại để lần sau xem được cả khi offline.</p>
+          </div>
+        )}
+        {quizResult && <WritingQuizResult result={quizResult} stats={getWritingStats(quizResult.char)} />}
+        <CharacterBreakdown char={char} onCharClick={onCharClick} />
         <button 
           onClick={onClose} 
           className="absolute top-3 right-3 text-gray-400 hover:text-gray-800 transition-colors"
@@ -156,22 +158,6 @@ interface VocabularyListProps {
 }
 
 const VocabularyList: React.FC<VocabularyListProps> = ({ words, onCharClick }) => {
-  const handlePlaySound = useCallback((text: string) => {
-    const audio = new Audio(`/audio/${text}.mp3`);
-    audio.play().catch(() => {
-        // Fallback to TTS
-        if (window.speechSynthesis) {
-            window.speechSynthesis.cancel();
-            const utterance = new SpeechSynthesisUtterance(text);
-            utterance.lang = 'zh-CN';
-            utterance.rate = 0.9;
-            window.speechSynthesis.speak(utterance);
-        }
-    });
-  }, []);
-
-  const isHanzi = (char: string) => /[\u4e00-\u9fff]/.test(char);
-
   return (
     <div className="w-full text-left flex flex-col h-full">
       <div className="grid grid-cols-3 gap-x-4 px-4 py-2 font-bold text-orange-500 border-b-2 border-orange-300 flex-shrink-0">
@@ -181,61 +167,75 @@ const VocabularyList: React.FC<VocabularyListProps> = ({ words, onCharClick }) =
       </div>
       <div className="flex-grow overflow-y-auto custom-scrollbar pr-2">
         {words.map((word) => (
-          <div
-            key={word.id}
-            onClick={() => handlePlaySound(word.char)}
-            className="grid grid-cols-3 gap-x-4 items-center px-4 py-3 border-b border-gray-200 hover:bg-orange-50 transition-colors duration-200 rounded-md cursor-pointer"
-            role="button"
-            tabIndex={0}
-            aria-label={`Phát âm và xem chi tiết từ ${word.char}`}
-          >
-            <div className="flex flex-wrap">
-              {word.char.split('').map((char, index) => {
-                const canAnimate = isHanzi(char);
-                return (
-                  <span
-                    key={index}
-                    onClick={(e) => {
-                      if (canAnimate) {
-                        e.stopPropagation();
-                        onCharClick(char);
-                      }
-                    }}
-                    className={`font-semibold text-lg text-gray-800 ${canAnimate ? 'cursor-pointer hover:text-orange-500 transition-colors' : 'cursor-default'}`}
-                    role={canAnimate ? "button" : undefined}
-                    tabIndex={canAnimate ? 0 : -1}
-                    aria-label={canAnimate ? `Tập viết chữ ${char}` : undefined}
-                  >
-                    {char}
-                  </span>
-                );
-              })}
-            </div>
-            <span className="text-gray-500">{word.pinyin}</span>
-            <span className="text-gray-700">{word.vi}</span>
-          </div>
+          <VocabularyRow key={word.id} word={word} onCharClick={onCharClick} />
         ))}
       </div>
     </div>
   );
 };
 
+const TYPED_SYLLABLE_CLASSES: Record<TypedSyllable['match'], string> = {
+  'correct': 'bg-green-100 text-green-700 border-green-300',
+  'wrong-tone': 'bg-amber-100 text-amber-700 border-amber-300',
+  'wrong': 'bg-red-100 text-red-700 border-red-300',
+  'missing': 'bg-red-50 text-red-400 border-red-300 border-dashed',
+  'extra': 'bg-red-100 text-red-700 border-red-300 line-through',
+};
+
+const PinyinFeedback: React.FC<{ check: PinyinAnswerCheck }> = ({ check }) => (
+  <div className="flex flex-wrap justify-center gap-1">
+    {check.syllables.map((s, i) => (
+      <span key={i} className={`min-w-[2.5rem] text-center px-2 py-0.5 rounded border text-sm ${TYPED_SYLLABLE_CLASSES[s.match]}`}>
+        {s.typed ? s.typed.text : '_'}
+      </span>
+    ))}
+    {check.result === 'tones-wrong' && <span className="w-full text-center text-xs text-amber-600">Đúng âm tiết, sai thanh điệu.</span>}
+  </div>
+);
+
+type TypingAnswerKind = 'hanzi' | 'pinyin';
+
 interface TypingExerciseProps {
   words: VocabularyWord[];
   type: 'Gõ từ mới' | 'Gõ bài khóa';
+  lessonName: string;
 }
 
-const TypingExercise: React.FC<TypingExerciseProps> = ({ words, type }) => {
+interface PendingTypingAttempt {
+  attempt: Omit<TypingAttempt, 'at'>;
+  wordResults: { key: string; correct: boolean }[];
+}
+
+const TypingExercise: React.FC<TypingExerciseProps> = ({ words, type, lessonName }) => {
+  const [answerKind, setAnswerKind] = useState<TypingAnswerKind>('hanzi');
   const [shuffledWords, setShuffledWords] = useState<VocabularyWord[]>([]);
   const [userInputs, setUserInputs] = useState<Record<number, string>>({});
   const [score, setScore] = useState(0);
+  const pendingAttemptRef = useRef<PendingTypingAttempt | null>(null);
+
+  const isPinyinMode = answerKind === 'pinyin';
+
+  // The score of a round is saved when it is thrown away: on 'Làm lại', on a
+  // mode switch and when the tab or lesson changes.
+  const flushAttempt = useCallback(() => {
+    const pending = pendingAttemptRef.current;
+    pendingAttemptRef.current = null;
+    if (pending && pending.attempt.answered > 0) {
+      recordTypingAttempt(lessonName, pending.attempt, pending.wordResults);
+    }
+  }, [lessonName]);
+
+  useEffect(() => flushAttempt, [flushAttempt]);
 
   const shuffleAndReset = useCallback(() => {
-    const shuffled = [...words].sort(() => Math.random() - 0.5);
+    flushAttempt();
+    // Some 'Gõ bài khóa' sentences have no pinyin yet; they cannot be asked in pinyin mode.
+    const pool = isPinyinMode ? words.filter(w => w.pinyin.trim()) : words;
+    const shuffled = [...pool].sort(() => Math.random() - 0.5);
     setShuffledWords(shuffled);
     setUserInputs({});
     setScore(0);
-  }, [words]);
+  }, [words, isPinyinMode, flushAttempt]);
 
   useEffect(() => {
     shuffleAndReset();
@@ -243,25 +243,47 @@ const TypingExercise: React.FC<TypingExerciseProps> = ({ words, type }) => {
 
   useEffect(() => {
     let currentScore = 0;
+    const wordResults: PendingTypingAttempt['wordResults'] = [];
     shuffledWords.forEach(word => {
       const input = userInputs[word.id];
-      if (input === undefined || input === '') {
+      if (input === undefined || input.trim() === '') {
         // Untouched, 0 points
+        return;
+      } else if (isPinyinMode) {
+        const { result } = checkPinyinAnswer(word.pinyin, input);
+        currentScore += result === 'correct' ? 1 : result === 'tones-wrong' ? 0.5 : -1;
+        wordResults.push({ key: wordKey(word), correct: result === 'correct' });
       } else if (input === word.char) {
         currentScore += 1; // Correct, +1
+        wordResults.push({ key: wordKey(word), correct: true });
       } else {
         currentScore -= 1; // Incorrect, -1
+        wordResults.push({ key: wordKey(word), correct: false });
       }
     });
     setScore(currentScore);
-  }, [userInputs, shuffledWords]);
+    pendingAttemptRef.current = {
+      attempt: {
+        section: type,
+        mode: answerKind,
+        score: currentScore,
+        correct: wordResults.filter(r => r.correct).length,
+        answered: wordResults.length,
+        total: shuffledWords.length,
+      },
+      // Only single words feed the per-word stats; 'Gõ bài khóa' holds sentences.
+      wordResults: type === 'Gõ từ mới' ? wordResults : [],
+    };
+  }, [userInputs, shuffledWords, isPinyinMode, type, answerKind]);
 
   const handleInputChange = (wordId: number, value: string) => {
-    setUserInputs(prev => ({ ...prev, [wordId]: value.trim() }));
+    // Pinyin keeps its spaces while typing; they are ignored when checking.
+    setUserInputs(prev => ({ ...prev, [wordId]: isPinyinMode ? value : value.trim() }));
   };
 
   const getInputClassName = (word: VocabularyWord, inputValue: string | undefined) => {
-    if (!inputValue || inputValue === '') {
+    // In pinyin mode the per-syllable feedback below the input carries the result.
+    if (!inputValue || inputValue.trim() === '' || isPinyinMode) {
       return 'border-gray-300 focus:border-orange-500 focus:ring-orange-500';
     }
     if (inputValue === word.char) {
@@ -270,11 +292,24 @@ const TypingExercise: React.FC<TypingExerciseProps> = ({ words, type }) => {
     return 'border-red-500 bg-red-50 text-red-700 ring-2 ring-red-500';
   };
 
-  const isHanziPrompt = type === 'Gõ bài khóa';
+  const isHanziPrompt = type === 'Gõ bài khóa' || isPinyinMode;
 
   return (
     <div className="w-full text-left flex flex-col h-full">
-      <div className="text-center mb-4 flex-shrink-0">
+      <div className="text-center mb-4 flex-shrink-0 flex flex-col items-center gap-2">
+        <div className="flex bg-gray-100 rounded-full p-1 text-sm font-semibold">
+          {(['hanzi', 'pinyin'] as TypingAnswerKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setAnswerKind(kind)}
+              className={`px-4 py-1 rounded-full transition-colors ${answerKind === kind ? 'bg-white text-orange-600 shadow' : 'text-gray-500 hover:text-gray-700'}`}
+              aria-pressed={answerKind === kind}
+            >
+              {kind === 'hanzi' ? 'Gõ chữ Hán' : 'Gõ pinyin'}
+            </button>
+          ))}
+        </div>
+        {isPinyinMode && <p className="text-xs text-gray-500">Gõ số thanh (ni3 hao3) hoặc dấu (nǐ hǎo) đều được.</p>}
         <p className="text-lg font-bold text-gray-700">
           Điểm: <span className={`transition-colors duration-300 ${score > 0 ? 'text-green-600' : score < 0 ? 'text-red-600' : 'text-sky-600'}`}>{score}</span>
         </p>
@@ -292,6 +327,7 @@ const TypingExercise: React.FC<TypingExerciseProps> = ({ words, type }) => {
               `}
             >
               {isHanziPrompt ? word.char : word.vi}
+              {isPinyinMode && type === 'Gõ từ mới' && <span className="block text-sm font-normal text-gray-500">{word.vi}</span>}
             </label>
             <input
               id={`word-${word.id}`}
@@ -305,8 +341,13 @@ const TypingExercise: React.FC<TypingExerciseProps> = ({ words, type }) => {
                 ${getInputClassName(word, userInputs[word.id])}
               `}
               autoComplete="off"
-              aria-label={`Nhập chữ Hán cho "${isHanziPrompt ? word.char : word.vi}"`}
+              autoCapitalize="off"
+              spellCheck={false}
+              aria-label={`Nhập ${isPinyinMode ? 'pinyin' : 'chữ Hán'} cho "${isHanziPrompt ? word.char : word.vi}"`}
             />
+            {isPinyinMode && userInputs[word.id]?.trim() && (
+              <PinyinFeedback check={checkPinyinAnswer(word.pinyin, userInputs[word.id])} />
+            )}
           </div>
         ))}
       </div>
@@ -331,17 +372,7 @@ const GiaoTiepExercise: React.FC<GiaoTiepExerciseProps> = ({ words }) => {
   const timerRef = useRef<number | null>(null);
 
   const handlePlaySound = useCallback((text: string) => {
-    const audio = new Audio(`/audio/${text}.mp3`);
-    audio.play().catch(() => {
-        // Fallback to TTS
-        if (window.speechSynthesis) {
-            window.speechSynthesis.cancel();
-            const utterance = new SpeechSynthesisUtterance(text);
-            utterance.lang = 'zh-CN';
-            utterance.rate = 0.9;
-            window.speechSynthesis.speak(utterance);
-        }
-    });
+    playChineseText(text);
   }, []);
 
   const handleShowDetails = useCallback((id: number) => {
@@ -399,12 +430,13 @@ const GiaoTiepExercise: React.FC<GiaoTiepExerciseProps> = ({ words }) => {
 // --- Lesson Selector Modal ---
 interface LessonSelectorModalProps {
   lessons: Lesson[];
+  packs: LoadedPack[];
   activeLessonId: number;
   onSelect: (id: number) => void;
   onClose: () => void;
 }
 
-const LessonSelectorModal: React.FC<LessonSelectorModalProps> = ({ lessons, activeLessonId, onSelect, onClose }) => {
+const LessonSelectorModal: React.FC<LessonSelectorModalProps> = ({ lessons, packs, activeLessonId, onSelect, onClose }) => {
   return (
     <div className="fixed inset-0 bg-black/60 flex items-start justify-center z-50 pt-16" onClick={onClose}>
       <div className="bg-white rounded-xl shadow-2xl w-11/12 max-w-lg overflow-hidden animate-fade-in-down transform transition-all" onClick={e => e.stopPropagation()}>
@@ -416,25 +448,33 @@ const LessonSelectorModal: React.FC<LessonSelectorModalProps> = ({ lessons, acti
             </svg>
           </button>
         </div>
-        <div className="p-4 grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto custom-scrollbar">
-          {lessons.map((lesson) => (
-            <button
-              key={lesson.id}
-              onClick={() => {
-                onSelect(lesson.id);
-                onClose();
-              }}
-              className={`
-                py-3 px-2 rounded-lg font-bold text-sm transition-all duration-200 shadow-sm border
-                ${activeLessonId === lesson.id 
-                  ? 'bg-orange-500 text-white border-orange-600 shadow-md transform scale-105' 
-                  : 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-orange-100 hover:text-orange-600 hover:border-orange-200'}
-              `}
-            >
-              {lesson.name}
-            </button>
+        <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          {packs.map((pack) => (
+            <div key={pack.id}>
+              {packs.length > 1 && <h4 className="text-sm font-semibold text-gray-500 mb-2">{pack.title}</h4>}
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                {lessons.filter(lesson => pack.lessonIds.includes(lesson.id)).map((lesson) => (
+                  <button
+                    key={lesson.id}
+                    onClick={() => {
+                      onSelect(lesson.id);
+                      onClose();
+                    }}
+                    className={`
+                      py-3 px-2 rounded-lg font-bold text-sm transition-all duration-200 shadow-sm border
+                      ${activeLessonId === lesson.id 
+                        ? 'bg-orange-500 text-white border-orange-600 shadow-md transform scale-105' 
+                        : 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-orange-100 hover:text-orange-600 hover:border-orange-200'}
+                    `}
+                  >
+                    {lesson.name}
+                  </button>
+                ))}
+              </div>
+            </div>
           ))}
         </div>
+        <ContentPackManager packs={packs} />
       </div>
     </div>
   );
@@ -443,22 +483,24 @@ const LessonSelectorModal: React.FC<LessonSelectorModalProps> = ({ lessons, acti
 // --- Settings Modal ---
 interface SettingsModalProps {
   currentApiKey: string;
-  onSave: (key: string) => void;
+  currentProviderId: ConversationProviderId;
+  onSave: (key: string, providerId: ConversationProviderId) => void;
   onClose: () => void;
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ currentApiKey, onSave, onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ currentApiKey, currentProviderId, onSave, onClose }) => {
   const [key, setKey] = useState(currentApiKey);
+  const [useMock, setUseMock] = useState(currentProviderId === 'mock');
 
   const handleSave = () => {
-    onSave(key);
+    onSave(key, useMock ? 'mock' : 'gemini');
     onClose();
   };
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fade-in-fast" onClick={onClose}>
        <div className="bg-white rounded-xl p-6 w-11/12 max-w-md shadow-2xl" onClick={e => e.stopPropagation()}>
-          <h3 className="text-xl font-bold mb-4 text-gray-800">Cài đặt API Key</h3>
+          <h3 className="text-xl font-bold mb-4 text-gray-800">Cài đặt</h3>
           <p className="text-sm text-gray-500 mb-4">Nhập Google Gemini API Key của bạn để sử dụng tính năng AI. Key sẽ được lưu trên thiết bị này.</p>
           <input
             type="text"
@@ -467,6 +509,16 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ currentApiKey, onSave, on
             placeholder="Nhập API Key..."
             className="w-full border border-gray-300 rounded-lg p-2 mb-4 focus:ring-2 focus:ring-orange-500 outline-none"
           />
+          <label className="flex items-start gap-2 text-sm text-gray-600 mb-4 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useMock}
+              onChange={(e) => setUseMock(e.target.checked)}
+              className="mt-0.5 accent-orange-500"
+            />
+            <span>Dùng gia sư mô phỏng (không cần mạng hoặc API Key) cho phần AI giao tiếp.</span>
+          </label>
+          <BackupPanel />
           <div className="flex justify-end gap-2">
             <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">Hủy</button>
             <button onClick={handleSave} className="px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors">Lưu</button>
@@ -514,25 +566,30 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
 };
 
 // --- AI Conversation Component ---
-type TranscriptItem = {
-  id: number;
-  speaker: 'user' | 'ai';
-  text: string;
-};
 
 interface AIConversationProps {
   lessonName: string;
   apiKey: string;
+  providerId: ConversationProviderId;
 }
 
-const AIConversation: React.FC<AIConversationProps> = ({ lessonName, apiKey }) => {
+const AIConversation: React.FC<AIConversationProps> = ({ lessonName, apiKey, providerId }) => {
     const [micState, setMicState] = useState<'idle' | 'requesting' | 'ready' | 'error'>('idle');
     const [status, setStatus] = useState('Đang chờ...');
     const [transcript, setTranscript] = useState<TranscriptItem[]>([]);
     const [error, setError] = useState<string | null>(null);
     const [liveSpeaker, setLiveSpeaker] = useState<'user' | 'ai' | null>(null);
-
-    const sessionRef = useRef<any>(null);
+    const [liveInput, setLiveInput] = useState('');
+    const [liveOutput, setLiveOutput] = useState('');
+    const [showHistory, setShowHistory] = useState(false);
+    const [grades, setGrades] = useState<Record<number, QuestionGrade>>({});
+    const [lastCorrection, setLastCorrection] = useState<string | null>(null);
+    const [isCompleted, setIsCompleted] = useState(false);
+    const [mode, setMode] = useState<ConversationMode>('voice');
+    const [chatInput, setChatInput] = useState('');
+    const [isAwaitingReply, setIsAwaitingReply] = useState(false);
+
+    const sessionRef = useRef<ConversationSessionHandle | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
@@ -541,6 +598,17 @@ const AIConversation: React.FC<AIConversationProps> = ({ lessonName, apiKey }) =
     const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
     const liveSpeakerTimeoutRef = useRef<number | null>(null);
     const transcriptEndRef = useRef<HTMLDivElement | null>(null);
+    const currentInputRef = useRef('');
+    const currentOutputRef = useRef('');
+    const transcriptIdRef = useRef(0);
+    const transcriptLogRef = useRef<TranscriptItem[]>([]);
+    const sessionMetaRef = useRef<{ lessonName: string; prompts: string[]; startedAt: number; mode: ConversationMode } | null>(null);
+    const gradesRef = useRef<Record<number, QuestionGrade>>({});
+    const completeTimeoutRef = useRef<number | null>(null);
+    // Bumped when a session starts and again when it is stopped, completed or
+    // fails. The Live adapter reports closing asynchronously, so a close or
+    // error from a session that has already ended is ignored.
+    const sessionIdRef = useRef(0);
 
     const scrollToBottom = useCallback(() => {
       transcriptEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -548,10 +616,54 @@ const AIConversation: React.FC<AIConversationProps> = ({ lessonName, apiKey }) =
 
     useEffect(() => {
       scrollToBottom();
-    }, [transcript, scrollToBottom]);
+    }, [transcript, liveInput, liveOutput, scrollToBottom]);
+
+    // Input and output transcriptions stream independently of the model turn, so
+    // both are buffered and committed to the transcript together when the turn completes.
+    const commitTurn = useCallback(() => {
+      const userText = currentInputRef.current.trim();
+      const aiText = currentOutputRef.current.trim();
+      currentInputRef.current = '';
+      currentOutputRef.current = '';
+      setLiveInput('');
+      setLiveOutput('');
+      if (!userText && !aiText) return;
+      const next = [...transcriptLogRef.current];
+      if (userText) next.push({ id: ++transcriptIdRef.current, speaker: 'user', text: userText });
+      if (aiText) next.push({ id: ++transcriptIdRef.current, speaker: 'ai', text: aiText });
+      transcriptLogRef.current = next;
+      setTranscript(next);
+    }, []);
+
+    // Persists the session once, whichever of stop, disconnect, error or unmount comes first.
+    const finishSession = useCallback(() => {
+      const meta = sessionMetaRef.current;
+      if (!meta) return;
+      sessionMetaRef.current = null;
+      commitTurn();
+      const sessionTranscript = transcriptLogRef.current;
+      if (sessionTranscript.length === 0) return;
+      try {
+        saveConversationSession({
+          id: `${meta.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+          lessonName: meta.lessonName,
+          mode: meta.mode,
+          startedAt: meta.startedAt,
+          endedAt: Date.now(),
+          transcript: sessionTranscript,
+          outcomes: outcomesFromGrades(meta.prompts, gradesRef.current),
+        });
+      } catch (e) {
+        console.error('Failed to save conversation session', e);
+      }
+    }, [commitTurn]);
     
     const cleanup = useCallback(() => {
         console.log('Cleaning up AI Conversation...');
+        if (completeTimeoutRef.current) {
+            clearTimeout(completeTimeoutRef.current);
+            completeTimeoutRef.current = null;
+        }
         if (sessionRef.current) {
             sessionRef.current.close();
             sessionRef.current = null;
@@ -580,18 +692,32 @@ const AIConversation: React.FC<AIConversationProps> = ({ lessonName, apiKey }) =
     // Effect for cleanup on component unmount
     useEffect(() => {
         return () => {
+            sessionIdRef.current++;
+            finishSession();
             cleanup();
         };
-    }, [cleanup]);
+    }, [cleanup, finishSession]);
 
     const startSession = async () => {
         setMicState('requesting');
         setError(null);
+        setTranscript([]);
+        transcriptLogRef.current = [];
+        gradesRef.current = {};
+        setGrades({});
+        setLastCorrection(null);
+        setIsCompleted(false);
+        currentInputRef.current = '';
+        currentOutputRef.current = '';
+        setLiveInput('');
+        setLiveOutput('');
+        setChatInput('');
+        setIsAwaitingReply(false);
 
         const effectiveApiKey = apiKey || process.env.API_KEY;
 
-        if (!effectiveApiKey) {
-            setError('Chưa cấu hình API Key.');
+        if (providerId === 'gemini' && !effectiveApiKey) {
+            setError('Chưa cấu hình API Key. Bạn có thể bật gia sư mô phỏng trong Cài đặt.');
             setMicState('error');
             return;
         }
@@ -603,172 +729,281 @@ const AIConversation: React.FC<AIConversationProps> = ({ lessonName, apiKey }) =
             return;
         }
 
+        const isText = mode === 'text';
+        const sessionId = ++sessionIdRef.current;
+        const isCurrent = () => sessionId === sessionIdRef.current;
+
         try {
-            const localStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamRef.current = localStream;
-            setStatus('Đang kết nối tới AI...');
+            let localStream: MediaStream | null = null;
+            if (!isText) {
+                try {
+                    localStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+                } catch (e) {
+                    console.error(e);
+                    setError('Không thể truy cập micro. Bạn có thể chuyển sang chế độ gõ chữ.');
+                    setMicState('error');
+                    return;
+                }
+                streamRef.current = localStream;
+            }
+            sessionMetaRef.current = { lessonName, prompts, startedAt: Date.now(), mode };
+            setStatus(providerId === 'mock' ? 'Đang khởi động gia sư mô phỏng...' : 'Đang kết nối tới AI...');
             setMicState('ready');
-
-            const ai = new GoogleGenAI({ apiKey: effectiveApiKey });
-
-            const questionList = prompts.map((p, i) => `${i + 1}. ${p}`).join('\n');
-            const systemInstruction = `You are a Chinese language tutor for a Vietnamese speaker. Your task is to conduct a spoken practice session for lesson '${lessonName}'.
-
-**Your Persona:**
-- Friendly, patient, and encouraging.
-- Speak Mandarin Chinese when asking questions and giving praise.
-- Speak Vietnamese when giving instructions or corrections.
-
-**Question List for this Session:**
-${questionList}
-
-**Conversation Flow:**
-1.  **Start:** Greet the user in Vietnamese: "Chào bạn, chúng ta cùng luyện tập giao tiếp cho ${lessonName} nhé?" Then, wait for their response.
-2.  **Ask First Question:** After they agree, ask the VERY FIRST question from the list in Mandarin Chinese.
-3.  **Listen & Evaluate:** Listen to the user's spoken Chinese response. Their answer should be a grammatically correct and logical reply to your question.
-4.  **If Correct:** Praise them briefly in Chinese (e.g., "很好!", "说得不错!"). Then, immediately ask the NEXT sequential question from the list in Chinese.
-5.  **If Incorrect:**
-    a. Switch to VIETNAMESE.
-    b. Gently explain the mistake (e.g., "Câu trả lời chưa đúng lắm, bạn thử nói lại nhé." or explain a specific grammar error).
-    c. Provide a correct example answer in Chinese, along with its Vietnamese translation.
-    d. Switch back to Chinese and REPEAT the same question to give them another chance. Do not move to the next question until they answer the current one correctly.
-6.  **End of Session:** After the LAST question is answered correctly, congratulate them in Vietnamese: "Rất tốt! Bạn đã hoàn thành bài luyện tập. Hẹn gặp lại lần sau!"
-
-Proceed step-by-step through the question list. Do not skip questions.`;
-
-            const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            inputAudioContextRef.current = inputAudioContext;
-            const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            outputAudioContextRef.current = outputAudioContext;
-            
-            const outputNode = outputAudioContext.createGain();
-            outputNode.connect(outputAudioContext.destination);
-
-            const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                  responseModalities: [Modality.AUDIO],
-                  speechConfig: {
-                    voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } },
-                  },
-                  systemInstruction: systemInstruction,
-                },
+            setIsAwaitingReply(isText);
+
+            let provider: ConversationProvider;
+            if (providerId === 'mock') {
+              const script = buildLessonMockScript(lessonName, prompts);
+              provider = createMockConversationProvider(script, isText ? { listenTimeoutMs: null, speakText: false } : {});
+            } else {
+              provider = isText ? createGeminiChatProvider(effectiveApiKey!) : createGeminiLiveProvider(effectiveApiKey!);
+            }
+
+            let inputAudioContext: AudioContext | null = null;
+            let outputNode: GainNode | null = null;
+            if (!isText) {
+              inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+              inputAudioContextRef.current = inputAudioContext;
+              const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+              outputAudioContextRef.current = outputAudioContext;
+              
+              outputNode = outputAudioContext.createGain();
+              outputNode.connect(outputAudioContext.destination);
+            }
+
+            const markAiSpeaking = () => {
+                setLiveSpeaker('ai');
+                if (liveSpeakerTimeoutRef.current) clearTimeout(liveSpeakerTimeoutRef.current);
+                liveSpeakerTimeoutRef.current = window.setTimeout(() => setLiveSpeaker(null), 2000);
+            };
+
+            sessionRef.current = await provider.connect({
+                systemInstruction: buildTutorInstruction(lessonName, prompts, mode),
+                tools: TUTOR_TOOLS,
                 callbacks: {
-                  onopen: () => {
-                    setStatus('Đã kết nối! Bắt đầu nói chuyện...');
+                  onOpen: () => {
+                    setStatus(isText ? 'Đã kết nối! Hãy gõ câu trả lời bằng tiếng Trung.' : 'Đã kết nối! Bắt đầu nói chuyện...');
+                    if (!inputAudioContext || !localStream) return;
                     const source = inputAudioContext.createMediaStreamSource(localStream);
                     const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
                     scriptProcessorRef.current = scriptProcessor;
                     
                     scriptProcessor.onaudioprocess = (e) => {
                       const inputData = e.inputBuffer.getChannelData(0);
-                      const pcmBlob = createBlob(inputData);
-                      sessionPromise.then(session => {
-                        session.sendRealtimeInput({ media: pcmBlob });
-                      });
+                      sessionRef.current?.sendAudio(inputData);
                     };
                     
                     source.connect(scriptProcessor);
                     scriptProcessor.connect(inputAudioContext.destination);
                   },
-                  onmessage: async (msg: LiveServerMessage) => {
-                    const { serverContent } = msg;
+                  onAudio: async (pcm, sampleRate) => {
+                    markAiSpeaking();
+                    const ctx = outputAudioContextRef.current;
+                    if (!ctx || !outputNode) return;
+                    const audioBuffer = await decodeAudioData(pcm, ctx, sampleRate, 1);
+                    const source = ctx.createBufferSource();
+                    source.buffer = audioBuffer;
+                    source.connect(outputNode);
                     
-                    const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                    if (audioData && outputAudioContextRef.current) {
-                        const ctx = outputAudioContextRef.current;
-                        const audioBuffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-                        const source = ctx.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputNode);
-                        
-                        const currentTime = ctx.currentTime;
-                        if (nextStartTimeRef.current < currentTime) {
-                            nextStartTimeRef.current = currentTime;
-                        }
-                        source.start(nextStartTimeRef.current);
-                        nextStartTimeRef.current += audioBuffer.duration;
-                        
-                        sourcesRef.current.add(source);
-                        source.onended = () => {
-                            sourcesRef.current.delete(source);
-                        };
-                    }
-
-                    if (serverContent?.modelTurn && !serverContent.turnComplete) {
-                         setLiveSpeaker('ai');
-                         if (liveSpeakerTimeoutRef.current) clearTimeout(liveSpeakerTimeoutRef.current);
-                         liveSpeakerTimeoutRef.current = window.setTimeout(() => setLiveSpeaker(null), 2000);
-                    } else if (serverContent?.turnComplete) {
-                         setLiveSpeaker(null);
+                    const currentTime = ctx.currentTime;
+                    if (nextStartTimeRef.current < currentTime) {
+                        nextStartTimeRef.current = currentTime;
                     }
+                    source.start(nextStartTimeRef.current);
+                    nextStartTimeRef.current += audioBuffer.duration;
+                    
+                    sourcesRef.current.add(source);
+                    source.onended = () => {
+                        sourcesRef.current.delete(source);
+                    };
+                  },
+                  onInputTranscription: (text) => {
+                    currentInputRef.current += text;
+                    setLiveInput(currentInputRef.current);
                   },
-                  onclose: () => {
+                  onOutputTranscription: (text) => {
+                    markAiSpeaking();
+                    currentOutputRef.current += text;
+                    setLiveOutput(currentOutputRef.current);
+                  },
+                  onTurnComplete: () => {
+                    setLiveSpeaker(null);
+                    setIsAwaitingReply(false);
+                    commitTurn();
+                  },
+                  onToolCall: (calls) => {
+                    const results = calls.map(call => {
+                        if (call.name === MARK_ANSWER) {
+                            const result = applyMarkAnswer(prompts, gradesRef.current, call.args);
+                            gradesRef.current = result.grades;
+                            setGrades(result.grades);
+                            if (!result.response.error) {
+                                setLastCorrection(call.args.correct === true ? null : String(call.args.correction || '') || null);
+                            }
+                            return { id: call.id, name: call.name, response: result.response };
+                        }
+                        if (call.name === SESSION_COMPLETE) {
+                            handleSessionComplete();
+                            return { id: call.id, name: call.name, response: { output: { ended: true } } };
+                        }
+                        return { id: call.id, name: call.name, response: { error: `Unknown function ${call.name}` } };
+                    });
+                    sessionRef.current?.sendToolResponses(results);
+                  },
+                  onClose: () => {
+                    if (!isCurrent()) return;
+                    sessionIdRef.current++;
+                    finishSession();
                     setStatus('Đã ngắt kết nối.');
                     setMicState('idle');
                   },
-                  onerror: (err) => {
+                  onError: (err) => {
                     console.error(err);
+                    if (!isCurrent()) return;
+                    sessionIdRef.current++;
+                    finishSession();
+                    cleanup();
                     setError('Lỗi kết nối AI. Vui lòng kiểm tra API Key.');
                     setMicState('error');
+                    setIsAwaitingReply(false);
                   }
                 }
             });
-            
-            sessionRef.current = await sessionPromise;
 
         } catch (e: any) {
             console.error(e);
+            sessionIdRef.current++;
+            finishSession();
+            cleanup();
             setError(e.message || 'Không thể khởi động ghi âm.');
             setMicState('error');
         }
     };
 
     const stopSession = () => {
+      sessionIdRef.current++;
+      finishSession();
       cleanup();
       setStatus('Đã dừng.');
       setMicState('idle');
     };
 
+    const sendChatMessage = () => {
+      const text = chatInput.trim();
+      if (!text || !sessionRef.current || isAwaitingReply) return;
+      currentInputRef.current += text;
+      setLiveInput(currentInputRef.current);
+      setChatInput('');
+      setIsAwaitingReply(true);
+      sessionRef.current.sendText(text);
+    };
+
+    // Lets the tutor's closing words finish playing before the session is torn down.
+    const handleSessionComplete = () => {
+      sessionIdRef.current++;
+      setIsCompleted(true);
+      const ctx = outputAudioContextRef.current;
+      const remaining = ctx ? Math.max(0, nextStartTimeRef.current - ctx.currentTime) : 0;
+      if (completeTimeoutRef.current) clearTimeout(completeTimeoutRef.current);
+      completeTimeoutRef.current = window.setTimeout(() => {
+        completeTimeoutRef.current = null;
+        finishSession();
+        cleanup();
+        setStatus('Bạn đã hoàn thành bài luyện tập!');
+        setMicState('idle');
+      }, remaining * 1000 + 1000);
+    };
+
+    const totalQuestions = (AI_CONVERSATION_PROMPTS[lessonName] || []).length;
+    const answeredCount = countAnswered(grades);
+
+    if (showHistory) {
+      return (
+        <ConversationHistory
+          lessonName={lessonName}
+          prompts={AI_CONVERSATION_PROMPTS[lessonName] || []}
+          onClose={() => setShowHistory(false)}
+        />
+      );
+    }
+
     return (
-      <div className="flex flex-col h-full items-center justify-center p-4 space-y-6">
-         <div className="text-center space-y-2">
-             <h3 className="text-xl font-bold text-gray-700">AI Luyện Nói - {lessonName}</h3>
+      <div className="flex flex-col h-full items-center p-4 space-y-4">
+         <div className="text-center space-y-2 flex-shrink-0">
+             <h3 className="text-xl font-bold text-gray-700">AI {mode === 'text' ? 'Luyện Chat' : 'Luyện Nói'} - {lessonName}</h3>
              <p className="text-gray-500 text-sm max-w-md mx-auto">
                 Luyện tập trả lời các câu hỏi liên quan đến bài học với gia sư AI.
              </p>
          </div>
 
-         <div className="flex flex-col items-center justify-center flex-grow w-full max-w-md space-y-8">
+         <div className="flex flex-col items-center w-full max-w-md space-y-4 flex-shrink-0">
+             {/* Mode */}
+             {(micState === 'idle' || micState === 'error') && (
+                 <div className="flex bg-gray-100 rounded-full p-1 text-sm font-semibold">
+                     {(['voice', 'text'] as ConversationMode[]).map(m => (
+                         <button
+                            key={m}
+                            onClick={() => { setMode(m); setError(null); setMicState('idle'); }}
+                            className={`px-4 py-1 rounded-full transition-colors ${mode === m ? 'bg-white text-blue-600 shadow' : 'text-gray-500 hover:text-gray-700'}`}
+                            aria-pressed={mode === m}
+                         >
+                            {m === 'voice' ? '🎙️ Nói' : '⌨️ Gõ chữ'}
+                         </button>
+                     ))}
+                 </div>
+             )}
+
              {/* Status / Visualizer */}
-             <div className={`
-                w-48 h-48 rounded-full flex items-center justify-center border-4 transition-all duration-500 relative
+             {mode === 'voice' && <div className={`
+                w-28 h-28 rounded-full flex items-center justify-center border-4 transition-all duration-500 relative
                 ${micState === 'ready' ? 'border-green-500 shadow-[0_0_30px_rgba(34,197,94,0.3)]' : 
                   micState === 'error' ? 'border-red-500' : 'border-gray-200'}
              `}>
                 {micState === 'ready' ? (
-                    <div className="text-6xl animate-pulse">
+                    <div className="text-5xl animate-pulse">
                         {liveSpeaker === 'ai' ? '🤖' : '🎙️'}
                     </div>
                 ) : (
-                    <div className="text-6xl text-gray-300">
+                    <div className="text-5xl text-gray-300">
                         🎧
                     </div>
                 )}
                 
                 {liveSpeaker === 'ai' && (
-                    <div className="absolute -bottom-8 text-green-600 font-bold animate-bounce">
+                    <div className="absolute -bottom-7 text-green-600 font-bold animate-bounce whitespace-nowrap">
                         AI đang nói...
                     </div>
                 )}
-             </div>
+             </div>}
 
-             <div className="text-center min-h-[3rem]">
+             <div className="text-center min-h-[2rem] pt-2">
                  <p className={`font-medium text-lg ${micState === 'error' ? 'text-red-500' : 'text-gray-700'}`}>
                     {error || status}
                  </p>
              </div>
 
+             {/* Progress */}
+             {totalQuestions > 0 && (micState === 'ready' || answeredCount > 0) && (
+                 <div className="w-full space-y-1">
+                     <div className="flex justify-between text-sm font-semibold text-gray-600">
+                         <span>{isCompleted ? 'Hoàn thành' : `Câu ${Math.min(answeredCount + 1, totalQuestions)}/${totalQuestions}`}</span>
+                         <span>{answeredCount}/{totalQuestions} câu đúng</span>
+                     </div>
+                     <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                         <div
+                            className="h-full bg-green-500 transition-all duration-500"
+                            style={{ width: `${(answeredCount / totalQuestions) * 100}%` }}
+                         />
+                     </div>
+                 </div>
+             )}
+
+             {lastCorrection && (
+                 <div className="w-full p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 animate-fade-in-down">
+                     <span className="font-semibold">Gợi ý sửa: </span>{lastCorrection}
+                 </div>
+             )}
+
              {/* Controls */}
              <div className="flex gap-4">
                  {micState === 'idle' || micState === 'error' ? (
@@ -788,37 +1023,137 @@ Proceed step-by-step through the question list. Do not skip questions.`;
                         Dừng lại
                      </button>
                  )}
+                 {(micState === 'idle' || micState === 'error') && (
+                     <button 
+                        onClick={() => setShowHistory(true)}
+                        className="bg-white border-2 border-blue-500 text-blue-600 hover:bg-blue-50 px-6 py-3 rounded-full font-bold text-lg shadow transition-colors"
+                     >
+                        Lịch sử
+                     </button>
+                 )}
              </div>
          </div>
+
+         {/* Transcript */}
+         <div className="w-full max-w-md flex-grow min-h-0 overflow-y-auto custom-scrollbar space-y-2 border-t border-gray-200 pt-3">
+             {transcript.length === 0 && !liveInput && !liveOutput ? (
+                 <p className="text-center text-sm text-gray-400">Nội dung hội thoại sẽ hiển thị ở đây.</p>
+             ) : (
+                 <>
+                     {transcript.map(item => (
+                         <TranscriptBubble key={item.id} speaker={item.speaker} text={item.text} />
+                     ))}
+                     {liveInput && <TranscriptBubble speaker="user" text={liveInput} isLive />}
+                     {liveOutput && <TranscriptBubble speaker="ai" text={liveOutput} isLive />}
+                 </>
+             )}
+             {mode === 'text' && isAwaitingReply && micState === 'ready' && (
+                 <p className="text-sm text-gray-400 animate-pulse">Gia sư đang trả lời...</p>
+             )}
+             <div ref={transcriptEndRef} />
+         </div>
+
+         {mode === 'text' && micState === 'ready' && (
+             <form
+                className="w-full max-w-md flex gap-2 flex-shrink-0"
+                onSubmit={(e) => { e.preventDefault(); sendChatMessage(); }}
+             >
+                 <input
+                    type="text"
+                    value={chatInput}
+                    onChange={(e) => setChatInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Enter confirms the IME candidate while composing; only send afterwards.
+                      if (e.key === 'Enter' && e.nativeEvent.isComposing) e.preventDefault();
+                    }}
+                    placeholder="Gõ câu trả lời bằng chữ Hán..."
+                    lang="zh-CN"
+                    autoComplete="off"
+                    className="flex-grow p-2 border-2 border-gray-300 rounded-lg text-lg focus:outline-none focus:border-blue-500"
+                    aria-label="Câu trả lời của bạn"
+                 />
+                 <button
+                    type="submit"
+                    disabled={!chatInput.trim() || isAwaitingReply}
+                    className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-semibold rounded-lg transition-colors"
+                 >
+                    Gửi
+                 </button>
+             </form>
+         )}
          
-         <div className="text-xs text-gray-400 max-w-xs text-center">
-            Lưu ý: Hãy đảm bảo bạn đang ở nơi yên tĩnh và cho phép trình duyệt truy cập micro.
+         <div className="text-xs text-gray-400 max-w-xs text-center flex-shrink-0">
+            {mode === 'text'
+              ? 'Chế độ gõ chữ: dùng bộ gõ tiếng Trung để trả lời, không cần micro.'
+              : 'Lưu ý: Hãy đảm bảo bạn đang ở nơi yên tĩnh và cho phép trình duyệt truy cập micro.'}
          </div>
       </div>
     );
 };
 
 const App: React.FC = () => {
-  const [activeLessonId, setActiveLessonId] = useState<number>(LESSONS[0].id);
-  const [activeSubLesson, setActiveSubLesson] = useState<string>(SUB_LESSONS[0]);
+  const [initialLocation] = useState(() => readInitialLocation(SUB_LESSONS));
+  const [activeLessonId, setActiveLessonId] = useState<number>(initialLocation.lessonId);
+  const [activeSubLesson, setActiveSubLesson] = useState<string>(initialLocation.section);
   const [selectedChar, setSelectedChar] = useState<string | null>(null);
   const [isLessonModalOpen, setIsLessonModalOpen] = useState(false);
   
   // Settings state
-  const [userApiKey, setUserApiKey] = useState<string>(() => {
-      return typeof localStorage !== 'undefined' ? localStorage.getItem('gemini_api_key') || '' : '';
+  const [userApiKey, setUserApiKey] = useState<string>(() => readValue('gemini_api_key') || '');
+  const [providerId, setProviderId] = useState<ConversationProviderId>(() => {
+      return readValue('ai_provider') === 'mock' ? 'mock' : 'gemini';
   });
+  const [storageBackend, setStorageBackend] = useState<StorageBackend>(getStorageBackend);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   // Help Modal state
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
+  const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
   const activeLessonName = LESSONS.find(l => l.id === activeLessonId)?.name || '';
   const lessonVocabulary = VOCABULARY_DATA[activeLessonName] || {};
 
-  const handleSaveSettings = (key: string) => {
+  // Time spent is counted in coarse ticks while the page is visible.
+  useEffect(() => {
+    if (!activeLessonName) return;
+    const timer = window.setInterval(() => {
+      if (document.visibilityState === 'visible') addTimeSpent(activeLessonName, TIME_TICK_MS);
+    }, TIME_TICK_MS);
+    return () => clearInterval(timer);
+  }, [activeLessonName]);
+
+  // The URL mirrors the current position. Every move is a new history entry so
+  // the browser's back button steps between sections; a missing or broken hash
+  // is replaced instead so it does not leave a dead entry behind.
+  useEffect(() => {
+    const location = { lessonId: activeLessonId, section: activeSubLesson };
+    const hash = buildHash(location);
+    if (window.location.hash !== hash) {
+      if (parseHash(window.location.hash, SUB_LESSONS)) window.location.hash = hash;
+      else window.history.replaceState(null, '', hash);
+    }
+    saveLastLocation(location);
+  }, [activeLessonId, activeSubLesson]);
+
+  useEffect(() => onStorageBackendChange(setStorageBackend), []);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const location = parseHash(window.location.hash, SUB_LESSONS);
+      if (!location) return;
+      setActiveLessonId(location.lessonId);
+      setActiveSubLesson(location.section);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const handleSaveSettings = (key: string, provider: ConversationProviderId) => {
       setUserApiKey(key);
-      localStorage.setItem('gemini_api_key', key);
+      writeValue('gemini_api_key', key);
+      setProviderId(provider);
+      writeValue('ai_provider', provider);
       setIsSettingsOpen(false);
   };
 
@@ -826,21 +1161,26 @@ const App: React.FC = () => {
     switch (activeSubLesson) {
       case 'Từ mới':
         return <VocabularyList words={lessonVocabulary['Từ mới'] || []} onCharClick={setSelectedChar} />;
+      case 'Ôn tập hôm nay':
+        return <ReviewSession lessonName={activeLessonName} />;
       case 'Gõ từ mới':
-        return <TypingExercise words={lessonVocabulary['Gõ từ mới'] || []} type="Gõ từ mới" />;
-      case 'Từ mới SS':
+        return <TypingExercise words={lessonVocabulary['Gõ từ mới'] || []} type="Gõ từ mới" lessonName={activeLessonName} />;
+      case 'Luyện phát âm':
+        return <PronunciationPractice words={lessonVocabulary['Từ mới'] || []} apiKey={userApiKey} />;
+      case 'Luyện thanh điệu':
+        return <ToneDrill words={lessonVocabulary['Từ mới'] || []} />;
+      case 'Viết chữ':
+        return <WritingPractice key={activeLessonName} words={lessonVocabulary['Từ mới'] || []} />;
       case 'Ngữ pháp':
+        return <GrammarViewer points={GRAMMAR_DATA[activeLessonName] || []} />;
       case 'Bài tập':
-         return (
-            <div className="flex flex-col items-center justify-center h-full text-gray-400">
-                 <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-4 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                 </svg>
-                 <p className="text-lg font-medium">Nội dung đang được cập nhật</p>
-            </div>
-         );
+        return <LessonExercises key={activeLessonName} lessonName={activeLessonName} />;
+      case 'Từ mới SS':
+        return <SupplementaryVocabulary words={SUPPLEMENTARY_VOCABULARY[activeLessonName] || []} coreWords={lessonVocabulary['Từ mới'] || []} onCharClick={setSelectedChar} />;
       case 'Gõ bài khóa':
-        return <TypingExercise words={lessonVocabulary['Gõ bài khóa'] || []} type="Gõ bài khóa" />;
+        return <TypingExercise words={lessonVocabulary['Gõ bài khóa'] || []} type="Gõ bài khóa" lessonName={activeLessonName} />;
+      case 'Nghe viết':
+        return <DictationExercise key={activeLessonName} sentences={lessonVocabulary['Gõ bài khóa'] || []} />;
       case 'Giao tiếp':
         const lessonNumberMatch = activeLessonName.match(/\d+/);
         const lessonNumber = lessonNumberMatch ? parseInt(lessonNumberMatch[0], 10) : 0;
@@ -862,7 +1202,7 @@ const App: React.FC = () => {
         
         return <GiaoTiepExercise words={lessonVocabulary['Giao tiếp'] || []} />;
       case 'AI giao tiếp':
-        return <AIConversation lessonName={activeLessonName} apiKey={userApiKey} />;
+        return <AIConversation lessonName={activeLessonName} apiKey={userApiKey} providerId={providerId} />;
       default:
         return null;
     }
@@ -881,6 +1221,24 @@ const App: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
             </svg>
         </button>
+        <button
+            onClick={() => setIsDashboardOpen(true)}
+            className="absolute left-14 text-white hover:bg-white/20 rounded-full p-2 transition-colors top-1/2 -translate-y-1/2"
+            aria-label="Tiến độ học tập"
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+        </button>
+        <button
+            onClick={() => setIsSearchOpen(true)}
+            className="absolute left-24 text-white hover:bg-white/20 rounded-full p-2 transition-colors top-1/2 -translate-y-1/2"
+            aria-label="Tra từ"
+        >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+        </button>
         <h1 className="text-xl font-bold tracking-wide">Tiếng Trung AI</h1>
         <button 
           onClick={() => setIsLessonModalOpen(true)}
@@ -902,6 +1260,12 @@ const App: React.FC = () => {
         ))}
       </div>
 
+      {storageBackend === 'memory' && (
+        <div className="bg-amber-100 text-amber-800 text-sm text-center px-4 py-1.5 flex-shrink-0">
+          Bộ nhớ trình duyệt đã đầy hoặc bị chặn. Tiến độ mới chỉ được giữ đến khi bạn đóng trang.
+        </div>
+      )}
+
       <main className="flex-grow overflow-hidden p-4 relative">
         <div className="bg-white rounded-xl shadow-lg h-full w-full overflow-hidden border border-orange-200 p-2">
             {renderContent()}
@@ -918,12 +1282,13 @@ const App: React.FC = () => {
       </footer>
 
       {selectedChar && (
-        <HanziWriterModal char={selectedChar} onClose={() => setSelectedChar(null)} />
+        <HanziWriterModal char={selectedChar} onCharClick={setSelectedChar} onClose={() => setSelectedChar(null)} />
       )}
 
       {isLessonModalOpen && (
         <LessonSelectorModal 
           lessons={LESSONS} 
+          packs={CONTENT_PACKS}
           activeLessonId={activeLessonId} 
           onSelect={setActiveLessonId} 
           onClose={() => setIsLessonModalOpen(false)} 
@@ -933,6 +1298,7 @@ const App: React.FC = () => {
       {isSettingsOpen && (
         <SettingsModal 
             currentApiKey={userApiKey}
+            currentProviderId={providerId}
             onSave={handleSaveSettings}
             onClose={() => setIsSettingsOpen(false)}
         />
@@ -941,6 +1307,31 @@ const App: React.FC = () => {
       {isHelpModalOpen && (
         <HelpModal onClose={() => setIsHelpModalOpen(false)} />
       )}
+
+      {isSearchOpen && (
+        <DictionarySearch
+          onOpen={({ lessonName, section }) => {
+            const lesson = LESSONS.find(l => l.name === lessonName);
+            if (lesson) setActiveLessonId(lesson.id);
+            if (SUB_LESSONS.includes(section)) setActiveSubLesson(section);
+            setIsSearchOpen(false);
+          }}
+          onCharClick={setSelectedChar}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+
+      {isDashboardOpen && (
+        <ProgressDashboard
+          activeLessonName={activeLessonName}
+          onSelectLesson={(name) => {
+            const lesson = LESSONS.find(l => l.name === name);
+            if (lesson) setActiveLessonId(lesson.id);
+            setIsDashboardOpen(false);
+          }}
+          onClose={() => setIsDashboardOpen(false)}
+        />
+      )}
     </div>
   );
 };
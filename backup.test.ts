@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackup } from './backup';
+
+const card = {
+  key: '老师',
+  repetitions: 1,
+  interval: 1,
+  easeFactor: 2.5,
+  due: '2026-10-20',
+  lapses: 0,
+  history: [{ at: 1, grade: 'good' }],
+};
+
+const session = {
+  id: 's1',
+  lessonName: 'Bài 16',
+  mode: 'voice',
+  startedAt: 1,
+  endedAt: 2,
+  transcript: [{ id: 1, speaker: 'ai', text: '你好！' }, { id: 2, speaker: 'user', text: '你好' }],
+  outcomes: [{ index: 0, question: '你好吗', result: 'first-try' }],
+};
+
+const file = (data: Record<string, unknown>) => JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: 1, data });
+
+const backup = (overrides: { card?: object; session?: object } = {}) => file({
+  srs_state: { version: 1, cards: { 老师: { ...card, ...overrides.card } } },
+  ai_conversation_history: [{ ...session, ...overrides.session }],
+});
+
+describe('parseBackup', () => {
+  it('accepts a well-formed backup', () => {
+    const { data } = parseBackup(backup());
+    expect(data.srs_state?.cards['老师'].history).toEqual(card.history);
+    expect(data.ai_conversation_history).toEqual([session]);
+  });
+
+  it.each([
+    ['a transcript item without text', { session: { transcript: [{ id: 1, speaker: 'ai' }] } }],
+    ['a transcript item with an unknown speaker', { session: { transcript: [{ id: 1, speaker: 'tutor', text: '你好' }] } }],
+    ['an outcome with an unknown result', { session: { outcomes: [{ index: 0, question: '你好吗', result: 'maybe' }] } }],
+    ['an unknown conversation mode', { session: { mode: 'video' } }],
+  ])('rejects conversations with %s', (_, overrides) => {
+    expect(() => parseBackup(backup(overrides))).toThrow('lịch sử AI giao tiếp');
+  });
+
+  it.each([
+    ['a review without a time', { card: { history: [{ grade: 'good' }] } }],
+    ['an unknown review grade', { card: { history: [{ at: 1, grade: 'perfect' }] } }],
+  ])('rejects cards with %s', (_, overrides) => {
+    expect(() => parseBackup(backup(overrides))).toThrow('lịch ôn tập');
+  });
+});
@@ -0,0 +1,187 @@
+import { loadConversationHistory, mergeConversationHistory } from './conversationHistory';
+import { loadProgress, mergeProgress } from './progress';
+import { loadSrsState, mergeSrsStates, toDayString } from './srs';
+import { removeValue, readValue, writeValue } from './storage';
+import type { StorageSchema } from './storage';
+import type { QuestionResult, ReviewGrade } from './types';
+
+// --- Export / import of learner data as a versioned JSON file ---
+
+export const BACKUP_FORMAT = 'tieng-trung-ai-backup';
+export const BACKUP_VERSION = 1;
+
+// The API key stays on the device it was entered on and is never exported.
+export type BackupKey = 'srs_state' | 'learner_progress' | 'ai_conversation_history' | 'ai_provider' | 'last_position';
+
+const BACKUP_KEYS: BackupKey[] = ['srs_state', 'learner_progress', 'ai_conversation_history', 'ai_provider', 'last_position'];
+
+export interface LearnerBackup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: number;
+  data: Partial<Pick<StorageSchema, BackupKey>>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupSummary {
+  exportedAt: number;
+  lessons: number;
+  cards: number;
+  sessions: number;
+}
+
+const SECTION_LABELS: Record<BackupKey, string> = {
+  srs_state: 'lịch ôn tập',
+  learner_progress: 'tiến độ học',
+  ai_conversation_history: 'lịch sử AI giao tiếp',
+  ai_provider: 'cài đặt gia sư AI',
+  last_position: 'vị trí học gần nhất',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+const QUESTION_RESULTS: QuestionResult[] = ['first-try', 'after-correction', 'incorrect', 'unanswered'];
+
+const isOneOf = <T,>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+const isReview = (value: unknown) => isRecord(value) && isNumber(value.at) && isOneOf(REVIEW_GRADES, value.grade);
+
+const isSrsCard = (value: unknown) =>
+  isRecord(value)
+  && typeof value.key === 'string'
+  && isNumber(value.repetitions)
+  && isNumber(value.interval)
+  && isNumber(value.easeFactor)
+  && typeof value.due === 'string'
+  && isNumber(value.lapses)
+  && Array.isArray(value.history) && value.history.every(isReview);
+
+const isAttempt = (value: unknown) =>
+  isRecord(value) && isNumber(value.at) && isNumber(value.correct) && isNumber(value.total);
+
+const isLessonProgress = (value: unknown) =>
+  isRecord(value)
+  && Array.isArray(value.typing) && value.typing.every(isAttempt)
+  && Array.isArray(value.exercises) && value.exercises.every(isAttempt)
+  && isNumber(value.timeSpentMs);
+
+const isWordStats = (value: unknown) => isRecord(value) && isNumber(value.right) && isNumber(value.wrong);
+
+const isWritingAttempt = (value: unknown) =>
+  isRecord(value) && isNumber(value.at) && isNumber(value.strokes) && isNumber(value.cleanStrokes);
+
+const isTranscriptItem = (value: unknown) =>
+  isRecord(value) && isNumber(value.id) && isOneOf(['user', 'ai'], value.speaker) && typeof value.text === 'string';
+
+const isQuestionOutcome = (value: unknown) =>
+  isRecord(value) && isNumber(value.index) && typeof value.question === 'string' && isOneOf(QUESTION_RESULTS, value.result);
+
+const isConversationSession = (value: unknown) =>
+  isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.lessonName === 'string'
+  && (value.mode === undefined || isOneOf(['voice', 'text'], value.mode))
+  && isNumber(value.startedAt)
+  && isNumber(value.endedAt)
+  && Array.isArray(value.transcript) && value.transcript.every(isTranscriptItem)
+  && Array.isArray(value.outcomes) && value.outcomes.every(isQuestionOutcome);
+
+const VALIDATORS: Record<BackupKey, (value: unknown) => boolean> = {
+  srs_state: value => isRecord(value) && value.version === 1 && isRecord(value.cards) && Object.values(value.cards).every(isSrsCard),
+  learner_progress: value =>
+    isRecord(value)
+    && value.version === 1
+    && isRecord(value.lessons) && Object.values(value.lessons).every(isLessonProgress)
+    && isRecord(value.words) && Object.values(value.words).every(isWordStats)
+    && Array.isArray(value.activeDays) && value.activeDays.every(day => typeof day === 'string')
+    && (value.writing === undefined
+      || (isRecord(value.writing) && Object.values(value.writing).every(a => Array.isArray(a) && a.every(isWritingAttempt)))),
+  ai_conversation_history: value => Array.isArray(value) && value.every(isConversationSession),
+  ai_provider: value => value === 'gemini' || value === 'mock',
+  last_position: value => typeof value === 'string',
+};
+
+export const createBackup = (now = Date.now()): LearnerBackup => {
+  const data: LearnerBackup['data'] = {};
+  const copy = <K extends BackupKey>(key: K) => {
+    const value = readValue(key);
+    if (value !== undefined) data[key] = value;
+  };
+  BACKUP_KEYS.forEach(copy);
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: now, data };
+};
+
+export const backupFileName = (backup: LearnerBackup): string =>
+  `tieng-trung-ai-${toDayString(new Date(backup.exportedAt))}.json`;
+
+// Throws an Error with a message that can be shown to the learner as is.
+export const parseBackup = (text: string): LearnerBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File không đúng định dạng JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !isRecord(parsed.data)) {
+    throw new Error('Đây không phải file sao lưu của ứng dụng.');
+  }
+  if (parsed.version !== BACKUP_VERSION) {
+    throw new Error(isNumber(parsed.version) && parsed.version > BACKUP_VERSION
+      ? 'File được tạo từ phiên bản mới hơn của ứng dụng. Hãy cập nhật ứng dụng rồi thử lại.'
+      : 'Phiên bản file sao lưu không được hỗ trợ.');
+  }
+
+  const source = parsed.data;
+  const invalid = BACKUP_KEYS.filter(key => source[key] !== undefined && !VALIDATORS[key](source[key]));
+  if (invalid.length > 0) {
+    throw new Error(`File sao lưu bị hỏng ở phần: ${invalid.map(key => SECTION_LABELS[key]).join(', ')}.`);
+  }
+
+  // Only known sections are taken over; anything else in the file, including
+  // an API key added by hand, is ignored.
+  const data: LearnerBackup['data'] = {};
+  const take = <K extends BackupKey>(key: K) => {
+    if (source[key] !== undefined) data[key] = source[key] as StorageSchema[K];
+  };
+  BACKUP_KEYS.forEach(take);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: isNumber(parsed.exportedAt) ? parsed.exportedAt : 0,
+    data,
+  };
+};
+
+export const summarizeBackup = (backup: LearnerBackup): BackupSummary => ({
+  exportedAt: backup.exportedAt,
+  lessons: Object.keys(backup.data.learner_progress?.lessons || {}).length,
+  cards: Object.keys(backup.data.srs_state?.cards || {}).length,
+  sessions: backup.data.ai_conversation_history?.length || 0,
+});
+
+// `replace` makes this device an exact copy of the file (sections missing from
+// it are cleared). `merge` combines learning data and keeps this device's
+// settings and position.
+export const applyBackup = (backup: LearnerBackup, mode: ImportMode) => {
+  if (mode === 'replace') {
+    const restore = <K extends BackupKey>(key: K) => {
+      const value = backup.data[key];
+      if (value === undefined) removeValue(key);
+      else writeValue(key, value as StorageSchema[K]);
+    };
+    BACKUP_KEYS.forEach(restore);
+    return;
+  }
+
+  const { srs_state, learner_progress, ai_conversation_history } = backup.data;
+  if (srs_state) writeValue('srs_state', mergeSrsStates(loadSrsState(), srs_state));
+  if (learner_progress) writeValue('learner_progress', mergeProgress(loadProgress(), learner_progress));
+  if (ai_conversation_history) {
+    writeValue('ai_conversation_history', mergeConversationHistory(loadConversationHistory(), ai_conversation_history));
+  }
+};
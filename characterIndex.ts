@@ -0,0 +1,76 @@
+import { CHARACTER_COMPONENTS, RADICAL_NAMES } from './constants';
+import { AI_CONVERSATION_PROMPTS, LESSONS, SUPPLEMENTARY_VOCABULARY, VOCABULARY_DATA } from './content';
+import { isHanzi } from './dictionary';
+import type { VocabularyWord } from './types';
+
+// --- Per-character index: the words containing each Hanzi, where it first appears, its parts ---
+
+const WORD_SECTIONS = ['Từ mới', 'Gõ từ mới'];
+
+export interface CharacterWord {
+  word: VocabularyWord;
+  lessonName: string;
+}
+
+export interface CharacterInfo {
+  char: string;
+  // The earliest lesson using the character anywhere, texts and prompts included.
+  firstLesson: string | null;
+  // Each word listed once, under the lesson that introduces it.
+  words: CharacterWord[];
+  radical: string | null;
+  radicalName: string | null;
+  components: string[];
+}
+
+interface IndexEntry {
+  firstLesson: string;
+  words: Map<string, CharacterWord>;
+}
+
+let index: Map<string, IndexEntry> | null = null;
+
+const buildIndex = (): Map<string, IndexEntry> => {
+  const map = new Map<string, IndexEntry>();
+  const entryFor = (char: string, lessonName: string) => {
+    let entry = map.get(char);
+    if (!entry) {
+      entry = { firstLesson: lessonName, words: new Map() };
+      map.set(char, entry);
+    }
+    return entry;
+  };
+  const addText = (text: string, lessonName: string) => {
+    Array.from(text).filter(isHanzi).forEach(char => entryFor(char, lessonName));
+  };
+  const addWord = (word: VocabularyWord, lessonName: string) => {
+    const key = word.char.trim();
+    new Set(Array.from(key).filter(isHanzi)).forEach(char => {
+      const { words } = entryFor(char, lessonName);
+      if (!words.has(key)) words.set(key, { word, lessonName });
+    });
+  };
+
+  LESSONS.forEach(({ name: lessonName }) => {
+    Object.entries(VOCABULARY_DATA[lessonName] || {}).forEach(([section, words]) => {
+      words.forEach(word => (WORD_SECTIONS.includes(section) ? addWord(word, lessonName) : addText(word.char, lessonName)));
+    });
+    (SUPPLEMENTARY_VOCABULARY[lessonName] || []).forEach(word => addWord(word, lessonName));
+    (AI_CONVERSATION_PROMPTS[lessonName] || []).forEach(prompt => addText(prompt, lessonName));
+  });
+  return map;
+};
+
+export const getCharacterInfo = (char: string): CharacterInfo => {
+  index = index || buildIndex();
+  const entry = index.get(char);
+  const parts = CHARACTER_COMPONENTS[char];
+  return {
+    char,
+    firstLesson: entry?.firstLesson ?? null,
+    words: entry ? Array.from(entry.words.values()) : [],
+    radical: parts?.radical ?? null,
+    radicalName: parts ? RADICAL_NAMES[parts.radical] ?? null : null,
+    components: parts?.components ?? [],
+  };
+};
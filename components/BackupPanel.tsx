@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { applyBackup, backupFileName, createBackup, parseBackup, summarizeBackup } from '../backup';
+import type { ImportMode, LearnerBackup } from '../backup';
+import { flushStorage } from '../storage';
+
+// Export / import of learner data, shown inside the settings dialog.
+const BackupPanel: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<LearnerBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = () => {
+    const backup = createBackup();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = backupFileName(backup);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setPending(null);
+    try {
+      setPending(parseBackup(await file.text()));
+    } catch (err: any) {
+      setError(err?.message || 'Không đọc được file.');
+    }
+  };
+
+  // Every screen reads its data when it mounts, so the simplest way to show
+  // the imported state everywhere is a reload once it is saved.
+  const handleImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    setIsImporting(true);
+    applyBackup(pending, mode);
+    await flushStorage();
+    window.location.reload();
+  };
+
+  const summary = pending && summarizeBackup(pending);
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mb-4">
+      <h4 className="font-semibold text-gray-700 mb-1">Sao lưu dữ liệu học</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Chuyển tiến độ, lịch ôn tập và lịch sử AI giao tiếp sang máy khác. API Key không được đưa vào file.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          className="flex-1 px-3 py-2 text-sm font-semibold border-2 border-orange-400 text-orange-600 rounded-lg hover:bg-orange-50 transition-colors"
+        >
+          Xuất file
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-3 py-2 text-sm font-semibold border-2 border-sky-500 text-sky-600 rounded-lg hover:bg-sky-50 transition-colors"
+        >
+          Nhập file
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+
+      {summary && (
+        <div className="mt-3 p-3 rounded-lg bg-sky-50 text-sm text-gray-700 space-y-2 animate-fade-in-down">
+          <p>
+            File {summary.exportedAt ? `ngày ${new Date(summary.exportedAt).toLocaleDateString('vi-VN')}` : ''}: {summary.lessons} bài có tiến độ,{' '}
+            {summary.cards} thẻ ôn tập, {summary.sessions} buổi AI giao tiếp.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleImport('merge')}
+              disabled={isImporting}
+              className="flex-1 px-3 py-1.5 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 text-white font-semibold rounded-lg transition-colors"
+            >
+              Gộp với dữ liệu hiện có
+            </button>
+            <button
+              onClick={() => handleImport('replace')}
+              disabled={isImporting}
+              className="flex-1 px-3 py-1.5 bg-red-500 hover:bg-red-600 disabled:bg-gray-300 text-white font-semibold rounded-lg transition-colors"
+            >
+              Thay thế toàn bộ
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">"Thay thế toàn bộ" xóa dữ liệu học hiện có trên máy này và dùng dữ liệu trong file.</p>
+          <button onClick={() => setPending(null)} className="text-xs text-gray-500 underline">Hủy</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { playChineseText } from '../audio';
+import { getCharacterInfo } from '../characterIndex';
+import { CHARACTER_COMPONENTS } from '../constants';
+
+interface CharacterBreakdownProps {
+  char: string;
+  // Opens another character, e.g. a component that is itself taught in the course.
+  onCharClick: (char: string) => void;
+}
+
+const CharacterBreakdown: React.FC<CharacterBreakdownProps> = ({ char, onCharClick }) => {
+  const info = useMemo(() => getCharacterInfo(char), [char]);
+
+  const renderPart = (part: string, key?: React.Key) =>
+    CHARACTER_COMPONENTS[part] && part !== char ? (
+      <button key={key} onClick={() => onCharClick(part)} className="text-orange-600 hover:underline">{part}</button>
+    ) : (
+      <span key={key}>{part}</span>
+    );
+
+  return (
+    <div className="w-full max-w-sm text-sm text-gray-700 space-y-2">
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {info.radical && (
+          <span>
+            Bộ: <span className="text-lg">{renderPart(info.radical)}</span>
+            {info.radicalName && <span className="text-gray-500"> ({info.radicalName})</span>}
+          </span>
+        )}
+        {info.components.length > 0 && (
+          <span>
+            Thành phần:{' '}
+            <span className="text-lg">
+              {info.components.map((part, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <span className="text-gray-400"> + </span>}
+                  {renderPart(part)}
+                </React.Fragment>
+              ))}
+            </span>
+          </span>
+        )}
+        {info.firstLesson && <span>Xuất hiện lần đầu: <span className="font-semibold">{info.firstLesson}</span></span>}
+      </div>
+
+      {info.words.length > 0 && (
+        <div>
+          <p className="font-semibold text-gray-600 mb-1">Chữ này còn xuất hiện trong…</p>
+          <ul className="max-h-40 overflow-y-auto custom-scrollbar divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {info.words.map(({ word, lessonName }) => (
+              <li
+                key={word.char}
+                onClick={() => playChineseText(word.char)}
+                className="flex items-baseline gap-2 px-2 py-1.5 cursor-pointer hover:bg-orange-50"
+              >
+                <span className="text-base font-semibold whitespace-nowrap">
+                  {Array.from(word.char).map((c, i) => (
+                    <span key={i} className={c === char ? 'text-orange-500' : 'text-gray-800'}>{c}</span>
+                  ))}
+                </span>
+                <span className="text-sky-600 whitespace-nowrap">{word.pinyin}</span>
+                <span className="text-gray-500 truncate flex-grow">{word.vi}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{lessonName}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CharacterBreakdown;
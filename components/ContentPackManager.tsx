@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import {
+  DEFAULT_PACK_ID,
+  findLessonNameConflicts,
+  installContentPack,
+  loadUserPacks,
+  parseContentPack,
+  removeContentPack,
+} from '../contentPack';
+import type { LoadedPack } from '../content';
+import { flushStorage } from '../storage';
+
+interface ContentPackManagerProps {
+  packs: LoadedPack[];
+}
+
+// Installs and removes content packs. The course is assembled when the app
+// loads, so every change is followed by a reload.
+const ContentPackManager: React.FC<ContentPackManagerProps> = ({ packs }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveAndReload = async (change: () => void) => {
+    setIsSaving(true);
+    change();
+    await flushStorage();
+    window.location.reload();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { pack, errors: validationErrors } = parseContentPack(await file.text());
+    if (!pack) {
+      setErrors(validationErrors);
+      return;
+    }
+    if (pack.id === DEFAULT_PACK_ID) {
+      setErrors([`Mã gói '${pack.id}' đã được dùng cho giáo trình có sẵn.`]);
+      return;
+    }
+    const conflicts = findLessonNameConflicts(pack, loadUserPacks());
+    if (conflicts.length > 0) {
+      setErrors([`Các bài đã có trong gói khác: ${conflicts.join(', ')}.`]);
+      return;
+    }
+    setErrors([]);
+    await saveAndReload(() => installContentPack(pack));
+  };
+
+  const handleRemove = async (pack: LoadedPack) => {
+    if (!window.confirm(`Gỡ gói "${pack.title}"? Tiến độ đã học vẫn được giữ lại.`)) return;
+    await saveAndReload(() => removeContentPack(pack.id));
+  };
+
+  const userPacks = packs.filter(p => !p.builtIn);
+
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-500">Thêm bài học từ gói nội dung (.json)</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSaving}
+          className="px-3 py-1.5 text-sm font-semibold border-2 border-sky-500 text-sky-600 rounded-lg hover:bg-sky-50 disabled:opacity-50 transition-colors"
+        >
+          Nhập gói bài học
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 bg-red-50 rounded-lg p-2 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+          {errors.map((error, i) => <li key={i}>{error}</li>)}
+        </ul>
+      )}
+
+      {userPacks.map(pack => (
+        <div key={pack.id} className="flex items-center justify-between text-sm text-gray-600">
+          <span>{pack.title} <span className="text-gray-400">({pack.lessonIds.length} bài)</span></span>
+          <button onClick={() => handleRemove(pack)} disabled={isSaving} className="text-red-500 hover:underline">Gỡ</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ContentPackManager;
@@ -0,0 +1,126 @@
+import React, { useState, useMemo } from 'react';
+import { deleteConversationSession, loadConversationHistory, summarizeByPrompt } from '../conversationHistory';
+import TranscriptBubble from './TranscriptBubble';
+import type { ConversationSession, QuestionResult } from '../types';
+
+const RESULT_LABELS: Record<QuestionResult, { label: string; className: string }> = {
+  'first-try': { label: 'Đúng ngay', className: 'bg-green-100 text-green-700' },
+  'after-correction': { label: 'Sau khi sửa', className: 'bg-amber-100 text-amber-700' },
+  'incorrect': { label: 'Chưa đúng', className: 'bg-red-100 text-red-700' },
+  'unanswered': { label: 'Chưa trả lời', className: 'bg-gray-100 text-gray-500' },
+};
+
+const formatDateTime = (time: number) => new Date(time).toLocaleString('vi-VN', {
+  day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes} phút ${seconds} giây`;
+};
+
+interface ConversationHistoryProps {
+  lessonName: string;
+  prompts: string[];
+  onClose: () => void;
+}
+
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({ lessonName, prompts, onClose }) => {
+  const [sessions, setSessions] = useState<ConversationSession[]>(
+    () => loadConversationHistory().filter(s => s.lessonName === lessonName).reverse()
+  );
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const stats = useMemo(() => summarizeByPrompt(prompts, sessions), [prompts, sessions]);
+
+  const handleDelete = (id: string) => {
+    deleteConversationSession(id);
+    setSessions(prev => prev.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 space-y-4">
+      <div className="flex items-center justify-between flex-shrink-0">
+        <h3 className="text-xl font-bold text-gray-700">Lịch sử luyện nói - {lessonName}</h3>
+        <button onClick={onClose} className="px-4 py-1.5 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow transition-colors">
+          Quay lại
+        </button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-center text-gray-400 mt-8">Chưa có buổi luyện nói nào được lưu cho bài này.</p>
+      ) : (
+        <div className="flex-grow min-h-0 overflow-y-auto custom-scrollbar space-y-6 pr-2">
+          <section>
+            <h4 className="font-bold text-orange-500 mb-2">Thống kê theo câu hỏi ({sessions.length} buổi)</h4>
+            <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-4 gap-y-1 text-sm">
+              <span className="font-semibold text-gray-500">Câu hỏi</span>
+              <span className="font-semibold text-green-600">Đúng ngay</span>
+              <span className="font-semibold text-amber-600">Sau khi sửa</span>
+              <span className="font-semibold text-red-600">Chưa đúng</span>
+              <span className="font-semibold text-gray-400">Chưa trả lời</span>
+              {stats.map(stat => (
+                <React.Fragment key={stat.index}>
+                  <span className="text-gray-800">{stat.index + 1}. {stat.question}</span>
+                  <span className="text-center text-green-600">{stat.firstTry}</span>
+                  <span className={`text-center ${stat.afterCorrection > stat.firstTry ? 'font-bold' : ''} text-amber-600`}>{stat.afterCorrection}</span>
+                  <span className={`text-center ${stat.incorrect > 0 ? 'font-bold' : ''} text-red-600`}>{stat.incorrect}</span>
+                  <span className="text-center text-gray-400">{stat.unanswered}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="font-bold text-orange-500">Các buổi đã lưu</h4>
+            {sessions.map(session => {
+              const answered = session.outcomes.filter(o => o.result === 'first-try' || o.result === 'after-correction').length;
+              const isExpanded = expandedId === session.id;
+              return (
+                <div key={session.id} className="border border-gray-200 rounded-lg">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : session.id)}
+                    className="w-full flex justify-between items-center px-3 py-2 text-left hover:bg-orange-50 rounded-lg transition-colors"
+                  >
+                    <span className="text-gray-700">{formatDateTime(session.startedAt)}</span>
+                    <span className="text-sm text-gray-500">
+                      {answered}/{session.outcomes.length} câu · {formatDuration(session.endedAt - session.startedAt)}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <div className="px-3 pb-3 space-y-3 animate-fade-in-down">
+                      <div className="flex flex-wrap gap-1">
+                        {session.outcomes.map(outcome => (
+                          <span
+                            key={outcome.index}
+                            title={RESULT_LABELS[outcome.result].label}
+                            className={`px-2 py-0.5 rounded text-xs ${RESULT_LABELS[outcome.result].className}`}
+                          >
+                            {outcome.question}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="space-y-2">
+                        {session.transcript.map(item => (
+                          <TranscriptBubble key={item.id} speaker={item.speaker} text={item.text} />
+                        ))}
+                      </div>
+                      <div className="text-right">
+                        <button onClick={() => handleDelete(session.id)} className="text-sm text-red-500 hover:underline">
+                          Xóa buổi này
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationHistory;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { playChineseText } from '../audio';
+import { checkDictation, isDictatable } from '../dictation';
+import type { CharacterMatch, DictationCheck } from '../dictation';
+import type { VocabularyWord } from '../types';
+
+const CHARACTER_CLASSES: Record<CharacterMatch, string> = {
+  'correct': 'bg-green-100 text-green-700 border-green-300',
+  'wrong': 'bg-red-100 text-red-700 border-red-300',
+  'missing': 'bg-red-50 text-red-400 border-red-300 border-dashed',
+  'extra': 'bg-red-100 text-red-700 border-red-300 line-through',
+};
+
+const CharacterDiff: React.FC<{ check: DictationCheck }> = ({ check }) => (
+  <div className="flex flex-wrap justify-center gap-1">
+    {check.chars.map((c, i) => (
+      <span key={i} className={`min-w-[2.25rem] text-center px-1 py-0.5 rounded border ${CHARACTER_CLASSES[c.match]}`}>
+        {/* A wrong character shows what should have been written above it. */}
+        {c.match === 'wrong' && <span className="block text-xs text-green-700">{c.expected}</span>}
+        <span className="text-2xl">{c.match === 'missing' ? c.expected : c.typed}</span>
+      </span>
+    ))}
+  </div>
+);
+
+interface DictationExerciseProps {
+  sentences: VocabularyWord[];
+}
+
+// Nghe viết: each sentence is only heard, then typed in Hanzi and compared
+// character by character.
+const DictationExercise: React.FC<DictationExerciseProps> = ({ sentences: lessonSentences }) => {
+  const sentences = useMemo(() => lessonSentences.filter(s => isDictatable(s.char)), [lessonSentences]);
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  const [checks, setChecks] = useState<DictationCheck[]>([]);
+
+  const restart = useCallback(() => {
+    setIndex(0);
+    setInput('');
+    setChecks([]);
+  }, []);
+
+  const sentence = sentences[index];
+  const check = checks[index];
+
+  useEffect(() => {
+    if (sentence) playChineseText(sentence.char);
+  }, [sentence]);
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sentence || check || !input.trim()) return;
+    setChecks(prev => [...prev, checkDictation(sentence.char, input)]);
+  };
+
+  const handleNext = () => {
+    setInput('');
+    setIndex(i => i + 1);
+  };
+
+  if (sentences.length === 0) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có câu để nghe viết.</p>;
+  }
+
+  if (!sentence) {
+    const perfect = checks.filter(c => c.isCorrect).length;
+    const correct = checks.reduce((sum, c) => sum + c.correct, 0);
+    const total = checks.reduce((sum, c) => sum + c.total, 0);
+    return (
+      <div className="flex flex-col items-center justify-center h-full space-y-4">
+        <p className="text-2xl font-bold text-gray-700">Đúng hoàn toàn: {perfect}/{sentences.length} câu</p>
+        <p className="text-gray-600">Đúng {correct}/{total} chữ ({total > 0 ? Math.round((correct / total) * 100) : 0}%)</p>
+        <button
+          onClick={restart}
+          className="px-4 py-1.5 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow transition-transform transform hover:scale-105"
+        >
+          Làm lại
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full items-center p-4 space-y-6 overflow-y-auto custom-scrollbar">
+      <div className="flex gap-4 text-sm font-semibold text-gray-500">
+        <span>Câu {index + 1}/{sentences.length}</span>
+        <span className="text-green-600">Đúng: {checks.filter(c => c.isCorrect).length}</span>
+      </div>
+
+      <button
+        onClick={() => playChineseText(sentence.char)}
+        className="w-28 h-28 rounded-full border-4 border-orange-300 bg-orange-50 text-5xl hover:bg-orange-100 transition-colors"
+        aria-label="Nghe lại"
+      >
+        🔊
+      </button>
+
+      <p className="text-gray-600">Nghe và gõ lại câu bằng chữ Hán.</p>
+
+      <form onSubmit={handleCheck} className="w-full max-w-lg flex flex-col items-center gap-3">
+        <input
+          type="text"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          disabled={!!check}
+          className="w-full p-3 bg-white border-2 border-gray-300 rounded-lg text-gray-800 text-xl text-center transition-all duration-300 focus:outline-none focus:ring-2 focus:border-orange-500 focus:ring-orange-500 disabled:bg-gray-50"
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          aria-label="Gõ câu vừa nghe"
+        />
+        {!check && (
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors disabled:opacity-50"
+          >
+            Kiểm tra
+          </button>
+        )}
+      </form>
+
+      {check && (
+        <div className="text-center space-y-3 animate-fade-in-down">
+          <p className={`font-bold ${check.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+            {check.isCorrect ? 'Chính xác!' : `Đúng ${check.correct}/${check.total} chữ`}
+          </p>
+          <CharacterDiff check={check} />
+          {!check.isCorrect && (
+            <p className="text-xs text-gray-500">
+              <span className="text-red-700">Đỏ</span>: sai · <span className="text-red-400">viền đứt</span>: thiếu · <span className="line-through">gạch ngang</span>: thừa
+            </p>
+          )}
+          <div className="space-y-1">
+            <p className="text-2xl font-semibold text-gray-800">{sentence.char}</p>
+            {sentence.pinyin && <p className="text-sky-600">{sentence.pinyin}</p>}
+            {sentence.vi && <p className="text-gray-600">{sentence.vi}</p>}
+          </div>
+          <button
+            onClick={handleNext}
+            className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+          >
+            {index + 1 < sentences.length ? 'Câu tiếp theo' : 'Xem kết quả'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DictationExercise;
@@ -0,0 +1,86 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { playChineseText } from '../audio';
+import { searchDictionary } from '../search';
+import type { SearchOccurrence } from '../search';
+
+const MATCH_LABELS = { hanzi: 'chữ Hán', pinyin: 'pinyin', vi: 'nghĩa' } as const;
+
+interface DictionarySearchProps {
+  onOpen: (occurrence: SearchOccurrence) => void;
+  onCharClick: (char: string) => void;
+  onClose: () => void;
+}
+
+const DictionarySearch: React.FC<DictionarySearchProps> = ({ onOpen, onCharClick, onClose }) => {
+  const [query, setQuery] = useState('');
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(() => searchDictionary(deferredQuery), [deferredQuery]);
+
+  return (
+    <div className="fixed inset-0 bg-orange-50 z-40 flex flex-col animate-fade-in-fast" role="dialog" aria-modal="true">
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 p-3 flex items-center gap-3 flex-shrink-0 shadow">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Tìm chữ Hán, pinyin hoặc nghĩa (vd: 客气, keqi, khach sao)"
+          autoFocus
+          className="flex-grow rounded-full px-4 py-2 text-gray-800 outline-none focus:ring-2 focus:ring-white"
+        />
+        <button onClick={onClose} className="text-white hover:bg-white/20 rounded-full p-1 transition-colors" aria-label="Đóng">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto custom-scrollbar p-4 max-w-3xl w-full mx-auto">
+        {!deferredQuery.trim() ? (
+          <p className="text-center text-gray-400 mt-8">Tìm trong từ vựng, bài khóa và câu hỏi giao tiếp của tất cả các bài.</p>
+        ) : results.length === 0 ? (
+          <p className="text-center text-gray-400 mt-8">Không tìm thấy kết quả nào.</p>
+        ) : (
+          <ul className="space-y-2">
+            {results.map(({ entry, matchedOn }) => (
+              <li key={entry.char} className="bg-white rounded-xl shadow-sm border border-orange-100 p-3">
+                <div className="flex items-start gap-3">
+                  <button
+                    onClick={() => (entry.isSentence ? playChineseText(entry.char) : onCharClick(entry.char))}
+                    className={`font-semibold text-gray-800 hover:text-orange-600 text-left ${entry.isSentence ? 'text-lg' : 'text-2xl'}`}
+                  >
+                    {entry.char}
+                  </button>
+                  <div className="flex-grow min-w-0">
+                    {entry.pinyin && <p className="text-sky-600">{entry.pinyin}</p>}
+                    {entry.vi && <p className="text-gray-600">{entry.vi}</p>}
+                  </div>
+                  <button
+                    onClick={() => playChineseText(entry.char)}
+                    className="p-1.5 rounded-full hover:bg-orange-100 text-orange-500 flex-shrink-0"
+                    aria-label="Nghe"
+                  >
+                    🔊
+                  </button>
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                  <span className="text-gray-400">Khớp {MATCH_LABELS[matchedOn]} · Có trong:</span>
+                  {entry.occurrences.map(occurrence => (
+                    <button
+                      key={`${occurrence.lessonName}/${occurrence.section}`}
+                      onClick={() => onOpen(occurrence)}
+                      className="px-2 py-0.5 rounded-full bg-green-50 text-green-700 border border-green-200 hover:bg-green-100"
+                    >
+                      {occurrence.lessonName} · {occurrence.section}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DictionarySearch;
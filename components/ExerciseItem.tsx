@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { playChineseText } from '../audio';
+import { BLANK, describeAnswer, isAnswerCorrect, shuffle } from '../exercises';
+import type { ExerciseAnswer } from '../exercises';
+import type { Exercise, FillBlankExercise, ListeningExercise, MatchingExercise, MultipleChoiceExercise, ReorderExercise } from '../types';
+
+const TYPE_LABELS: Record<Exercise['type'], string> = {
+  'multiple-choice': 'Chọn đáp án đúng',
+  'fill-blank': 'Điền vào chỗ trống',
+  'reorder': 'Sắp xếp thành câu',
+  'matching': 'Nối chữ Hán với nghĩa',
+  'listening': 'Nghe và chọn',
+};
+
+const optionClassName = (submitted: boolean, isAnswer: boolean, isPicked: boolean) =>
+  !submitted ? 'border-gray-300 bg-white hover:border-orange-400 hover:bg-orange-50 text-gray-700'
+    : isAnswer ? 'border-green-500 bg-green-50 text-green-700'
+    : isPicked ? 'border-red-500 bg-red-50 text-red-700'
+    : 'border-gray-200 bg-white text-gray-400';
+
+const checkButtonClassName = 'px-6 py-2 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 text-white font-semibold rounded-lg shadow transition-colors';
+
+interface ViewProps<T extends Exercise> {
+  exercise: T;
+  submitted: boolean;
+  onSubmit: (answer: ExerciseAnswer) => void;
+}
+
+const ChoiceView: React.FC<ViewProps<MultipleChoiceExercise | ListeningExercise>> = ({ exercise, submitted, onSubmit }) => {
+  const [picked, setPicked] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (exercise.type === 'listening') playChineseText(exercise.audio);
+  }, [exercise]);
+
+  return (
+    <div className="space-y-4">
+      {exercise.type === 'listening' ? (
+        <div className="flex justify-center">
+          <button
+            onClick={() => playChineseText(exercise.audio)}
+            className="w-20 h-20 rounded-full border-4 border-orange-300 bg-orange-50 text-4xl hover:bg-orange-100 transition-colors"
+            aria-label="Nghe lại"
+          >
+            🔊
+          </button>
+        </div>
+      ) : (
+        <p className="text-lg font-semibold text-gray-800 text-center">{exercise.prompt}</p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {exercise.options.map((option, i) => (
+          <button
+            key={i}
+            onClick={() => { setPicked(i); onSubmit(i); }}
+            disabled={submitted}
+            className={`py-3 px-4 rounded-lg border-2 text-lg transition-colors ${optionClassName(submitted, i === exercise.answer, i === picked)}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const FillBlankView: React.FC<ViewProps<FillBlankExercise>> = ({ exercise, submitted, onSubmit }) => {
+  const [value, setValue] = useState('');
+  const parts = exercise.sentence.split(BLANK);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-2xl text-gray-800 text-center leading-relaxed">
+        {parts.map((part, i) => (
+          <React.Fragment key={i}>
+            {part}
+            {i < parts.length - 1 && (
+              <span className="inline-block min-w-[3rem] mx-1 px-2 border-b-2 border-orange-400 text-orange-600 font-semibold">{value || ' '}</span>
+            )}
+          </React.Fragment>
+        ))}
+      </p>
+      {exercise.translation && <p className="text-center text-gray-500">{exercise.translation}</p>}
+      {exercise.options ? (
+        <div className="flex flex-wrap justify-center gap-3">
+          {exercise.options.map(option => (
+            <button
+              key={option}
+              onClick={() => { setValue(option); onSubmit(option); }}
+              disabled={submitted}
+              className={`px-5 py-2 rounded-lg border-2 text-lg transition-colors ${optionClassName(submitted, option === exercise.answer, option === value)}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (value.trim()) onSubmit(value); }}
+          className="flex justify-center gap-2"
+        >
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            disabled={submitted}
+            className="w-48 p-2 bg-white border-2 border-gray-300 rounded-lg text-xl text-center focus:outline-none focus:border-orange-500"
+            autoComplete="off"
+            aria-label="Đáp án"
+          />
+          <button type="submit" disabled={submitted || !value.trim()} className={checkButtonClassName}>Kiểm tra</button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+const ReorderView: React.FC<ViewProps<ReorderExercise>> = ({ exercise, submitted, onSubmit }) => {
+  const bank = useMemo(() => shuffle(exercise.tokens.map((_, i) => i)), [exercise]);
+  const [placed, setPlaced] = useState<number[]>([]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-center text-gray-600">{exercise.translation}</p>
+      <div className="min-h-[3.5rem] flex flex-wrap justify-center gap-2 p-3 rounded-lg border-2 border-dashed border-orange-300 bg-orange-50/50">
+        {placed.map((tokenIndex, position) => (
+          <button
+            key={tokenIndex}
+            onClick={() => setPlaced(prev => prev.filter((_, p) => p !== position))}
+            disabled={submitted}
+            className="px-3 py-1 rounded-lg bg-white border-2 border-orange-400 text-xl text-gray-800"
+          >
+            {exercise.tokens[tokenIndex]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">
+        {bank.filter(i => !placed.includes(i)).map(tokenIndex => (
+          <button
+            key={tokenIndex}
+            onClick={() => setPlaced(prev => [...prev, tokenIndex])}
+            disabled={submitted}
+            className="px-3 py-1 rounded-lg bg-white border-2 border-gray-300 hover:border-orange-400 text-xl text-gray-700 transition-colors"
+          >
+            {exercise.tokens[tokenIndex]}
+          </button>
+        ))}
+      </div>
+      <div className="text-center">
+        <button
+          onClick={() => onSubmit(placed.map(i => exercise.tokens[i]))}
+          disabled={submitted || placed.length !== exercise.tokens.length}
+          className={checkButtonClassName}
+        >
+          Kiểm tra
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const MatchingView: React.FC<ViewProps<MatchingExercise>> = ({ exercise, submitted, onSubmit }) => {
+  const left = useMemo(() => shuffle(exercise.pairs.map((_, i) => i)), [exercise]);
+  const right = useMemo(() => shuffle(exercise.pairs.map((_, i) => i)), [exercise]);
+  const [matches, setMatches] = useState<Record<number, number>>({});
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const handleRight = (meaningIndex: number) => {
+    if (selected === null) return;
+    setMatches(prev => {
+      const next = { ...prev };
+      Object.keys(next).forEach(k => { if (next[Number(k)] === meaningIndex) delete next[Number(k)]; });
+      next[selected] = meaningIndex;
+      return next;
+    });
+    setSelected(null);
+  };
+
+  const isComplete = Object.keys(matches).length === exercise.pairs.length;
+  const matchedMeanings = new Set(Object.values(matches));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          {left.map(pairIndex => {
+            const meaning = matches[pairIndex];
+            const isRight = meaning !== undefined && exercise.pairs[meaning].vi === exercise.pairs[pairIndex].vi;
+            return (
+              <button
+                key={pairIndex}
+                onClick={() => setSelected(pairIndex)}
+                disabled={submitted}
+                className={`w-full py-2 px-3 rounded-lg border-2 text-left transition-colors
+                  ${submitted ? (isRight ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50')
+                    : selected === pairIndex ? 'border-orange-500 bg-orange-50'
+                    : 'border-gray-300 bg-white hover:border-orange-400'}`}
+              >
+                <span className="text-xl font-semibold text-gray-800">{exercise.pairs[pairIndex].char}</span>
+                {meaning !== undefined && <span className="block text-sm text-gray-500">→ {exercise.pairs[meaning].vi}</span>}
+              </button>
+            );
+          })}
+        </div>
+        <div className="space-y-2">
+          {right.map(meaningIndex => (
+            <button
+              key={meaningIndex}
+              onClick={() => handleRight(meaningIndex)}
+              disabled={submitted || selected === null}
+              className={`w-full py-2 px-3 rounded-lg border-2 text-left transition-colors
+                ${matchedMeanings.has(meaningIndex) ? 'border-sky-300 bg-sky-50 text-gray-500' : 'border-gray-300 bg-white text-gray-700'}
+                ${selected !== null && !submitted ? 'hover:border-orange-400' : ''}`}
+            >
+              {exercise.pairs[meaningIndex].vi}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="text-center">
+        <button
+          onClick={() => onSubmit(exercise.pairs.map((_, i) => matches[i]))}
+          disabled={submitted || !isComplete}
+          className={checkButtonClassName}
+        >
+          Kiểm tra
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ExerciseItemProps {
+  exercise: Exercise;
+  onAnswered: (correct: boolean) => void;
+}
+
+const ExerciseItem: React.FC<ExerciseItemProps> = ({ exercise, onAnswered }) => {
+  const [result, setResult] = useState<boolean | null>(null);
+  const submitted = result !== null;
+
+  const handleSubmit = (answer: ExerciseAnswer) => {
+    if (submitted) return;
+    const correct = isAnswerCorrect(exercise, answer);
+    setResult(correct);
+    onAnswered(correct);
+  };
+
+  const viewProps = { submitted, onSubmit: handleSubmit };
+
+  return (
+    <div className="w-full max-w-xl space-y-5">
+      <p className="text-sm font-semibold text-orange-500 text-center uppercase tracking-wide">{TYPE_LABELS[exercise.type]}</p>
+      {exercise.type === 'multiple-choice' || exercise.type === 'listening' ? <ChoiceView exercise={exercise} {...viewProps} />
+        : exercise.type === 'fill-blank' ? <FillBlankView exercise={exercise} {...viewProps} />
+        : exercise.type === 'reorder' ? <ReorderView exercise={exercise} {...viewProps} />
+        : <MatchingView exercise={exercise} {...viewProps} />}
+      {submitted && (
+        <div className="text-center space-y-1 animate-fade-in-down">
+          <p className={`font-bold ${result ? 'text-green-600' : 'text-red-600'}`}>{result ? 'Chính xác!' : 'Chưa đúng.'}</p>
+          {!result && <p className="text-gray-700">Đáp án: <span className="font-semibold">{describeAnswer(exercise)}</span></p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseItem;
@@ -0,0 +1,118 @@
+import React, { useState, useCallback } from 'react';
+import ExerciseItem from './ExerciseItem';
+import { countCorrect, describeAnswer, describePrompt } from '../exercises';
+import type { ExerciseRoundResult } from '../exercises';
+import type { Exercise } from '../types';
+
+interface ExerciseSessionProps {
+  // Fixed for the lifetime of the component; remount it with a new key to switch sets.
+  exercises: Exercise[];
+  // Called once per full run, when the last item of the first round is answered.
+  onComplete?: (correct: number, total: number) => void;
+}
+
+const ExerciseSession: React.FC<ExerciseSessionProps> = ({ exercises, onComplete }) => {
+  const [queue, setQueue] = useState<Exercise[]>(exercises);
+  const [round, setRound] = useState(1);
+  const [index, setIndex] = useState(0);
+  const [results, setResults] = useState<ExerciseRoundResult[]>([]);
+  const [firstRoundScore, setFirstRoundScore] = useState<number | null>(null);
+
+  const startRound = useCallback((items: Exercise[], roundNumber: number) => {
+    setQueue(items);
+    setRound(roundNumber);
+    setIndex(0);
+    setResults([]);
+  }, []);
+
+  const current = queue[index];
+  const isAnswered = results.length > index;
+  const isFinished = queue.length > 0 && index >= queue.length;
+
+  const handleAnswered = (correct: boolean) => {
+    if (!current) return;
+    const updated = [...results, { exercise: current, correct }];
+    setResults(updated);
+    if (round === 1 && updated.length === queue.length) {
+      setFirstRoundScore(countCorrect(updated));
+      onComplete?.(countCorrect(updated), updated.length);
+    }
+  };
+
+  if (exercises.length === 0) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có bài tập.</p>;
+  }
+
+  if (isFinished) {
+    const missed = results.filter(r => !r.correct);
+    const score = countCorrect(results);
+    return (
+      <div className="flex flex-col h-full items-center p-4 space-y-5 overflow-y-auto custom-scrollbar">
+        <p className="text-2xl font-bold text-gray-700">
+          {round === 1 ? 'Kết quả' : `Làm lại lần ${round - 1}`}: <span className={score === results.length ? 'text-green-600' : 'text-orange-600'}>{score}/{results.length}</span>
+        </p>
+        {round > 1 && firstRoundScore !== null && (
+          <p className="text-sm text-gray-500">Lần đầu: {firstRoundScore}/{exercises.length}</p>
+        )}
+        {missed.length > 0 ? (
+          <div className="w-full max-w-xl space-y-2">
+            <p className="font-semibold text-gray-600">Câu làm sai:</p>
+            <ul className="space-y-2">
+              {missed.map(({ exercise }) => (
+                <li key={exercise.id} className="px-3 py-2 rounded-lg border border-red-200 bg-red-50">
+                  <p className="text-sm text-gray-500">{describePrompt(exercise)}</p>
+                  <p className="text-gray-800 font-semibold">{describeAnswer(exercise)}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-lg text-green-600 font-medium">🎉 Bạn đã làm đúng tất cả!</p>
+        )}
+        <div className="flex gap-3">
+          {missed.length > 0 && (
+            <button
+              onClick={() => startRound(missed.map(r => r.exercise), round + 1)}
+              className="px-4 py-1.5 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+            >
+              Làm lại câu sai
+            </button>
+          )}
+          <button
+            onClick={() => { startRound(exercises, 1); setFirstRoundScore(null); }}
+            className="px-4 py-1.5 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow transition-transform transform hover:scale-105"
+          >
+            Làm lại từ đầu
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full items-center p-4 space-y-6 overflow-y-auto custom-scrollbar">
+      <div className="w-full max-w-xl space-y-1">
+        <div className="flex justify-between text-sm font-semibold text-gray-500">
+          <span>Câu {index + 1}/{queue.length}{round > 1 ? ' · Làm lại câu sai' : ''}</span>
+          <span className="text-green-600">Đúng: {countCorrect(results)}</span>
+        </div>
+        <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+          <div className="h-full bg-orange-400 transition-all" style={{ width: `${(index / queue.length) * 100}%` }} />
+        </div>
+      </div>
+
+      {current && <ExerciseItem key={`${round}-${index}-${current.id}`} exercise={current} onAnswered={handleAnswered} />}
+
+      {isAnswered && (
+        <button
+          onClick={() => setIndex(i => i + 1)}
+          className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+        >
+          {index + 1 < queue.length ? 'Tiếp theo' : 'Xem kết quả'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseSession;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { playChineseText } from '../audio';
+import { lookupWord } from '../dictionary';
+import type { GrammarPoint } from '../types';
+
+interface GrammarViewerProps {
+  points: GrammarPoint[];
+}
+
+const GrammarViewer: React.FC<GrammarViewerProps> = ({ points }) => {
+  const [openId, setOpenId] = useState<number | null>(points[0]?.id ?? null);
+
+  useEffect(() => {
+    setOpenId(points[0]?.id ?? null);
+  }, [points]);
+
+  if (points.length === 0) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có ngữ pháp.</p>;
+  }
+
+  return (
+    <div className="flex flex-col h-full overflow-y-auto custom-scrollbar pr-2 space-y-3">
+      {points.map((point, index) => {
+        const isOpen = openId === point.id;
+        return (
+          <div key={point.id} className="rounded-xl border-2 border-orange-200 bg-white shadow-sm">
+            <button
+              onClick={() => setOpenId(isOpen ? null : point.id)}
+              className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left"
+              aria-expanded={isOpen}
+            >
+              <span className="font-bold text-gray-800">{index + 1}. {point.title}</span>
+              <span className={`text-orange-500 transition-transform ${isOpen ? 'rotate-180' : ''}`}>▾</span>
+            </button>
+
+            {isOpen && (
+              <div className="px-4 pb-4 space-y-3 animate-fade-in-down">
+                <p className="px-3 py-2 rounded-lg bg-orange-50 border border-orange-200 font-semibold text-orange-700 text-center">
+                  {point.pattern}
+                </p>
+                <p className="text-gray-700">{point.explanation}</p>
+
+                <ul className="space-y-2">
+                  {point.examples.map((example, i) => (
+                    <li
+                      key={i}
+                      onClick={() => playChineseText(example.char)}
+                      className="px-3 py-2 rounded-lg hover:bg-sky-50 cursor-pointer transition-colors"
+                      role="button"
+                      tabIndex={0}
+                      aria-label={`Phát âm ${example.char}`}
+                    >
+                      <p className="text-lg font-semibold text-gray-800">🔊 {example.char}</p>
+                      <p className="text-sky-600">{example.pinyin}</p>
+                      <p className="text-sm text-gray-500">{example.vi}</p>
+                    </li>
+                  ))}
+                </ul>
+
+                {point.vocabulary.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-100">
+                    <span className="text-sm text-gray-500 self-center">Từ vựng:</span>
+                    {point.vocabulary.map(char => {
+                      const word = lookupWord(char);
+                      return (
+                        <button
+                          key={char}
+                          onClick={() => playChineseText(char)}
+                          className="px-2 py-1 rounded-full bg-sky-50 border border-sky-200 text-sm hover:bg-sky-100 transition-colors"
+                          title={word ? `${word.pinyin} – ${word.vi}` : undefined}
+                        >
+                          <span className="font-semibold text-gray-800">{char}</span>
+                          {word && <span className="ml-1 text-sky-600">{word.pinyin}</span>}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GrammarViewer;
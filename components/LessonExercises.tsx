@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import ExerciseSession from './ExerciseSession';
+import { EXERCISE_DATA, LESSONS } from '../content';
+import { generateQuiz } from '../quizGenerator';
+import { recordExerciseAttempt } from '../progress';
+import type { Exercise } from '../types';
+
+type ExerciseSource = 'authored' | 'generated';
+
+interface LessonExercisesProps {
+  lessonName: string;
+}
+
+const LessonExercises: React.FC<LessonExercisesProps> = ({ lessonName }) => {
+  const [source, setSource] = useState<ExerciseSource>(EXERCISE_DATA[lessonName]?.length ? 'authored' : 'generated');
+  const [fromLesson, setFromLesson] = useState(lessonName);
+  const [toLesson, setToLesson] = useState(lessonName);
+  const [quiz, setQuiz] = useState<Exercise[] | null>(null);
+  const [quizNumber, setQuizNumber] = useState(0);
+
+  const handleGenerate = () => {
+    const from = LESSONS.findIndex(l => l.name === fromLesson);
+    const to = LESSONS.findIndex(l => l.name === toLesson);
+    const range = LESSONS.slice(Math.min(from, to), Math.max(from, to) + 1).map(l => l.name);
+    setQuiz(generateQuiz(range));
+    setQuizNumber(n => n + 1);
+  };
+
+  const lessonSelect = (value: string, onChange: (name: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1 border-2 border-gray-300 rounded-lg bg-white text-gray-700 focus:outline-none focus:border-orange-500"
+      aria-label={label}
+    >
+      {LESSONS.map(l => <option key={l.id} value={l.name}>{l.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-col items-center gap-3 flex-shrink-0 pb-3 border-b border-gray-100">
+        <div className="flex bg-gray-100 rounded-full p-1 text-sm font-semibold">
+          {(['authored', 'generated'] as ExerciseSource[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setSource(s)}
+              className={`px-4 py-1 rounded-full transition-colors ${source === s ? 'bg-white text-orange-600 shadow' : 'text-gray-500 hover:text-gray-700'}`}
+              aria-pressed={source === s}
+            >
+              {s === 'authored' ? 'Bài tập của bài' : 'Đề ngẫu nhiên'}
+            </button>
+          ))}
+        </div>
+        {source === 'generated' && (
+          <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-600">
+            <span>Từ</span>
+            {lessonSelect(fromLesson, setFromLesson, 'Từ bài')}
+            <span>đến</span>
+            {lessonSelect(toLesson, setToLesson, 'Đến bài')}
+            <button
+              onClick={handleGenerate}
+              className="px-4 py-1.5 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow transition-colors"
+            >
+              {quiz ? 'Tạo đề mới' : 'Tạo đề'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-grow min-h-0">
+        {source === 'authored' ? (
+          <ExerciseSession
+            key={`authored-${lessonName}`}
+            exercises={EXERCISE_DATA[lessonName] || []}
+            onComplete={(correct, total) => recordExerciseAttempt(lessonName, { source: 'authored', correct, total })}
+          />
+        ) : quiz ? (
+          <ExerciseSession
+            key={`generated-${quizNumber}`}
+            exercises={quiz}
+            onComplete={(correct, total) => recordExerciseAttempt(lessonName, { source: 'generated', correct, total })}
+          />
+        ) : (
+          <p className="text-center text-gray-400 mt-8">Chọn phạm vi bài học rồi bấm "Tạo đề".</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LessonExercises;
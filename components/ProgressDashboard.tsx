@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { formatDuration, summarizeProgress } from '../progress';
+
+const completionColor = (value: number) =>
+  value >= 80 ? 'bg-green-500' : value >= 40 ? 'bg-amber-400' : 'bg-orange-300';
+
+interface ProgressDashboardProps {
+  activeLessonName: string;
+  onSelectLesson: (lessonName: string) => void;
+  onClose: () => void;
+}
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ activeLessonName, onSelectLesson, onClose }) => {
+  // Read once per opening; the dashboard is closed while practicing.
+  const summary = useMemo(() => summarizeProgress(), []);
+
+  return (
+    <div className="fixed inset-0 bg-orange-50 z-40 flex flex-col animate-fade-in-fast" role="dialog" aria-modal="true">
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 p-3 flex justify-between items-center flex-shrink-0 shadow">
+        <h2 className="text-white font-bold text-lg">Tiến độ học tập</h2>
+        <button onClick={onClose} className="text-white hover:bg-white/20 rounded-full p-1 transition-colors" aria-label="Đóng">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-6 max-w-4xl w-full mx-auto">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="rounded-xl bg-white shadow p-4 text-center">
+            <p className="text-3xl font-bold text-orange-500">🔥 {summary.currentStreak}</p>
+            <p className="text-sm text-gray-500">ngày liên tiếp</p>
+          </div>
+          <div className="rounded-xl bg-white shadow p-4 text-center">
+            <p className="text-3xl font-bold text-sky-600">{summary.longestStreak}</p>
+            <p className="text-sm text-gray-500">chuỗi dài nhất</p>
+          </div>
+          <div className="rounded-xl bg-white shadow p-4 text-center">
+            <p className="text-2xl font-bold text-green-600">{formatDuration(summary.totalTimeMs)}</p>
+            <p className="text-sm text-gray-500">tổng thời gian</p>
+          </div>
+        </div>
+
+        <section className="rounded-xl bg-white shadow overflow-hidden">
+          <h3 className="px-4 py-2 font-bold text-orange-600 border-b border-orange-100">Theo bài học</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-gray-500 text-left">
+                <tr>
+                  <th className="px-4 py-2">Bài</th>
+                  <th className="px-2 py-2 w-40">Hoàn thành</th>
+                  <th className="px-2 py-2">Gõ chữ (cao nhất / gần nhất)</th>
+                  <th className="px-2 py-2">Bài tập</th>
+                  <th className="px-2 py-2">Từ đã thuộc</th>
+                  <th className="px-2 py-2">AI</th>
+                  <th className="px-2 py-2">Thời gian</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.lessons.map(lesson => (
+                  <tr
+                    key={lesson.lessonName}
+                    onClick={() => onSelectLesson(lesson.lessonName)}
+                    className={`border-t border-gray-100 cursor-pointer hover:bg-orange-50 ${lesson.lessonName === activeLessonName ? 'bg-orange-50/60' : ''}`}
+                  >
+                    <td className="px-4 py-2 font-semibold text-gray-700 whitespace-nowrap">{lesson.lessonName}</td>
+                    <td className="px-2 py-2">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-grow h-2 rounded-full bg-gray-200 overflow-hidden">
+                          <div className={`h-full ${completionColor(lesson.completion)}`} style={{ width: `${lesson.completion}%` }} />
+                        </div>
+                        <span className="text-xs text-gray-500 w-8 text-right">{lesson.completion}%</span>
+                      </div>
+                    </td>
+                    <td className="px-2 py-2 text-gray-600">
+                      {lesson.bestTypingPercent === null ? '—' : `${lesson.bestTypingPercent}% / ${lesson.lastTypingPercent}%`}
+                    </td>
+                    <td className="px-2 py-2 text-gray-600">
+                      {lesson.exercisesCompleted === 0 ? '—' : `${lesson.exercisesCompleted} lần · ${lesson.bestExercisePercent}%`}
+                    </td>
+                    <td className="px-2 py-2 text-gray-600">{lesson.wordsMastered}/{lesson.wordsTotal}</td>
+                    <td className="px-2 py-2 text-gray-600">{lesson.aiSessions || '—'}</td>
+                    <td className="px-2 py-2 text-gray-600 whitespace-nowrap">{lesson.timeSpentMs ? formatDuration(lesson.timeSpentMs) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <section className="rounded-xl bg-white shadow overflow-hidden">
+          <h3 className="px-4 py-2 font-bold text-orange-600 border-b border-orange-100">Từ hay sai nhất</h3>
+          {summary.weakestWords.length === 0 ? (
+            <p className="px-4 py-6 text-center text-gray-400">Chưa có dữ liệu. Hãy luyện gõ hoặc ôn tập từ vựng.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {summary.weakestWords.map(({ word, wrong, lapses }) => (
+                <li key={word.key} className="px-4 py-2 grid grid-cols-4 gap-2 items-center text-sm">
+                  <span className="text-lg font-semibold text-gray-800">{word.char}</span>
+                  <span className="text-sky-600">{word.pinyin}</span>
+                  <span className="text-gray-600">{word.vi}</span>
+                  <span className="text-right text-red-500">
+                    {wrong > 0 && `Gõ sai ${wrong}`}{wrong > 0 && lapses > 0 && ' · '}{lapses > 0 && `Quên ${lapses}`}
+                    <span className="block text-xs text-gray-400">{word.lessonName}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,215 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { createWavBlob, playChineseText } from '../audio';
+import { scorePronunciation, transcribePronunciation } from '../pronunciation';
+import type { PronunciationResult, SyllableScore } from '../pronunciation';
+import type { VocabularyWord } from '../types';
+
+const MAX_RECORDING_MS = 5000;
+
+const syllableClassName = (s: SyllableScore) => {
+  if (!s.expected || !s.heard) return 'bg-red-100 text-red-700 border-red-300';
+  if (s.score === 100) return 'bg-green-100 text-green-700 border-green-300';
+  if (s.initialCorrect && s.finalCorrect) return 'bg-amber-100 text-amber-700 border-amber-300';
+  return 'bg-red-100 text-red-700 border-red-300';
+};
+
+interface PronunciationPracticeProps {
+  words: VocabularyWord[];
+  apiKey: string;
+}
+
+const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({ words, apiKey }) => {
+  const [index, setIndex] = useState(0);
+  const [recState, setRecState] = useState<'idle' | 'recording' | 'scoring' | 'error'>('idle');
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const chunksRef = useRef<Float32Array[]>([]);
+  const stopTimeoutRef = useRef<number | null>(null);
+  // Bumped whenever the word changes, so a transcription that comes back
+  // after the learner has moved on is dropped instead of scoring the new word.
+  const requestRef = useRef(0);
+
+  const word = words[index];
+
+  const releaseMic = useCallback(() => {
+    if (stopTimeoutRef.current) {
+      clearTimeout(stopTimeoutRef.current);
+      stopTimeoutRef.current = null;
+    }
+    scriptProcessorRef.current?.disconnect();
+    scriptProcessorRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(console.error);
+    audioContextRef.current = null;
+  }, []);
+
+  useEffect(() => releaseMic, [releaseMic]);
+
+  useEffect(() => {
+    requestRef.current++;
+    setIndex(0);
+    setResult(null);
+  }, [words]);
+
+  const stopRecording = async () => {
+    releaseMic();
+    if (!word) return;
+    const chunks = chunksRef.current;
+    chunksRef.current = [];
+    const samples = new Float32Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    });
+
+    setRecState('scoring');
+    const request = ++requestRef.current;
+    try {
+      const heard = await transcribePronunciation(apiKey || process.env.API_KEY!, createWavBlob(samples), word);
+      if (request !== requestRef.current) return;
+      setResult(scorePronunciation(word.pinyin, heard));
+      setRecState('idle');
+    } catch (e: any) {
+      console.error(e);
+      if (request !== requestRef.current) return;
+      setError('Không chấm được phát âm. Vui lòng kiểm tra API Key và thử lại.');
+      setRecState('error');
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    setResult(null);
+    if (!apiKey && !process.env.API_KEY) {
+      setError('Chưa cấu hình API Key.');
+      setRecState('error');
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      audioContextRef.current = audioContext;
+      const source = audioContext.createMediaStreamSource(stream);
+      const scriptProcessor = audioContext.createScriptProcessor(4096, 1, 1);
+      scriptProcessorRef.current = scriptProcessor;
+      chunksRef.current = [];
+      scriptProcessor.onaudioprocess = (e) => {
+        chunksRef.current.push(new Float32Array(e.inputBuffer.getChannelData(0)));
+      };
+      source.connect(scriptProcessor);
+      scriptProcessor.connect(audioContext.destination);
+      setRecState('recording');
+      stopTimeoutRef.current = window.setTimeout(stopRecording, MAX_RECORDING_MS);
+    } catch (e: any) {
+      console.error(e);
+      releaseMic();
+      setError('Không thể truy cập micro.');
+      setRecState('error');
+    }
+  };
+
+  const goTo = (next: number) => {
+    if (recState === 'recording') releaseMic();
+    requestRef.current++;
+    setIndex((next + words.length) % words.length);
+    setResult(null);
+    setError(null);
+    setRecState('idle');
+  };
+
+  if (!word) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có từ vựng.</p>;
+  }
+
+  return (
+    <div className="flex flex-col h-full items-center p-4 space-y-6 overflow-y-auto custom-scrollbar">
+      <div className="flex items-center gap-4 text-gray-500">
+        <button onClick={() => goTo(index - 1)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Từ trước">‹</button>
+        <span className="text-sm font-semibold">{index + 1}/{words.length}</span>
+        <button onClick={() => goTo(index + 1)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Từ sau">›</button>
+      </div>
+
+      <div className="text-center space-y-1">
+        <p className="text-5xl font-bold text-gray-800">{word.char}</p>
+        <p className="text-2xl text-sky-600">{word.pinyin}</p>
+        <p className="text-gray-600">{word.vi}</p>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => playChineseText(word.char)}
+          className="px-4 py-2 bg-white border-2 border-orange-400 text-orange-600 font-semibold rounded-full hover:bg-orange-50 transition-colors"
+        >
+          🔊 Nghe mẫu
+        </button>
+        {recState === 'recording' ? (
+          <button
+            onClick={stopRecording}
+            className="px-6 py-2 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-full shadow animate-pulse"
+          >
+            ⏹ Dừng
+          </button>
+        ) : (
+          <button
+            onClick={startRecording}
+            disabled={recState === 'scoring'}
+            className="px-6 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-semibold rounded-full shadow transition-colors"
+          >
+            🎙️ {recState === 'scoring' ? 'Đang chấm...' : 'Ghi âm'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-500 font-medium">{error}</p>}
+
+      {result && (
+        <div className="w-full max-w-md space-y-4 animate-fade-in-down">
+          <p className="text-center text-lg font-bold text-gray-700">
+            Điểm: <span className={result.score >= 80 ? 'text-green-600' : result.score >= 50 ? 'text-amber-600' : 'text-red-600'}>{result.score}</span>/100
+          </p>
+          {result.heard ? (
+            <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center">
+              <span className="text-sm text-gray-500">Chuẩn</span>
+              <div className="flex flex-wrap gap-1">
+                {result.syllables.map((s, i) => (
+                  <span key={i} className={`min-w-[3rem] text-center px-2 py-1 rounded border ${syllableClassName(s)}`}>
+                    {s.expected?.text || '—'}
+                  </span>
+                ))}
+              </div>
+              <span className="text-sm text-gray-500">Bạn đọc</span>
+              <div className="flex flex-wrap gap-1">
+                {result.syllables.map((s, i) => (
+                  <span key={i} className={`min-w-[3rem] text-center px-2 py-1 rounded border ${syllableClassName(s)}`}>
+                    {s.heard?.text || '—'}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-center text-gray-500">Không nghe rõ, bạn thử đọc lại nhé.</p>
+          )}
+          <ul className="text-sm text-gray-600 space-y-1">
+            {result.syllables.filter(s => s.score < 100).map((s, i) => (
+              <li key={i}>
+                {!s.heard ? `Thiếu âm tiết "${s.expected?.text}".`
+                  : !s.expected ? `Thừa âm tiết "${s.heard.text}".`
+                  : !s.initialCorrect || !s.finalCorrect ? `"${s.expected.text}" bị đọc thành "${s.heard.text}".`
+                  : `Sai thanh điệu: "${s.expected.text}" (thanh ${s.expected.tone === 5 ? 'nhẹ' : s.expected.tone}) bị đọc thành "${s.heard.text}" (thanh ${s.heard.tone === 5 ? 'nhẹ' : s.heard.tone}).`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationPractice;
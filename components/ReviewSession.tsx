@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { applyReview, buildReviewQueue, loadSrsState, saveSrsState } from '../srs';
+import { playChineseText } from '../audio';
+import type { ReviewGrade, SrsState } from '../types';
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Quên', className: 'bg-red-500 hover:bg-red-600' },
+  { grade: 'hard', label: 'Khó', className: 'bg-amber-500 hover:bg-amber-600' },
+  { grade: 'good', label: 'Nhớ', className: 'bg-green-500 hover:bg-green-600' },
+  { grade: 'easy', label: 'Dễ', className: 'bg-sky-500 hover:bg-sky-600' },
+];
+
+interface ReviewSessionProps {
+  lessonName: string;
+}
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ lessonName }) => {
+  const [srsState, setSrsState] = useState<SrsState>(loadSrsState);
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  useEffect(() => {
+    saveSrsState(srsState);
+  }, [srsState]);
+
+  const queue = useMemo(() => buildReviewQueue(srsState, lessonName), [srsState, lessonName]);
+  const current = queue.due[0] || queue.fresh[0];
+  const isNewWord = !queue.due[0] && !!current;
+
+  const handleReveal = () => {
+    if (!current) return;
+    setIsRevealed(true);
+    playChineseText(current.char);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    setSrsState(prev => applyReview(prev, current.key, grade));
+    setIsRevealed(false);
+  };
+
+  return (
+    <div className="flex flex-col h-full items-center p-4 space-y-6">
+      <div className="flex gap-4 text-sm font-semibold">
+        <span className="px-3 py-1 rounded-full bg-orange-100 text-orange-600">Cần ôn: {queue.due.length}</span>
+        <span className="px-3 py-1 rounded-full bg-sky-100 text-sky-600">Từ mới: {queue.fresh.length}</span>
+      </div>
+
+      {!current ? (
+        <div className="flex flex-col items-center justify-center flex-grow text-gray-400">
+          <p className="text-5xl mb-4">🎉</p>
+          <p className="text-lg font-medium">Bạn đã ôn xong hôm nay!</p>
+          <p className="text-sm">Hãy quay lại vào ngày mai.</p>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center flex-grow w-full max-w-md space-y-6">
+          <div className="w-full rounded-2xl border-2 border-orange-300 bg-white shadow p-6 text-center space-y-3">
+            <p className="text-xs text-gray-400">{current.lessonName}{isNewWord ? ' · Từ mới' : ''}</p>
+            <p className="text-5xl font-bold text-gray-800">{current.char}</p>
+            {isRevealed && (
+              <div className="space-y-1 animate-fade-in-down">
+                <p
+                  className="text-2xl text-sky-600 cursor-pointer"
+                  onClick={() => playChineseText(current.char)}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={`Phát âm ${current.char}`}
+                >
+                  {current.pinyin}
+                </p>
+                <p className="text-lg text-gray-700">{current.vi}</p>
+              </div>
+            )}
+          </div>
+
+          {isRevealed ? (
+            <div className="grid grid-cols-4 gap-2 w-full">
+              {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`py-2 rounded-lg text-white font-semibold shadow transition-colors ${className}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={handleReveal}
+              className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+            >
+              Hiện đáp án
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
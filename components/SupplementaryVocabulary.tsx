@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import VocabularyRow from './VocabularyRow';
+import { lookupWord } from '../dictionary';
+import type { SupplementaryWord, VocabularyWord } from '../types';
+
+const RELATION_LABELS: Record<NonNullable<SupplementaryWord['related']>['kind'], { label: string; className: string }> = {
+  synonym: { label: 'Gần nghĩa', className: 'bg-sky-50 border-sky-200 text-sky-700' },
+  lookalike: { label: 'Dễ nhầm chữ', className: 'bg-amber-50 border-amber-200 text-amber-700' },
+};
+
+interface SupplementaryVocabularyProps {
+  words: SupplementaryWord[];
+  // The lesson's 'Từ mới' list, to tell related words of this lesson from earlier ones.
+  coreWords: VocabularyWord[];
+  onCharClick: (char: string) => void;
+}
+
+const SupplementaryVocabulary: React.FC<SupplementaryVocabularyProps> = ({ words, coreWords, onCharClick }) => {
+  const groups = useMemo(() => {
+    const byTheme = new Map<string, SupplementaryWord[]>();
+    words.forEach(word => byTheme.set(word.theme, [...(byTheme.get(word.theme) || []), word]));
+    return Array.from(byTheme.entries());
+  }, [words]);
+
+  const coreByChar = useMemo(() => new Map(coreWords.map(w => [w.char.trim(), w])), [coreWords]);
+
+  if (words.length === 0) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có từ vựng bổ sung.</p>;
+  }
+
+  return (
+    <div className="w-full text-left flex flex-col h-full">
+      <div className="grid grid-cols-3 gap-x-4 px-4 py-2 font-bold text-orange-500 border-b-2 border-orange-300 flex-shrink-0">
+        <span>Chữ Hán</span>
+        <span>Pinyin</span>
+        <span>Nghĩa</span>
+      </div>
+      <div className="flex-grow overflow-y-auto custom-scrollbar pr-2">
+        {groups.map(([theme, themeWords]) => (
+          <section key={theme}>
+            <h3 className="sticky top-0 z-10 px-4 py-1.5 mt-2 bg-orange-100 text-orange-700 font-semibold text-sm rounded-md">{theme}</h3>
+            {themeWords.map(word => {
+              const related = word.related;
+              const relatedWord = related && (coreByChar.get(related.char) || lookupWord(related.char));
+              const relation = related && RELATION_LABELS[related.kind];
+              return (
+                <VocabularyRow key={word.id} word={word} onCharClick={onCharClick}>
+                  {related && relation && (
+                    <span className={`block mt-1 px-2 py-1 rounded border text-xs ${relation.className}`}>
+                      <span className="font-semibold">{relation.label}: {related.char}</span>
+                      {relatedWord && <span> ({relatedWord.pinyin}{coreByChar.has(related.char) ? '' : ', bài trước'})</span>}
+                      <span className="block">{related.note}</span>
+                    </span>
+                  )}
+                </VocabularyRow>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SupplementaryVocabulary;
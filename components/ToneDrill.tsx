@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { playChineseText } from '../audio';
+import { splitSyllables } from '../pinyin';
+import type { Tone } from '../pinyin';
+import type { VocabularyWord } from '../types';
+
+interface ToneQuestion {
+  word: VocabularyWord;
+  tones: Tone[];
+  options: Tone[][];
+}
+
+const TONE_LABELS: Record<Tone, string> = { 1: '1', 2: '2', 3: '3', 4: '4', 5: 'nhẹ' };
+const TONE_CONTOURS: Record<Tone, string> = { 1: 'ˉ', 2: 'ˊ', 3: 'ˇ', 4: 'ˋ', 5: '·' };
+
+const sequenceKey = (tones: Tone[]) => tones.join('-');
+
+const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5);
+
+// Third-tone sandhi is not written in the data, so 3-3 is heard as 2-3. That
+// variant must never be offered as a wrong answer.
+const withSandhi = (tones: Tone[]): Tone[] =>
+  tones.map((tone, i) => (tone === 3 && tones[i + 1] === 3 ? 2 : tone));
+
+const buildOptions = (tones: Tone[]): Tone[][] => {
+  const excluded = new Set([sequenceKey(tones), sequenceKey(withSandhi(tones))]);
+  const candidates = new Map<string, Tone[]>();
+  tones.forEach((tone, position) => {
+    if (tone === 5 && tones.length > 1) return;
+    ([1, 2, 3, 4] as Tone[]).forEach(other => {
+      if (other === tone) return;
+      const variant = tones.map((t, i) => (i === position ? other : t));
+      if (!excluded.has(sequenceKey(variant))) candidates.set(sequenceKey(variant), variant);
+    });
+  });
+  return shuffle([tones, ...shuffle(Array.from(candidates.values())).slice(0, 3)]);
+};
+
+const buildQuestions = (words: VocabularyWord[]): ToneQuestion[] =>
+  shuffle(words)
+    .map(word => ({ word, tones: splitSyllables(word.pinyin).map(s => s.tone) }))
+    .filter(q => q.tones.length > 0)
+    .map(q => ({ ...q, options: buildOptions(q.tones) }));
+
+interface ToneDrillProps {
+  words: VocabularyWord[];
+}
+
+const ToneDrill: React.FC<ToneDrillProps> = ({ words }) => {
+  const [questions, setQuestions] = useState<ToneQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [picked, setPicked] = useState<Tone[] | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const restart = useCallback(() => {
+    setQuestions(buildQuestions(words));
+    setIndex(0);
+    setPicked(null);
+    setCorrectCount(0);
+  }, [words]);
+
+  useEffect(() => {
+    restart();
+  }, [restart]);
+
+  const question = questions[index];
+
+  useEffect(() => {
+    if (question) playChineseText(question.word.char);
+  }, [question]);
+
+  const hasSandhi = useMemo(
+    () => !!question && sequenceKey(withSandhi(question.tones)) !== sequenceKey(question.tones),
+    [question],
+  );
+
+  const handlePick = (option: Tone[]) => {
+    if (!question || picked) return;
+    setPicked(option);
+    if (sequenceKey(option) === sequenceKey(question.tones)) setCorrectCount(c => c + 1);
+  };
+
+  if (questions.length === 0) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có từ vựng.</p>;
+  }
+
+  if (!question) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full space-y-4">
+        <p className="text-2xl font-bold text-gray-700">Kết quả: {correctCount}/{questions.length}</p>
+        <button
+          onClick={restart}
+          className="px-4 py-1.5 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow transition-transform transform hover:scale-105"
+        >
+          Làm lại
+        </button>
+      </div>
+    );
+  }
+
+  const isCorrect = picked && sequenceKey(picked) === sequenceKey(question.tones);
+
+  return (
+    <div className="flex flex-col h-full items-center p-4 space-y-6 overflow-y-auto custom-scrollbar">
+      <div className="flex gap-4 text-sm font-semibold text-gray-500">
+        <span>Câu {index + 1}/{questions.length}</span>
+        <span className="text-green-600">Đúng: {correctCount}</span>
+      </div>
+
+      <button
+        onClick={() => playChineseText(question.word.char)}
+        className="w-28 h-28 rounded-full border-4 border-orange-300 bg-orange-50 text-5xl hover:bg-orange-100 transition-colors"
+        aria-label="Nghe lại"
+      >
+        🔊
+      </button>
+
+      <p className="text-gray-600">Bạn nghe thấy những thanh điệu nào?</p>
+
+      <div className="grid grid-cols-2 gap-3 w-full max-w-sm">
+        {question.options.map(option => {
+          const key = sequenceKey(option);
+          const isAnswer = key === sequenceKey(question.tones);
+          const isPicked = picked && key === sequenceKey(picked);
+          return (
+            <button
+              key={key}
+              onClick={() => handlePick(option)}
+              disabled={!!picked}
+              className={`
+                py-3 rounded-lg border-2 font-bold text-lg transition-colors
+                ${!picked ? 'border-gray-300 bg-white hover:border-orange-400 hover:bg-orange-50 text-gray-700'
+                  : isAnswer ? 'border-green-500 bg-green-50 text-green-700'
+                  : isPicked ? 'border-red-500 bg-red-50 text-red-700'
+                  : 'border-gray-200 bg-white text-gray-400'}
+              `}
+            >
+              {option.map(t => TONE_LABELS[t]).join(' – ')}
+              <span className="block text-sm font-normal">{option.map(t => TONE_CONTOURS[t]).join(' ')}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {picked && (
+        <div className="text-center space-y-1 animate-fade-in-down">
+          <p className={`font-bold ${isCorrect ? 'text-green-600' : 'text-red-600'}`}>{isCorrect ? 'Chính xác!' : 'Chưa đúng.'}</p>
+          <p className="text-4xl font-bold text-gray-800">{question.word.char}</p>
+          <p className="text-xl text-sky-600">{question.word.pinyin}</p>
+          <p className="text-gray-600">{question.word.vi}</p>
+          {hasSandhi && (
+            <p className="text-xs text-gray-500">Lưu ý: hai thanh 3 đứng liền nhau thì thanh 3 đầu đọc gần như thanh 2.</p>
+          )}
+          <button
+            onClick={() => { setIndex(i => i + 1); setPicked(null); }}
+            className="mt-3 px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+          >
+            Tiếp theo
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToneDrill;
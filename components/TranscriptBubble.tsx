@@ -0,0 +1,38 @@
+import React from 'react';
+import { annotateWithPinyin, isHanzi } from '../dictionary';
+
+interface TranscriptBubbleProps {
+  speaker: 'user' | 'ai';
+  text: string;
+  isLive?: boolean;
+}
+
+const TranscriptBubble: React.FC<TranscriptBubbleProps> = ({ speaker, text, isLive }) => {
+  const hasHanzi = text.split('').some(isHanzi);
+  return (
+    <div className={`flex ${speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`
+        max-w-[85%] px-3 py-2 rounded-2xl text-left shadow-sm
+        ${speaker === 'user' ? 'bg-sky-500 text-white rounded-br-sm' : 'bg-gray-100 text-gray-800 rounded-bl-sm'}
+        ${isLive ? 'opacity-80 animate-pulse-live' : ''}
+      `}>
+        {hasHanzi ? (
+          <p className="leading-loose">
+            {annotateWithPinyin(text).map((segment, index) => segment.pinyin ? (
+              <ruby key={index} className="text-lg mx-0.5">
+                {segment.text}
+                <rt className={`text-[0.65rem] ${speaker === 'user' ? 'text-sky-100' : 'text-sky-600'}`}>{segment.pinyin}</rt>
+              </ruby>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ))}
+          </p>
+        ) : (
+          <p>{text}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptBubble;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { playChineseText } from '../audio';
+import { isHanzi } from '../dictionary';
+import type { VocabularyWord } from '../types';
+
+interface VocabularyRowProps {
+  word: VocabularyWord;
+  onCharClick: (char: string) => void;
+  // Shown under the meaning, e.g. a note about a related word.
+  children?: React.ReactNode;
+}
+
+const VocabularyRow: React.FC<VocabularyRowProps> = ({ word, onCharClick, children }) => (
+  <div
+    onClick={() => playChineseText(word.char)}
+    className="grid grid-cols-3 gap-x-4 items-center px-4 py-3 border-b border-gray-200 hover:bg-orange-50 transition-colors duration-200 rounded-md cursor-pointer"
+    role="button"
+    tabIndex={0}
+    aria-label={`Phát âm và xem chi tiết từ ${word.char}`}
+  >
+    <div className="flex flex-wrap">
+      {word.char.split('').map((char, index) => {
+        const canAnimate = isHanzi(char);
+        return (
+          <span
+            key={index}
+            onClick={(e) => {
+              if (canAnimate) {
+                e.stopPropagation();
+                onCharClick(char);
+              }
+            }}
+            className={`font-semibold text-lg text-gray-800 ${canAnimate ? 'cursor-pointer hover:text-orange-500 transition-colors' : 'cursor-default'}`}
+            role={canAnimate ? "button" : undefined}
+            tabIndex={canAnimate ? 0 : -1}
+            aria-label={canAnimate ? `Tập viết chữ ${char}` : undefined}
+          >
+            {char}
+          </span>
+        );
+      })}
+    </div>
+    <span className="text-gray-500">{word.pinyin}</span>
+    <div>
+      <span className="text-gray-700">{word.vi}</span>
+      {children}
+    </div>
+  </div>
+);
+
+export default VocabularyRow;
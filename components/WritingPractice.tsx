@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type HanziWriter from 'hanzi-writer';
+import { playChineseText } from '../audio';
+import { isHanzi } from '../dictionary';
+import { createHanziWriter, formatSeconds, startWritingQuiz } from '../handwriting';
+import type { WritingQuizResult as QuizResult } from '../handwriting';
+import { getWritingStats, orderByWritingWeakness, recordWritingAttempt, writingAccuracy } from '../progress';
+import type { CharacterWritingStats } from '../progress';
+import type { VocabularyWord } from '../types';
+import WritingQuizResult from './WritingQuizResult';
+
+const WRITER_SIZE = 260;
+
+const lessonCharacters = (words: VocabularyWord[]): string[] =>
+  Array.from(new Set(words.flatMap(word => Array.from(word.char).filter(isHanzi))));
+
+interface WritingPracticeProps {
+  words: VocabularyWord[];
+}
+
+// Goes through every character of the lesson's words, weakest first, with a
+// stroke-order quiz for each.
+const WritingPractice: React.FC<WritingPracticeProps> = ({ words }) => {
+  // Rendered with a key per lesson, so the words are fixed for its lifetime.
+  const [chars] = useState(() => lessonCharacters(words));
+  const [queue, setQueue] = useState<CharacterWritingStats[]>(() => orderByWritingWeakness(chars));
+  const [index, setIndex] = useState(0);
+  const [results, setResults] = useState<Record<string, QuizResult>>({});
+  const [hasStrokeData, setHasStrokeData] = useState(true);
+  const writerRef = useRef<HanziWriter | null>(null);
+  const targetRef = useRef<HTMLDivElement>(null);
+
+  const restart = () => {
+    setQueue(orderByWritingWeakness(chars));
+    setIndex(0);
+    setResults({});
+  };
+
+  const current = queue[index];
+  const char = current?.char;
+  const result = char ? results[char] : undefined;
+  const word = useMemo(() => (char ? words.find(w => w.char.includes(char)) : undefined), [char, words]);
+
+  const startQuiz = useCallback((writer: HanziWriter, quizChar: string) => {
+    startWritingQuiz(writer, quizChar, quizResult => {
+      if (writerRef.current !== writer) return;
+      recordWritingAttempt(quizResult.char, quizResult.attempt);
+      setResults(r => ({ ...r, [quizResult.char]: quizResult }));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!char || !targetRef.current) return;
+    targetRef.current.innerHTML = '';
+    setHasStrokeData(true);
+    const writer = createHanziWriter(targetRef.current, char, WRITER_SIZE, () => {
+      if (writerRef.current === writer) setHasStrokeData(false);
+    });
+    writerRef.current = writer;
+    startQuiz(writer, char);
+    return () => {
+      if (writerRef.current === writer) writerRef.current = null;
+    };
+  }, [char, startQuiz]);
+
+  // Shows the stroke order, then lets the learner try again.
+  const handleShowStrokes = () => {
+    const writer = writerRef.current;
+    if (!writer || !char) return;
+    writer.animateCharacter({ onComplete: () => startQuiz(writer, char) });
+  };
+
+  const handleRetry = () => {
+    const writer = writerRef.current;
+    if (!writer || !char) return;
+    setResults(r => {
+      const { [char]: _, ...rest } = r;
+      return rest;
+    });
+    startQuiz(writer, char);
+  };
+
+  if (chars.length === 0) {
+    return <p className="text-center text-gray-400 mt-8">Bài này chưa có từ vựng.</p>;
+  }
+
+  if (queue.length > 0 && !current) {
+    const rows = queue
+      .map(stats => ({ stats, result: results[stats.char] }))
+      .sort((a, b) => (a.result ? writingAccuracy(a.result.attempt) : 101) - (b.result ? writingAccuracy(b.result.attempt) : 101));
+    return (
+      <div className="flex flex-col h-full items-center p-4 space-y-4 overflow-y-auto custom-scrollbar">
+        <p className="text-2xl font-bold text-gray-700">Kết quả viết chữ</p>
+        <table className="w-full max-w-md text-sm">
+          <thead>
+            <tr className="text-left text-orange-500 border-b-2 border-orange-300">
+              <th className="py-1 px-2">Chữ</th>
+              <th className="py-1 px-2">Độ chính xác</th>
+              <th className="py-1 px-2">Lỗi</th>
+              <th className="py-1 px-2">Gợi ý</th>
+              <th className="py-1 px-2">Thời gian</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ stats, result: row }) => {
+              const recent = getWritingStats(stats.char).recentAccuracy;
+              return (
+                <tr key={stats.char} className="border-b border-gray-100">
+                  <td className="py-1 px-2 text-2xl">{stats.char}</td>
+                  <td className="py-1 px-2">
+                    {row ? `${writingAccuracy(row.attempt)}%` : <span className="text-gray-400">Bỏ qua</span>}
+                    {recent !== null && <span className="block text-xs text-gray-400">gần đây {recent}%</span>}
+                  </td>
+                  <td className="py-1 px-2">{row ? row.attempt.mistakes : '–'}</td>
+                  <td className="py-1 px-2">{row ? row.attempt.hints : '–'}</td>
+                  <td className="py-1 px-2">{row ? formatSeconds(row.attempt.durationMs) : '–'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <button
+          onClick={restart}
+          className="px-4 py-1.5 bg-sky-600 hover:bg-sky-700 text-white font-semibold rounded-lg shadow transition-transform transform hover:scale-105"
+        >
+          Luyện lại (chữ yếu trước)
+        </button>
+      </div>
+    );
+  }
+
+  if (!current) return null;
+
+  return (
+    <div className="flex flex-col h-full items-center p-4 space-y-4 overflow-y-auto custom-scrollbar">
+      <div className="flex gap-4 text-sm font-semibold text-gray-500">
+        <span>Chữ {index + 1}/{queue.length}</span>
+        <span>{current.recentAccuracy === null ? 'Chưa luyện' : `Gần đây: ${current.recentAccuracy}%`}</span>
+      </div>
+
+      {word && (
+        <button onClick={() => playChineseText(word.char)} className="text-center hover:bg-orange-100 rounded-lg px-3 py-1 transition-colors">
+          <span className="text-2xl font-semibold">
+            {Array.from(word.char).map((c, i) => (
+              <span key={i} className={c === char ? 'text-orange-500' : 'text-gray-800'}>{c}</span>
+            ))}
+          </span>
+          <span className="block text-sky-600">{word.pinyin}</span>
+          <span className="block text-sm text-gray-500">{word.vi}</span>
+        </button>
+      )}
+
+      <div ref={targetRef} className={hasStrokeData ? 'bg-white rounded-lg border-2 border-orange-200' : 'hidden'}></div>
+      {!hasStrokeData && (
+        <p className="max-w-xs text-center text-sm text-gray-500">
+          Chưa có dữ liệu nét viết cho chữ <span className="text-lg text-gray-800">{char}</span>. Khi có mạng, ứng dụng sẽ tải và lưu lại.
+        </p>
+      )}
+
+      {result && <WritingQuizResult result={result} stats={getWritingStats(result.char)} />}
+
+      <div className="flex gap-3">
+        {hasStrokeData && !result && (
+          <button onClick={handleShowStrokes} className="px-4 py-2 border-2 border-orange-400 text-orange-600 font-semibold rounded-lg hover:bg-orange-50 transition-colors">
+            Xem thứ tự nét
+          </button>
+        )}
+        {result && (
+          <button onClick={handleRetry} className="px-4 py-2 border-2 border-sky-500 text-sky-600 font-semibold rounded-lg hover:bg-sky-50 transition-colors">
+            Viết lại
+          </button>
+        )}
+        <button
+          onClick={() => setIndex(i => i + 1)}
+          className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+        >
+          {result ? 'Chữ tiếp theo' : 'Bỏ qua'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WritingPractice;
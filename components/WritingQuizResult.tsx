@@ -0,0 +1,48 @@
+import React from 'react';
+import { formatSeconds } from '../handwriting';
+import type { WritingQuizResult as QuizResult } from '../handwriting';
+import { writingAccuracy } from '../progress';
+import type { CharacterWritingStats } from '../progress';
+
+interface WritingQuizResultProps {
+  result: QuizResult;
+  // Includes this quiz, which is recorded before the result is shown.
+  stats?: CharacterWritingStats;
+}
+
+const strokeClass = (mistakes: number, hinted: boolean) =>
+  hinted ? 'bg-red-100 text-red-700 border-red-300'
+    : mistakes > 0 ? 'bg-amber-100 text-amber-700 border-amber-300'
+    : 'bg-green-100 text-green-700 border-green-300';
+
+const WritingQuizResult: React.FC<WritingQuizResultProps> = ({ result, stats }) => {
+  const { attempt } = result;
+  const accuracy = writingAccuracy(attempt);
+
+  return (
+    <div className="w-full max-w-sm text-center space-y-2 animate-fade-in-down">
+      <p className={`text-3xl font-bold ${accuracy >= 80 ? 'text-green-600' : accuracy >= 50 ? 'text-amber-600' : 'text-red-600'}`}>
+        {accuracy}%
+      </p>
+      <p className="text-sm text-gray-600">
+        Đúng ngay {attempt.cleanStrokes}/{attempt.strokes} nét · {attempt.mistakes} lỗi · {attempt.hints} gợi ý · {formatSeconds(attempt.durationMs)}
+      </p>
+      <div className="flex flex-wrap justify-center gap-1">
+        {result.strokes.map((stroke, i) => (
+          <span
+            key={i}
+            title={stroke.hinted ? 'Cần gợi ý' : stroke.mistakes > 0 ? `${stroke.mistakes} lỗi` : 'Đúng ngay'}
+            className={`w-7 h-7 flex items-center justify-center rounded border text-xs font-semibold ${strokeClass(stroke.mistakes, stroke.hinted)}`}
+          >
+            {i + 1}
+          </span>
+        ))}
+      </div>
+      {stats && stats.attempts > 1 && stats.recentAccuracy !== null && (
+        <p className="text-xs text-gray-400">Trung bình các lần gần đây: {stats.recentAccuracy}% ({stats.attempts} lần luyện)</p>
+      )}
+    </div>
+  );
+};
+
+export default WritingQuizResult;
@@ -1,2113 +1,590 @@
 
-import type { Lesson, VocabularyWord } from './types';
+import type { CharacterComponents } from './types';
 
-export const LESSONS: Lesson[] = [
-  { id: 1, name: 'Bài 16' },
-  { id: 2, name: 'Bài 17' },
-  { id: 3, name: 'Bài 18' },
-  { id: 4, name: 'Bài 19' },
-  { id: 5, name: 'Bài 20' },
-  { id: 6, name: 'Bài 21' },
-  { id: 7, name: 'Bài 22' },
-  { id: 8, name: 'Bài 23' },
-  { id: 9, name: 'Bài 24' },
-  { id: 10, name: 'Bài 25' },
-  { id: 11, name: 'Bài 26' },
-  { id: 12, name: 'Bài 27' },
-  { id: 13, name: 'Bài 28' },
-  { id: 14, name: 'Bài 29' },
-  { id: 15, name: 'Bài 30' },
-];
+// The course itself ships as a content pack: content/hsk1-bai-16-30.json.
 
 export const SUB_LESSONS: string[] = ['Từ mới', 'Gõ từ mới', 'Gõ bài khóa', 'Giao tiếp', 'AI giao tiếp'];
 
-type VocabularyData = Record<string, Record<string, VocabularyWord[]>>;
-
-export const VOCABULARY_DATA: VocabularyData = {
-  'Bài 16': {
-    'Từ mới': [
-      { id: 1, char: '你', pinyin: 'nǐ', vi: 'anh- chị- bạn' },
-      { id: 2, char: '好', pinyin: 'hǎo', vi: 'tốt' },
-      { id: 3, char: '您', pinyin: 'nín', vi: 'ông- bà- ngài' },
-      { id: 4, char: '你们', pinyin: 'nǐmen', vi: 'các anh- các chị' },
-      { id: 5, char: '老师', pinyin: 'lǎoshī', vi: 'thầy giáo- giáo viên' },
-      { id: 6, char: '谢谢', pinyin: 'xièxie', vi: 'cảm ơn' },
-      { id: 7, char: '不', pinyin: 'bù', vi: 'không' },
-      { id: 8, char: '客气', pinyin: 'kèqi', vi: 'khách sáo' },
-      { id: 9, char: '不客气', pinyin: 'búkèqi', vi: 'không khách sáo' },
-      { id: 10, char: '对不起', pinyin: 'duìbuqǐ', vi: 'xin lỗi' },
-      { id: 11, char: '没关系', pinyin: 'Méiguānxi', vi: 'không sao' },
-      { id: 12, char: '再见', pinyin: 'zàijiàn', vi: 'tạm biệt' },
-      { id: 13, char: '请', pinyin: 'qǐng', vi: 'mời' },
-      { id: 14, char: '进', pinyin: 'jìn', vi: 'vào' },
-      { id: 15, char: '坐', pinyin: 'zuò', vi: 'Ngồi' },
-      { id: 16, char: '听', pinyin: 'tīng', vi: 'nghe' },
-      { id: 17, char: '说', pinyin: 'shuō', vi: 'nói' },
-      { id: 18, char: '读', pinyin: 'dú', vi: 'đọc' },
-      { id: 19, char: '写', pinyin: 'xiě', vi: 'Viết' }
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '你们', pinyin: 'nǐmen', vi: 'các anh- các chị' },
-      { id: 2, char: '老师', pinyin: 'lǎoshī', vi: 'thầy giáo- giáo viên' },
-      { id: 3, char: '谢谢', pinyin: 'xièxie', vi: 'cảm ơn' },
-      { id: 4, char: '不', pinyin: 'bù', vi: 'không' },
-      { id: 5, char: '客气', pinyin: 'kèqi', vi: 'khách sáo' },
-      { id: 6, char: '不客气', pinyin: 'búkèqi', vi: 'không khách sáo' },
-      { id: 7, char: '对不起', pinyin: 'duìbuqǐ', vi: 'xin lỗi' },
-      { id: 8, char: '没关系', pinyin: 'Méiguānxi', vi: 'không sao' },
-      { id: 9, char: '再见', pinyin: 'zàijiàn', vi: 'tạm biệt' },
-      { id: 10, char: '请', pinyin: 'qǐng', vi: 'mời' },
-      { id: 11, char: '进', pinyin: 'jìn', vi: 'vào' },
-      { id: 12, char: '坐', pinyin: 'zuò', vi: 'Ngồi' },
-      { id: 13, char: '听', pinyin: 'tīng', vi: 'nghe' },
-      { id: 14, char: '说', pinyin: 'shuō', vi: 'nói' },
-      { id: 15, char: '读', pinyin: 'dú', vi: 'đọc' },
-      { id: 16, char: '写', pinyin: 'xiě', vi: 'Viết' }
-    ],
-    'Giao tiếp': [
-      { id: 1, char: '您好', pinyin: 'nín hǎo', vi: 'Chào ông/bà' },
-      { id: 2, char: '你们好', pinyin: 'nǐmen hǎo', vi: 'Chào các bạn' },
-      { id: 3, char: '老师好', pinyin: 'lǎoshī hǎo', vi: 'Chào thầy/cô' },
-      { id: 4, char: '谢谢', pinyin: 'xièxie', vi: 'Cảm ơn' },
-      { id: 5, char: '不客气', pinyin: 'bú kèqi', vi: 'Không có gì' },
-      { id: 6, char: '对不起', pinyin: 'duìbuqǐ', vi: 'Xin lỗi' },
-      { id: 7, char: '没关系', pinyin: 'méi guānxi', vi: 'Không sao' },
-      { id: 8, char: '再见', pinyin: 'zàijiàn', vi: 'Tạm biệt' },
-      { id: 9, char: '请进', pinyin: 'qǐng jìn', vi: 'Mời vào' },
-      { id: 10, char: '请坐', pinyin: 'qǐng zuò', vi: 'Mời ngồi' },
-      { id: 11, char: '请说', pinyin: 'qǐng shuō', vi: 'Mời nói' },
-      { id: 12, char: '请听', pinyin: 'qǐng tīng', vi: 'Mời nghe' },
-      { id: 13, char: '请读', pinyin: 'qǐng dú', vi: 'Mời đọc' },
-      { id: 14, char: '请写', pinyin: 'qǐng xiě', vi: 'Mời viết' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '你好', pinyin: 'nǐ hǎo', vi: 'Chào bạn' },
-      { id: 2, char: '您好', pinyin: 'nín hǎo', vi: 'Chào ông/bà' },
-      { id: 3, char: '您好', pinyin: 'nín hǎo', vi: 'Chào ông/bà' },
-      { id: 4, char: '你们好', pinyin: 'nǐmen hǎo', vi: 'Chào các bạn' },
-      { id: 5, char: '老师好', pinyin: 'lǎoshī hǎo', vi: 'Chào thầy/cô' },
-      { id: 6, char: '谢谢', pinyin: 'xièxie', vi: 'Cảm ơn' },
-      { id: 7, char: '不客气', pinyin: 'bú kèqi', vi: 'Không có gì' },
-      { id: 8, char: '对不起', pinyin: 'duìbuqǐ', vi: 'Xin lỗi' },
-      { id: 9, char: '没关系', pinyin: 'méi guānxi', vi: 'Không sao' },
-      { id: 10, char: '再见', pinyin: 'zàijiàn', vi: 'Tạm biệt' },
-      { id: 11, char: '再见', pinyin: 'zàijiàn', vi: 'Tạm biệt' },
-      { id: 12, char: '请进', pinyin: 'qǐng jìn', vi: 'Mời vào' },
-      { id: 13, char: '请坐', pinyin: 'qǐng zuò', vi: 'Mời ngồi' },
-      { id: 14, char: '请说', pinyin: 'qǐng shuō', vi: 'Mời nói' },
-      { id: 15, char: '请听', pinyin: 'qǐng tīng', vi: 'Mời nghe' },
-      { id: 16, char: '请读', pinyin: 'qǐng dú', vi: 'Mời đọc' },
-      { id: 17, char: '请写', pinyin: 'qǐng xiě', vi: 'Mời viết' }
-    ],
-  },
-  'Bài 17': {
-    'Từ mới': [
-      { id: 1, char: '吗', pinyin: 'ma', vi: 'Phải không' },
-      { id: 2, char: '我', pinyin: 'wǒ', vi: 'Tôi' },
-      { id: 3, char: '很', pinyin: 'hěn', vi: 'rất' },
-      { id: 4, char: '呢', pinyin: 'ne', vi: 'trợ từ ( dùng cuối câu hỏi )' },
-      { id: 5, char: '也', pinyin: 'yě', vi: 'cũng' },
-      { id: 6, char: '爸爸', pinyin: 'bàba', vi: 'bố' },
-      { id: 7, char: '妈妈', pinyin: 'māma', vi: 'mẹ' },
-      { id: 8, char: '都', pinyin: 'dōu', vi: 'đều' },
-      { id: 9, char: '他们', pinyin: 'tā men', vi: 'họ' },
-      { id: 10, char: '哥哥', pinyin: 'gēge', vi: 'anh trai' },
-      { id: 11, char: '他', pinyin: 'tā', vi: 'anh ấy' },
-      { id: 12, char: '姐姐', pinyin: 'Jiějie', vi: 'chị gái' },
-      { id: 13, char: '她', pinyin: 'tā', vi: 'cô ấy' },
-      { id: 14, char: '爱人', pinyin: 'àirén', vi: 'chồng hoặc vợ' },
-      { id: 15, char: '弟弟', pinyin: 'dìdi', vi: 'em trai' },
-      { id: 16, char: '妹妹', pinyin: 'mèimei', vi: 'em gái' },
-      { id: 17, char: '忙', pinyin: 'máng', vi: 'bận' },
-      { id: 18, char: '累', pinyin: 'lèi', vi: 'mệt' },
-      { id: 19, char: '饿', pinyin: 'è', vi: 'đói' },
-      { id: 20, char: '渴', pinyin: 'kě', vi: 'khát' },
-      { id: 21, char: '支', pinyin: 'Zhī', vi: 'Chiếc- cái' },
-      { id: 22, char: '圆珠笔', pinyin: 'Yuán zhū bǐ', vi: 'Bút bi' },
-      { id: 23, char: '红', pinyin: 'Hóng', vi: 'Đỏ-Màu đỏ' },
-      { id: 24, char: '还是', pinyin: 'hái shi', vi: 'Hay là' },
-      { id: 25, char: '蓝', pinyin: 'Lán', vi: 'Xanh-xanh lam' },
-      { id: 26, char: '一样', pinyin: 'yí yāng', vi: 'Giống nhau- như nhau- cùng loại' },
-      { id: 27, char: '别的', pinyin: 'béi de', vi: 'Khác- thứ khác- cái khác' },
-      { id: 28, char: '了', pinyin: 'Le', vi: 'Rồi' },
-      { id: 29, char: '卖', pinyin: 'Mài', vi: 'Bán' },
-      { id: 30, char: '再', pinyin: 'Zài', vi: 'nữa- lại-thêm' },
-      { id: 31, char: '听', pinyin: 'Tīng', vi: 'Lon (lượng từ lon bia)' },
-      { id: 32, char: '一共', pinyin: 'yí gòng', vi: 'Tổng cộng- cộng tất cả' },
-      { id: 33, char: '给', pinyin: 'Gěi', vi: 'Cho- gửi- trả' }
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '吗', pinyin: 'ma', vi: 'Phải không' },
-      { id: 2, char: '我', pinyin: 'wǒ', vi: 'Tôi' },
-      { id: 3, char: '很', pinyin: 'hěn', vi: 'rất' },
-      { id: 4, char: '呢', pinyin: 'ne', vi: 'trợ từ ( dùng cuối câu hỏi )' },
-      { id: 5, char: '也', pinyin: 'yě', vi: 'cũng' },
-      { id: 6, char: '爸爸', pinyin: 'bàba', vi: 'bố' },
-      { id: 7, char: '妈妈', pinyin: 'māma', vi: 'mẹ' },
-      { id: 8, char: '都', pinyin: 'dōu', vi: 'đều' },
-      { id: 9, char: '他们', pinyin: 'tā men', vi: 'họ' },
-      { id: 10, char: '哥哥', pinyin: 'gēge', vi: 'anh trai' },
-      { id: 11, char: '他', pinyin: 'tā', vi: 'anh ấy' },
-      { id: 12, char: '姐姐', pinyin: 'Jiějie', vi: 'chị gái' },
-      { id: 13, char: '她', pinyin: 'tā', vi: 'cô ấy' },
-      { id: 14, char: '爱人', pinyin: 'àirén', vi: 'chồng hoặc vợ' },
-      { id: 15, char: '弟弟', pinyin: 'dìdi', vi: 'em trai' },
-      { id: 16, char: '妹妹', pinyin: 'mèimei', vi: 'em gái' },
-      { id: 17, char: '忙', pinyin: 'máng', vi: 'bận' },
-      { id: 18, char: '累', pinyin: 'lèi', vi: 'mệt' },
-      { id: 19, char: '饿', pinyin: 'è', vi: 'đói' },
-      { id: 20, char: '渴', pinyin: 'kě', vi: 'khát' }
-    ],
-    'Giao tiếp': [
-      { id: 1, char: '你好吗', pinyin: 'nǐ hǎo ma', vi: 'Bạn khỏe không?' },
-      { id: 2, char: '我很好.你呢', pinyin: 'wǒ hěn hǎo. nǐ ne', vi: 'Tôi rất khỏe. Còn bạn?' },
-      { id: 3, char: '我也很好', pinyin: 'wǒ yě hěn hǎo', vi: 'Tôi cũng rất khỏe' },
-      { id: 4, char: '你爸爸 妈妈都好吗', pinyin: 'nǐ bàba māma dōu hǎo ma', vi: 'Bố mẹ bạn đều khỏe chứ?' },
-      { id: 5, char: '他们也都很好', pinyin: 'tāmen yě dōu hěn hǎo', vi: 'Họ cũng đều rất khỏe' },
-      { id: 6, char: '你哥哥好吗', pinyin: 'nǐ gēge hǎo ma', vi: 'Anh trai bạn khỏe không?' },
-      { id: 7, char: '他很好.你呢', pinyin: 'tā hěn hǎo. nǐ ne', vi: 'Anh ấy rất khỏe. Còn bạn?' },
-      { id: 8, char: '我也很好', pinyin: 'wǒ yě hěn hǎo', vi: 'Tôi cũng rất khỏe' },
-      { id: 9, char: '你弟弟 妹妹好吗', pinyin: 'nǐ dìdi mèimei hǎo ma', vi: 'Em trai, em gái bạn khỏe không?' },
-      { id: 10, char: '他们也都很好', pinyin: 'tāmen yě dōu hěn hǎo', vi: 'Họ cũng đều rất khỏe' },
-      { id: 11, char: '你姐姐好吗', pinyin: 'nǐ jiějie hǎo ma', vi: 'Chị gái bạn khỏe không?' },
-      { id: 12, char: '她很好.你呢', pinyin: 'tā hěn hǎo. nǐ ne', vi: 'Cô ấy rất khỏe. Còn bạn?' },
-      { id: 13, char: '我也很好', pinyin: 'wǒ yě hěn hǎo', vi: 'Tôi cũng rất khỏe' },
-      { id: 14, char: '你弟弟妹妹都好吗', pinyin: 'nǐ dìdi mèimei dōu hǎo ma', vi: 'Em trai em gái bạn đều khỏe chứ?' },
-      { id: 15, char: '他们也都很好', pinyin: 'tāmen yě dōu hěn hǎo', vi: 'Họ cũng đều rất khỏe' },
-      { id: 16, char: '你爱人好吗', pinyin: 'nǐ àirén hǎo ma', vi: 'Vợ/chồng bạn khỏe không?' },
-      { id: 17, char: '她很好.你呢', pinyin: 'tā hěn hǎo. nǐ ne', vi: 'Cô ấy rất khỏe. Còn bạn?' },
-      { id: 18, char: '我也很好', pinyin: 'wǒ yě hěn hǎo', vi: 'Tôi cũng rất khỏe' },
-      { id: 19, char: '他们也都很好', pinyin: 'tāmen yě dōu hěn hǎo', vi: 'Họ cũng đều rất khỏe' },
-      { id: 20, char: '你忙吗', pinyin: 'nǐ máng ma', vi: 'Bạn bận không?' },
-      { id: 21, char: '我不忙', pinyin: 'wǒ bù máng', vi: 'Tôi không bận' },
-      { id: 22, char: '你累吗', pinyin: 'nǐ lèi ma', vi: 'Bạn mệt không?' },
-      { id: 23, char: '我不累', pinyin: 'wǒ bù lèi', vi: 'Tôi không mệt' },
-      { id: 24, char: '你饿吗', pinyin: 'nǐ è ma', vi: 'Bạn đói không?' },
-      { id: 25, char: '我不饿', pinyin: 'wǒ bù è', vi: 'Tôi không đói' },
-      { id: 26, char: '你渴吗', pinyin: 'nǐ kě ma', vi: 'Bạn khát không?' },
-      { id: 27, char: '我很渴', pinyin: 'wǒ hěn kě', vi: 'Tôi rất khát' },
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '你好吗', pinyin: '', vi: '' },
-      { id: 2, char: '我很好', pinyin: '', vi: '' },
-      { id: 3, char: '你呢', pinyin: '', vi: '' },
-      { id: 4, char: '我也很好', pinyin: '', vi: '' },
-      { id: 5, char: '你爸爸妈妈都好吗', pinyin: '', vi: '' },
-      { id: 6, char: '他们也都很好', pinyin: '', vi: '' },
-      { id: 7, char: '你哥哥好吗', pinyin: '', vi: '' },
-      { id: 8, char: '他很好', pinyin: '', vi: '' },
-      { id: 9, char: '我也很好', pinyin: '', vi: '' },
-      { id: 10, char: '你弟弟妹妹好吗', pinyin: '', vi: '' },
-      { id: 11, char: '他们也都很好', pinyin: '', vi: '' },
-      { id: 12, char: '你姐姐好吗', pinyin: '', vi: '' },
-      { id: 13, char: '她很好', pinyin: '', vi: '' },
-      { id: 14, char: '我也很好', pinyin: '', vi: '' },
-      { id: 15, char: '你弟弟妹妹都好吗', pinyin: '', vi: '' },
-      { id: 16, char: '他们也都很好', pinyin: '', vi: '' },
-      { id: 17, char: '你爱人好吗', pinyin: '', vi: '' },
-      { id: 18, char: '我也很好', pinyin: '', vi: '' },
-      { id: 19, char: '他们也都很好', pinyin: '', vi: '' },
-      { id: 20, char: '你忙吗', pinyin: '', vi: '' },
-      { id: 21, char: '我不忙', pinyin: '', vi: '' },
-      { id: 22, char: '你累吗', pinyin: '', vi: '' },
-      { id: 23, char: '我不累', pinyin: '', vi: '' },
-      { id: 24, char: '你饿吗', pinyin: '', vi: '' },
-      { id: 25, char: '我不饿', pinyin: '', vi: '' },
-      { id: 26, char: '你渴吗', pinyin: '', vi: '' },
-      { id: 27, char: '我很渴', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 18': {
-    'Từ mới': [
-      { id: 1, char: '吃', pinyin: 'Chī', vi: 'ăn' },
-      { id: 2, char: '什么', pinyin: 'Shénme', vi: 'cái gì' },
-      { id: 3, char: '饺子', pinyin: 'Jiǎozi', vi: 'bánh bột nhân thịt-bánh cảo' },
-      { id: 4, char: '米饭', pinyin: 'Mǐfān', vi: 'cơm' },
-      { id: 5, char: '面条', pinyin: 'Miàntiáo', vi: 'mỳ sợi' },
-      { id: 6, char: '面包', pinyin: 'miàn bāo', vi: 'bánh mỳ' },
-      { id: 7, char: '包子', pinyin: 'bāo zi', vi: 'bánh bao' },
-      { id: 8, char: '喝', pinyin: 'Hē', vi: 'uống' },
-      { id: 9, char: '啤酒', pinyin: 'píjiǔ', vi: 'Bia' },
-      { id: 10, char: '可口可乐', pinyin: 'kěkǒukělè', vi: 'Cocacola' },
-      { id: 11, char: '茶', pinyin: 'Chá', vi: 'trà' },
-      { id: 12, char: '咖啡', pinyin: 'kā fēi', vi: 'cà phê' },
-      { id: 13, char: '矿泉水', pinyin: 'kuàng quán shuǐ', vi: 'nước khoáng' },
-      { id: 14, char: '牛奶', pinyin: 'niú nǎi', vi: 'sữa bò' },
-      { id: 15, char: '买', pinyin: 'Mǎi', vi: 'mua' },
-      { id: 16, char: '词典', pinyin: 'Cídiǎn', vi: 'từ điển' },
-      { id: 17, char: '本子', pinyin: 'Běnzi', vi: 'vở' },
-      { id: 18, char: '书', pinyin: 'Shū', vi: 'sách' },
-      { id: 19, char: '笔', pinyin: 'bǐ', vi: 'bút' },
-      { id: 20, char: '书包', pinyin: 'Shūbāo', vi: 'cặp sách' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '吃', pinyin: 'Chī', vi: 'ăn' },
-      { id: 2, char: '什么', pinyin: 'Shénme', vi: 'cái gì' },
-      { id: 3, char: '饺子', pinyin: 'Jiǎozi', vi: 'bánh bột nhân thịt-bánh cảo' },
-      { id: 4, char: '米饭', pinyin: 'Mǐfān', vi: 'cơm' },
-      { id: 5, char: '面条', pinyin: 'Miàntiáo', vi: 'mỳ sợi' },
-      { id: 6, char: '面包', pinyin: 'miàn bāo', vi: 'bánh mỳ' },
-      { id: 7, char: '包子', pinyin: 'bāo zi', vi: 'bánh bao' },
-      { id: 8, char: '喝', pinyin: 'Hē', vi: 'uống' },
-      { id: 9, char: '啤酒', pinyin: 'píjiǔ', vi: 'Bia' },
-      { id: 10, char: '可口可乐', pinyin: 'kěkǒukělè', vi: 'Cocacola' },
-      { id: 11, char: '茶', pinyin: 'Chá', vi: 'trà' },
-      { id: 12, char: '咖啡', pinyin: 'kā fēi', vi: 'cà phê' },
-      { id: 13, char: '矿泉水', pinyin: 'kuàng quán shuǐ', vi: 'nước khoáng' },
-      { id: 14, char: '牛奶', pinyin: 'niú nǎi', vi: 'sữa bò' },
-      { id: 15, char: '买', pinyin: 'Mǎi', vi: 'mua' },
-      { id: 16, char: '词典', pinyin: 'Cídiǎn', vi: 'từ điển' },
-      { id: 17, char: '本子', pinyin: 'Běnzi', vi: 'vở' },
-      { id: 18, char: '书', pinyin: 'Shū', vi: 'sách' },
-      { id: 19, char: '笔', pinyin: 'bǐ', vi: 'bút' },
-      { id: 20, char: '书包', pinyin: 'Shūbāo', vi: 'cặp sách' },
-    ],
-    'Giao tiếp': [
-      { id: 1, char: '你吃什么', pinyin: 'nǐ chī shénme', vi: 'Bạn ăn gì?' },
-      { id: 2, char: '我吃饺子', pinyin: 'wǒ chī jiǎozi', vi: 'Tôi ăn sủi cảo' },
-      { id: 3, char: '我吃米饭', pinyin: 'wǒ chī mǐfàn', vi: 'Tôi ăn cơm' },
-      { id: 4, char: '我吃面条', pinyin: 'wǒ chī miàntiáo', vi: 'Tôi ăn mì sợi' },
-      { id: 5, char: '我吃面包', pinyin: 'wǒ chī miànbāo', vi: 'Tôi ăn bánh mì' },
-      { id: 6, char: '我吃包子', pinyin: 'wǒ chī bāozi', vi: 'Tôi ăn bánh bao' },
-      { id: 7, char: '你喝什么', pinyin: 'nǐ hē shénme', vi: 'Bạn uống gì?' },
-      { id: 8, char: '我喝啤酒', pinyin: 'wǒ hē píjiǔ', vi: 'Tôi uống bia' },
-      { id: 9, char: '我喝可口可乐', pinyin: 'wǒ hē kěkǒukělè', vi: 'Tôi uống Coca-Cola' },
-      { id: 10, char: '你喝吗', pinyin: 'nǐ hē ma', vi: 'Bạn uống không?' },
-      { id: 11, char: '我不喝茶 . 我喝咖啡', pinyin: 'wǒ bù hē chá. wǒ hē kāfēi', vi: 'Tôi không uống trà. Tôi uống cà phê' },
-      { id: 12, char: '我喝矿泉水', pinyin: 'wǒ hē kuàngquánshuǐ', vi: 'Tôi uống nước khoáng' },
-      { id: 13, char: '我喝牛奶', pinyin: 'wǒ hē niúnǎi', vi: 'Tôi uống sữa' },
-      { id: 14, char: '你买什么', pinyin: 'nǐ mǎi shénme', vi: 'Bạn mua gì?' },
-      { id: 15, char: '我买词典', pinyin: 'wǒ mǎi cídiǎn', vi: 'Tôi mua từ điển' },
-      { id: 16, char: '我买本子', pinyin: 'wǒ mǎi běnzi', vi: 'Tôi mua vở' },
-      { id: 17, char: '我买书', pinyin: 'wǒ mǎi shū', vi: 'Tôi mua sách' },
-      { id: 18, char: '我买笔', pinyin: 'wǒ mǎi bǐ', vi: 'Tôi mua bút' },
-      { id: 19, char: '我买书包', pinyin: 'wǒ mǎi shūbāo', vi: 'Tôi mua cặp sách' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '你吃什么', pinyin: '', vi: '' },
-      { id: 2, char: '我吃饺子', pinyin: '', vi: '' },
-      { id: 3, char: '你吃什么', pinyin: '', vi: '' },
-      { id: 4, char: '我吃米饭', pinyin: '', vi: '' },
-      { id: 5, char: '我吃面条', pinyin: '', vi: '' },
-      { id: 6, char: '你吃什么', pinyin: '', vi: '' },
-      { id: 7, char: '我吃面包', pinyin: '', vi: '' },
-      { id: 8, char: '你吃什么', pinyin: '', vi: '' },
-      { id: 9, char: '我吃包子', pinyin: '', vi: '' },
-      { id: 10, char: '你喝什么', pinyin: '', vi: '' },
-      { id: 11, char: '我喝啤酒', pinyin: '', vi: '' },
-      { id: 12, char: '你喝什么', pinyin: '', vi: '' },
-      { id: 13, char: '我喝可口可乐', pinyin: '', vi: '' },
-      { id: 14, char: '你喝什么', pinyin: '', vi: '' },
-      { id: 15, char: '我喝茶', pinyin: '', vi: '' },
-      { id: 16, char: '我喝咖啡', pinyin: '', vi: '' },
-      { id: 17, char: '你喝什么', pinyin: '', vi: '' },
-      { id: 18, char: '我喝矿泉水', pinyin: '', vi: '' },
-      { id: 19, char: '你喝什么', pinyin: '', vi: '' },
-      { id: 20, char: '我喝牛奶', pinyin: '', vi: '' },
-      { id: 21, char: '你买什么', pinyin: '', vi: '' },
-      { id: 22, char: '我买词典', pinyin: '', vi: '' },
-      { id: 23, char: '你买什么', pinyin: '', vi: '' },
-      { id: 24, char: '我买本子', pinyin: '', vi: '' },
-      { id: 25, char: '你买什么', pinyin: '', vi: '' },
-      { id: 26, char: '我买书', pinyin: '', vi: '' },
-      { id: 27, char: '你买什么', pinyin: '', vi: '' },
-      { id: 28, char: '我买笔', pinyin: '', vi: '' },
-      { id: 29, char: '你买什么', pinyin: '', vi: '' },
-      { id: 30, char: '我买书包', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 19': {
-    'Từ mới': [
-      { id: 1, char: '要', pinyin: 'yào', vi: 'cần - phải- muốn' },
-      { id: 2, char: '换', pinyin: 'huàn', vi: 'đổi' },
-      { id: 3, char: '钱', pinyin: 'qián', vi: 'tiền' },
-      { id: 4, char: '多少', pinyin: 'duō shǎo', vi: 'bao nhiêu' },
-      { id: 5, char: '一', pinyin: 'yī', vi: '1- một' },
-      { id: 6, char: '百', pinyin: 'bǎi', vi: 'trăm' },
-      { id: 7, char: '美元', pinyin: 'měi yuán', vi: 'đô la mỹ' },
-      { id: 8, char: '二', pinyin: 'èr', vi: '2-hai' },
-      { id: 9, char: '三', pinyin: 'sān', vi: '3- ba' },
-      { id: 10, char: '四', pinyin: 'sì', vi: 'bốn-4' },
-      { id: 11, char: '五', pinyin: 'wǔ', vi: 'năm-5' },
-      { id: 12, char: '两', pinyin: 'liǎng', vi: 'hai-2' },
-      { id: 13, char: '杯', pinyin: 'bēi', vi: 'cốc-ly' },
-      { id: 14, char: '块', pinyin: 'kuài', vi: 'đồng( đơn vị tiền tệ(nói))' },
-      { id: 15, char: '元', pinyin: 'yuán', vi: 'đồng( đơn vị tiền tệ(văn viết))' },
-      { id: 16, char: '个', pinyin: 'gè', vi: 'cái' },
-      { id: 17, char: '六', pinyin: 'liù', vi: 'sáu-6' },
-      { id: 18, char: '毛', pinyin: 'máo', vi: 'hào (đơn vị tiền tệ(văn nói))' },
-      { id: 19, char: '角', pinyin: 'jiǎo', vi: 'hào( đơn vị tiền tệ(văn viết))' },
-      { id: 20, char: '瓶', pinyin: 'píng', vi: 'bình- chai' },
-      { id: 21, char: '七', pinyin: 'qī', vi: 'bảy-7' },
-      { id: 22, char: '八', pinyin: 'bā', vi: 'tám-8' },
-      { id: 23, char: '本', pinyin: 'běn', vi: 'quyển' },
-      { id: 24, char: '九', pinyin: 'jiǔ', vi: 'chín' },
-      { id: 25, char: '十', pinyin: 'shí', vi: 'mười' },
-      { id: 26, char: '分', pinyin: 'fēn', vi: 'xu (đơn vị tiền tệ)' },
-      { id: 27, char: '千', pinyin: 'qiān', vi: 'nghìn' },
-      { id: 28, char: '万', pinyin: 'wàn', vi: 'vạn = 10.000' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '要', pinyin: 'yào', vi: 'cần - phải- muốn' },
-      { id: 2, char: '换', pinyin: 'huàn', vi: 'đổi' },
-      { id: 3, char: '钱', pinyin: 'qián', vi: 'tiền' },
-      { id: 4, char: '多少', pinyin: 'duō shǎo', vi: 'bao nhiêu' },
-      { id: 5, char: '一', pinyin: 'yī', vi: '1- một' },
-      { id: 6, char: '百', pinyin: 'bǎi', vi: 'trăm' },
-      { id: 7, char: '美元', pinyin: 'měi yuán', vi: 'đô la mỹ' },
-      { id: 8, char: '二', pinyin: 'èr', vi: '2-hai' },
-      { id: 9, char: '三', pinyin: 'sān', vi: '3- ba' },
-      { id: 10, char: '四', pinyin: 'sì', vi: 'bốn-4' },
-      { id: 11, char: '五', pinyin: 'wǔ', vi: 'năm-5' },
-      { id: 12, char: '两', pinyin: 'liǎng', vi: 'hai-2' },
-      { id: 13, char: '杯', pinyin: 'bēi', vi: 'cốc-ly' },
-      { id: 14, char: '块', pinyin: 'kuài', vi: 'đồng( đơn vị tiền tệ(nói))' },
-      { id: 15, char: '元', pinyin: 'yuán', vi: 'đồng( đơn vị tiền tệ(văn viết))' },
-      { id: 16, char: '个', pinyin: 'gè', vi: 'cái' },
-      { id: 17, char: '六', pinyin: 'liù', vi: 'sáu-6' },
-      { id: 18, char: '毛', pinyin: 'máo', vi: 'hào (đơn vị tiền tệ(văn nói))' },
-      { id: 19, char: '角', pinyin: 'jiǎo', vi: 'hào( đơn vị tiền tệ(văn viết))' },
-      { id: 20, char: '瓶', pinyin: 'píng', vi: 'bình- chai' },
-      { id: 21, char: '七', pinyin: 'qī', vi: 'bảy-7' },
-      { id: 22, char: '八', pinyin: 'bā', vi: 'tám-8' },
-      { id: 23, char: '本', pinyin: 'běn', vi: 'quyển' },
-      { id: 24, char: '九', pinyin: 'jiǔ', vi: 'chín' },
-      { id: 25, char: '十', pinyin: 'shí', vi: 'mười' },
-      { id: 26, char: '分', pinyin: 'fēn', vi: 'xu (đơn vị tiền tệ)' },
-      { id: 27, char: '千', pinyin: 'qiān', vi: 'nghìn' },
-      { id: 28, char: '万', pinyin: 'wàn', vi: 'vạn = 10.000' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '我要换钱', pinyin: 'wǒ yào huàn qián', vi: 'Tôi muốn đổi tiền' },
-        { id: 2, char: '换什么钱', pinyin: 'huàn shénme qián', vi: 'Đổi tiền gì?' },
-        { id: 3, char: '换美元', pinyin: 'huàn měiyuán', vi: 'Đổi đô la Mỹ' },
-        { id: 4, char: '换多少钱', pinyin: 'huàn duōshǎo qián', vi: 'Đổi bao nhiêu tiền?' },
-        { id: 5, char: '换一百美元', pinyin: 'huàn yìbǎi měiyuán', vi: 'Đổi 100 đô la Mỹ' },
-        { id: 6, char: '换二百美元', pinyin: 'huàn èrbǎi měiyuán', vi: 'Đổi 200 đô la Mỹ' },
-        { id: 7, char: '换三百美元', pinyin: 'huàn sānbǎi měiyuán', vi: 'Đổi 300 đô la Mỹ' },
-        { id: 8, char: '换四百美元', pinyin: 'huàn sìbǎi měiyuán', vi: 'Đổi 400 đô la Mỹ' },
-        { id: 9, char: '两杯咖啡多少钱', pinyin: 'liǎng bēi kāfēi duōshǎo qián', vi: 'Hai cốc cà phê bao nhiêu tiền?' },
-        { id: 10, char: '五块', pinyin: 'wǔ kuài', vi: '5 đồng' },
-        { id: 11, char: '一个本子多少钱', pinyin: 'yí ge běnzi duōshǎo qián', vi: 'Một quyển vở bao nhiêu tiền?' },
-        { id: 12, char: '六毛', pinyin: 'liù máo', vi: '6 hào' },
-        { id: 13, char: '四瓶啤酒多少钱', pinyin: 'sì píng píjiǔ duōshǎo qián', vi: 'Bốn chai bia bao nhiêu tiền?' },
-        { id: 14, char: '七块二', pinyin: 'qī kuài èr', vi: '7 đồng 2 hào' },
-        { id: 15, char: '两个面包多少钱', pinyin: 'liǎng ge miànbāo duōshǎo qián', vi: 'Hai cái bánh mì bao nhiêu tiền?' },
-        { id: 16, char: '八块', pinyin: 'bā kuài', vi: '8 đồng' },
-        { id: 17, char: '三本词典多少钱', pinyin: 'sān běn cídiǎn duōshǎo qián', vi: 'Ba quyển từ điển bao nhiêu tiền?' },
-        { id: 18, char: '九十块', pinyin: 'jiǔshí kuài', vi: '90 đồng' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '我要换钱', pinyin: '', vi: '' },
-      { id: 2, char: '换什么钱', pinyin: '', vi: '' },
-      { id: 3, char: '换美元', pinyin: '', vi: '' },
-      { id: 4, char: '换多少钱', pinyin: '', vi: '' },
-      { id: 5, char: '换一百美元', pinyin: '', vi: '' },
-      { id: 6, char: '换二百美元', pinyin: '', vi: '' },
-      { id: 7, char: '换三百美元', pinyin: '', vi: '' },
-      { id: 8, char: '换四百美元', pinyin: '', vi: '' },
-      { id: 9, char: '两杯咖啡多少钱', pinyin: '', vi: '' },
-      { id: 10, char: '五块', pinyin: '', vi: '' },
-      { id: 11, char: '一个本子多少钱', pinyin: '', vi: '' },
-      { id: 12, char: '六毛', pinyin: '', vi: '' },
-      { id: 13, char: '四瓶啤酒多少钱', pinyin: '', vi: '' },
-      { id: 14, char: '七块二', pinyin: '', vi: '' },
-      { id: 15, char: '两个面包多少钱', pinyin: '', vi: '' },
-      { id: 16, char: '八块', pinyin: '', vi: '' },
-      { id: 17, char: '三本词典多少钱', pinyin: '', vi: '' },
-      { id: 18, char: '九十块', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 20': {
-    'Từ mới': [
-      { id: 1, char: '请问', pinyin: 'qǐngwèn', vi: 'xin hỏi' },
-      { id: 2, char: '图书馆', pinyin: 'túshūguǎn', vi: 'thư viện' },
-      { id: 3, char: '在', pinyin: 'zài', vi: 'ở' },
-      { id: 4, char: '哪儿', pinyin: 'nǎr', vi: 'đâu' },
-      { id: 5, char: '就', pinyin: 'jiù', vi: 'thì, là' },
-      { id: 6, char: '那儿', pinyin: 'nàr', vi: 'đó, đằng kia' },
-      { id: 7, char: '食堂', pinyin: 'shítáng', vi: 'nhà ăn' },
-      { id: 8, char: '留学生', pinyin: 'liúxuéshēng', vi: 'du học sinh' },
-      { id: 9, char: '宿舍', pinyin: 'sùshè', vi: 'ký túc xá' },
-      { id: 10, char: '办公室', pinyin: 'bàngōngshì', vi: 'văn phòng' },
-      { id: 11, char: '楼', pinyin: 'lóu', vi: 'lầu, tòa nhà' },
-      { id: 12, char: '邮局', pinyin: 'yóujú', vi: 'bưu điện' },
-      { id: 13, char: '银行', pinyin: 'yínháng', vi: 'ngân hàng' },
-      { id: 14, char: '医院', pinyin: 'yīyuàn', vi: 'bệnh viện' },
-      { id: 15, char: '商店', pinyin: 'shāngdiàn', vi: 'cửa hàng' },
-      { id: 16, char: '书店', pinyin: 'shūdiàn', vi: 'hiệu sách' },
-      { id: 17, char: '知道', pinyin: 'zhīdào', vi: 'biết' },
-      { id: 18, char: '去', pinyin: 'qù', vi: 'đi' },
-      { id: 19, char: '天安门', pinyin: 'Tiān\'ānmén', vi: 'Thiên An Môn' },
-      { id: 20, char: '故宫', pinyin: 'Gùgōng', vi: 'Cố Cung' },
-      { id: 21, char: '颐和园', pinyin: 'Yíhéyuán', vi: 'Di Hòa Viên' },
-      { id: 22, char: '长城', pinyin: 'Chángchéng', vi: 'Trường Thành' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '请问', pinyin: 'qǐngwèn', vi: 'xin hỏi' },
-      { id: 2, char: '图书馆', pinyin: 'túshūguǎn', vi: 'thư viện' },
-      { id: 3, char: '在', pinyin: 'zài', vi: 'ở' },
-      { id: 4, char: '哪儿', pinyin: 'nǎr', vi: 'đâu' },
-      { id: 5, char: '就', pinyin: 'jiù', vi: 'thì, là' },
-      { id: 6, char: '那儿', pinyin: 'nàr', vi: 'đó, đằng kia' },
-      { id: 7, char: '食堂', pinyin: 'shítáng', vi: 'nhà ăn' },
-      { id: 8, char: '留学生', pinyin: 'liúxuéshēng', vi: 'du học sinh' },
-      { id: 9, char: '宿舍', pinyin: 'sùshè', vi: 'ký túc xá' },
-      { id: 10, char: '办公室', pinyin: 'bàngōngshì', vi: 'văn phòng' },
-      { id: 11, char: '楼', pinyin: 'lóu', vi: 'lầu, tòa nhà' },
-      { id: 12, char: '邮局', pinyin: 'yóujú', vi: 'bưu điện' },
-      { id: 13, char: '银行', pinyin: 'yínháng', vi: 'ngân hàng' },
-      { id: 14, char: '医院', pinyin: 'yīyuàn', vi: 'bệnh viện' },
-      { id: 15, char: '商店', pinyin: 'shāngdiàn', vi: 'cửa hàng' },
-      { id: 16, char: '书店', pinyin: 'shūdiàn', vi: 'hiệu sách' },
-      { id: 17, char: '知道', pinyin: 'zhīdào', vi: 'biết' },
-      { id: 18, char: '去', pinyin: 'qù', vi: 'đi' },
-      { id: 19, char: '天安门', pinyin: 'Tiān\'ānmén', vi: 'Thiên An Môn' },
-      { id: 20, char: '故宫', pinyin: 'Gùgōng', vi: 'Cố Cung' },
-      { id: 21, char: '颐和园', pinyin: 'Yíhéyuán', vi: 'Di Hòa Viên' },
-      { id: 22, char: '长城', pinyin: 'Chángchéng', vi: 'Trường Thành' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '请问图书馆在哪儿', pinyin: 'qǐngwèn túshūguǎn zài nǎr', vi: 'Xin hỏi thư viện ở đâu?' },
-        { id: 2, char: '就在那儿', pinyin: 'jiù zài nàr', vi: 'Ở ngay đằng kia' },
-        { id: 3, char: '请问食堂在哪儿', pinyin: 'qǐngwèn shítáng zài nǎr', vi: 'Xin hỏi nhà ăn ở đâu?' },
-        { id: 4, char: '请问留学生宿舍在哪儿', pinyin: 'qǐngwèn liúxuéshēng sùshè zài nǎr', vi: 'Xin hỏi KTX lưu học sinh ở đâu?' },
-        { id: 5, char: '请问办公室在哪儿', pinyin: 'qǐngwèn bàngōngshì zài nǎr', vi: 'Xin hỏi văn phòng ở đâu?' },
-        { id: 6, char: '请问七楼在哪儿', pinyin: 'qǐngwèn qī lóu zài nǎr', vi: 'Xin hỏi tầng 7 ở đâu?' },
-        { id: 7, char: '就在那儿', pinyin: 'jiù zài nàr', vi: 'Ở ngay đằng kia' },
-        { id: 8, char: '请问邮局在哪儿', pinyin: 'qǐngwèn yóujú zài nǎr', vi: 'Xin hỏi bưu điện ở đâu?' },
-        { id: 9, char: '对不起我不知道', pinyin: 'duìbuqǐ wǒ bù zhīdào', vi: 'Xin lỗi, tôi không biết' },
-        { id: 10, char: '请问银行在哪儿', pinyin: 'qǐngwèn yínháng zài nǎr', vi: 'Xin hỏi ngân hàng ở đâu?' },
-        { id: 11, char: '请问医院在哪儿', pinyin: 'qǐngwèn yīyuàn zài nǎr', vi: 'Xin hỏi bệnh viện ở đâu?' },
-        { id: 12, char: '请问商店在哪儿', pinyin: 'qǐngwèn shāngdiàn zài nǎr', vi: 'Xin hỏi cửa hàng ở đâu?' },
-        { id: 13, char: '请问书店在哪儿', pinyin: 'qǐngwèn shūdiàn zài nǎr', vi: 'Xin hỏi hiệu sách ở đâu?' },
-        { id: 14, char: '你去哪儿', pinyin: 'nǐ qù nǎr', vi: 'Bạn đi đâu?' },
-        { id: 15, char: '我去天安门', pinyin: 'wǒ qù Tiān\'ānmén', vi: 'Tôi đi Thiên An Môn' },
-        { id: 16, char: '我去故宫', pinyin: 'wǒ qù Gùgōng', vi: 'Tôi đi Cố Cung' },
-        { id: 17, char: '我去颐和园', pinyin: 'wǒ qù Yíhéyuán', vi: 'Tôi đi Di Hòa Viên' },
-        { id: 18, char: '我去长城', pinyin: 'wǒ qù Chángchéng', vi: 'Tôi đi Trường Thành' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '请问图书馆在哪儿', pinyin: '', vi: '' },
-      { id: 2, char: '就在那儿', pinyin: '', vi: '' },
-      { id: 3, char: '请问食堂在哪儿', pinyin: '', vi: '' },
-      { id: 4, char: '请问留学生宿舍在哪儿', pinyin: '', vi: '' },
-      { id: 5, char: '请问办公室在哪儿', pinyin: '', vi: '' },
-      { id: 6, char: '请问七楼在哪儿', pinyin: '', vi: '' },
-      { id: 7, char: '请问邮局在哪儿', pinyin: '', vi: '' },
-      { id: 8, char: '对不起我不知道', pinyin: '', vi: '' },
-      { id: 9, char: '请问银行在哪儿', pinyin: '', vi: '' },
-      { id: 10, char: '请问医院在哪儿', pinyin: '', vi: '' },
-      { id: 11, char: '请问商店在哪儿', pinyin: '', vi: '' },
-      { id: 12, char: '请问书店在哪儿', pinyin: '', vi: '' },
-      { id: 13, char: '对不起我不知道', pinyin: '', vi: '' },
-      { id: 14, char: '你去哪儿', pinyin: '', vi: '' },
-      { id: 15, char: '我去天安门', pinyin: '', vi: '' },
-      { id: 16, char: '你去哪儿', pinyin: '', vi: '' },
-      { id: 17, char: '我去故宫', pinyin: '', vi: '' },
-      { id: 18, char: '你去哪儿', pinyin: '', vi: '' },
-      { id: 19, char: '我去颐和园', pinyin: '', vi: '' },
-      { id: 20, char: '你去哪儿', pinyin: '', vi: '' },
-      { id: 21, char: '我去长城', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 21': {
-    'Từ mới': [
-      { id: 1, char: '认识', pinyin: 'rènshi', vi: 'quen biết' },
-      { id: 2, char: '高兴', pinyin: 'gāoxìng', vi: 'vui mừng' },
-      { id: 3, char: '来', pinyin: 'lái', vi: 'đến' },
-      { id: 4, char: '介绍', pinyin: 'jièshào', vi: 'giới thiệu' },
-      { id: 5, char: '一下儿', pinyin: 'yíxiàr', vi: 'một chút' },
-      { id: 6, char: '是', pinyin: 'shì', vi: 'là, phải' },
-      { id: 7, char: '学习', pinyin: 'xuéxí', vi: 'học tập' },
-      { id: 8, char: '汉语', pinyin: 'Hànyǔ', vi: 'tiếng Hán' },
-      { id: 9, char: '班', pinyin: 'bān', vi: 'lớp' },
-      { id: 10, char: '的', pinyin: 'de', vi: 'của' },
-      { id: 11, char: '学生', pinyin: 'xuésheng', vi: 'học sinh' },
-      { id: 12, char: '这', pinyin: 'zhè', vi: 'đây, này' },
-      { id: 13, char: '我们', pinyin: 'wǒmen', vi: 'chúng tôi' },
-      { id: 14, char: '那', pinyin: 'nà', vi: 'đó, kia' },
-      { id: 15, char: '朋友', pinyin: 'péngyou', vi: 'bạn bè' },
-      { id: 16, char: '和', pinyin: 'hé', vi: 'và' },
-      { id: 17, char: '人', pinyin: 'rén', vi: 'người' },
-      { id: 18, char: '教室', pinyin: 'jiàoshì', vi: 'phòng học' },
-      { id: 19, char: '大', pinyin: 'dà', vi: 'to, lớn' },
-      { id: 20, char: '新', pinyin: 'xīn', vi: 'mới' },
-      { id: 21, char: '同学', pinyin: 'tóngxué', vi: 'bạn học' },
-      { id: 22, char: '厚', pinyin: 'hòu', vi: 'dày' },
-      { id: 23, char: '亮', pinyin: 'liàng', vi: 'sáng' },
-      { id: 24, char: '极了', pinyin: 'jíle', vi: 'vô cùng, cực kỳ' },
-      { id: 25, char: '女儿', pinyin: 'nǚ\'ér', vi: 'con gái' },
-      { id: 26, char: '聪明', pinyin: 'cōngming', vi: 'thông minh' },
-      { id: 27, char: '可爱', pinyin: 'kě\'ài', vi: 'đáng yêu' },
-      { id: 28, char: '看', pinyin: 'kàn', vi: 'nhìn, xem' },
-      { id: 29, char: '帅', pinyin: 'shuài', vi: 'đẹp trai' },
-      { id: 30, char: '小', pinyin: 'xiǎo', vi: 'nhỏ, bé' },
-      { id: 31, char: '德国', pinyin: 'Déguó', vi: 'nước Đức' },
-      { id: 32, char: '法国', pinyin: 'Fǎguó', vi: 'nước Pháp' },
-      { id: 33, char: '韩国', pinyin: 'Hánguó', vi: 'Hàn Quốc' },
-      { id: 34, char: '保罗', pinyin: 'Bǎoluó', vi: 'Paul' },
-      { id: 35, char: '西蒙', pinyin: 'Xīméng', vi: 'Simon' },
-      { id: 36, char: '李英男', pinyin: 'Lǐ Yīngnán', vi: 'Lý Anh Nam' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '认识', pinyin: 'rènshi', vi: 'quen biết' },
-      { id: 2, char: '高兴', pinyin: 'gāoxìng', vi: 'vui mừng' },
-      { id: 3, char: '来', pinyin: 'lái', vi: 'đến' },
-      { id: 4, char: '介绍', pinyin: 'jièshào', vi: 'giới thiệu' },
-      { id: 5, char: '一下儿', pinyin: 'yíxiàr', vi: 'một chút' },
-      { id: 6, char: '是', pinyin: 'shì', vi: 'là, phải' },
-      { id: 7, char: '学习', pinyin: 'xuéxí', vi: 'học tập' },
-      { id: 8, char: '汉语', pinyin: 'Hànyǔ', vi: 'tiếng Hán' },
-      { id: 9, char: '班', pinyin: 'bān', vi: 'lớp' },
-      { id: 10, char: '的', pinyin: 'de', vi: 'của' },
-      { id: 11, char: '学生', pinyin: 'xuésheng', vi: 'học sinh' },
-      { id: 12, char: '这', pinyin: 'zhè', vi: 'đây, này' },
-      { id: 13, char: '我们', pinyin: 'wǒmen', vi: 'chúng tôi' },
-      { id: 14, char: '那', pinyin: 'nà', vi: 'đó, kia' },
-      { id: 15, char: '朋友', pinyin: 'péngyou', vi: 'bạn bè' },
-      { id: 16, char: '和', pinyin: 'hé', vi: 'và' },
-      { id: 17, char: '人', pinyin: 'rén', vi: 'người' },
-      { id: 18, char: '教室', pinyin: 'jiàoshì', vi: 'phòng học' },
-      { id: 19, char: '大', pinyin: 'dà', vi: 'to, lớn' },
-      { id: 20, char: '新', pinyin: 'xīn', vi: 'mới' },
-      { id: 21, char: '同学', pinyin: 'tóngxué', vi: 'bạn học' },
-      { id: 22, char: '厚', pinyin: 'hòu', vi: 'dày' },
-      { id: 23, char: '亮', pinyin: 'liàng', vi: 'sáng' },
-      { id: 24, char: '极了', pinyin: 'jíle', vi: 'vô cùng, cực kỳ' },
-      { id: 25, char: '女儿', pinyin: 'nǚ\'ér', vi: 'con gái' },
-      { id: 26, char: '聪明', pinyin: 'cōngming', vi: 'thông minh' },
-      { id: 27, char: '可爱', pinyin: 'kě\'ài', vi: 'đáng yêu' },
-      { id: 28, char: '看', pinyin: 'kàn', vi: 'nhìn, xem' },
-      { id: 29, char: '帅', pinyin: 'shuài', vi: 'đẹp trai' },
-      { id: 30, char: '小', pinyin: 'xiǎo', vi: 'nhỏ, bé' },
-      { id: 31, char: '德国', pinyin: 'Déguó', vi: 'nước Đức' },
-      { id: 32, char: '法国', pinyin: 'Fǎguó', vi: 'nước Pháp' },
-      { id: 33, char: '韩国', pinyin: 'Hánguó', vi: 'Hàn Quốc' },
-      { id: 34, char: '保罗', pinyin: 'Bǎoluó', vi: 'Paul' },
-      { id: 35, char: '西蒙', pinyin: 'Xīméng', vi: 'Simon' },
-      { id: 36, char: '李英男', pinyin: 'Lǐ Yīngnán', vi: 'Lý Anh Nam' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '你们好', pinyin: 'nǐmen hǎo', vi: 'Chào các bạn' },
-        { id: 2, char: '很高兴认识你们', pinyin: 'hěn gāoxìng rènshi nǐmen', vi: 'Rất vui được làm quen các bạn' },
-        { id: 3, char: '我来介绍一下儿', pinyin: 'wǒ lái jièshào yíxiàr', vi: 'Để tôi giới thiệu một chút' },
-        { id: 4, char: '这是我爸爸', pinyin: 'zhè shì wǒ bàba', vi: 'Đây là bố tôi' },
-        { id: 5, char: '这是我妈妈', pinyin: 'zhè shì wǒ māma', vi: 'Đây là mẹ tôi' },
-        { id: 6, char: '这是我爱人', pinyin: 'zhè shì wǒ àirén', vi: 'Đây là vợ/chồng tôi' },
-        { id: 7, char: '她漂亮极了', pinyin: 'tā piàoliang jíle', vi: 'Cô ấy đẹp cực kỳ' },
-        { id: 8, char: '这是我们的女儿', pinyin: 'zhè shì wǒmen de nǚ\'ér', vi: 'Đây là con gái chúng tôi' },
-        { id: 9, char: '她很聪明也很可爱', pinyin: 'tā hěn cōngming yě hěn kě\'ài', vi: 'Bé rất thông minh và đáng yêu' },
-        { id: 10, char: '你们看这是我.很帅', pinyin: 'nǐmen kàn zhè shì wǒ. hěn shuài', vi: 'Các bạn xem. Đây là tôi. Rất đẹp trai' },
-        { id: 11, char: '这是什么', pinyin: 'zhè shì shénme', vi: 'Đây là cái gì?' },
-        { id: 12, char: '这是书', pinyin: 'zhè shì shū', vi: 'Đây là sách' },
-        { id: 13, char: '这是什么书', pinyin: 'zhè shì shénme shū', vi: 'Đây là sách gì?' },
-        { id: 14, char: '这是汉语书', pinyin: 'zhè shì Hànyǔ shū', vi: 'Đây là sách tiếng Hán' },
-        { id: 15, char: '这是你的书吗', pinyin: 'zhè shì nǐ de shū ma', vi: 'Đây là sách của bạn phải không?' },
-        { id: 16, char: '这不是我的书', pinyin: 'zhè bú shì wǒ de shū', vi: 'Đây không phải sách của tôi' },
-        { id: 17, char: '这是我朋友的书', pinyin: 'zhè shì wǒ péngyou de shū', vi: 'Đây là sách của bạn tôi' },
-        { id: 18, char: '这本书很新', pinyin: 'zhè běn shū hěn xīn', vi: 'Quyển sách này rất mới' },
-        { id: 19, char: '你是德国人吗', pinyin: 'nǐ shì Déguó rén ma', vi: 'Bạn là người Đức phải không?' },
-        { id: 20, char: '我不是德国人', pinyin: 'wǒ bú shì Déguó rén', vi: 'Tôi không phải người Đức' },
-        { id: 21, char: '我是越南人', pinyin: 'wǒ shì Yuènán rén', vi: 'Tôi là người Việt Nam' },
-        { id: 22, char: '你学习什么', pinyin: 'nǐ xuéxí shénme', vi: 'Bạn học gì?' },
-        { id: 23, char: '我学习汉语', pinyin: 'wǒ xuéxí Hànyǔ', vi: 'Tôi học tiếng Hán' },
-        { id: 24, char: '你学习好吗', pinyin: 'nǐ xuéxí hǎo ma', vi: 'Bạn học tốt không?' },
-        { id: 25, char: '我学习很好', pinyin: 'wǒ xuéxí hěn hǎo', vi: 'Tôi học rất tốt' },
-        { id: 26, char: '她是你姐姐吗', pinyin: 'tā shì nǐ jiějie ma', vi: 'Cô ấy là chị bạn à?' },
-        { id: 27, char: '她不是我姐姐', pinyin: 'tā bú shì wǒ jiějie', vi: 'Cô ấy không phải chị tôi' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '你们好', pinyin: '', vi: '' },
-      { id: 2, char: '很高兴认识你们', pinyin: '', vi: '' },
-      { id: 3, char: '我来介绍一下儿', pinyin: '', vi: '' },
-      { id: 4, char: '这是我爸爸', pinyin: '', vi: '' },
-      { id: 5, char: '这是我妈妈', pinyin: '', vi: '' },
-      { id: 6, char: '这是我爱人', pinyin: '', vi: '' },
-      { id: 7, char: '她漂亮极了', pinyin: '', vi: '' },
-      { id: 8, char: '这是我们的女儿', pinyin: '', vi: '' },
-      { id: 9, char: '她很聪明也很可爱', pinyin: '', vi: '' },
-      { id: 10, char: '你们看', pinyin: '', vi: '' },
-      { id: 11, char: '这是我很帅', pinyin: '', vi: '' },
-      { id: 12, char: '这是什么', pinyin: '', vi: '' },
-      { id: 13, char: '这是书', pinyin: '', vi: '' },
-      { id: 14, char: '这是什么书', pinyin: '', vi: '' },
-      { id: 15, char: '这是汉语书', pinyin: '', vi: '' },
-      { id: 16, char: '这是你的书吗', pinyin: '', vi: '' },
-      { id: 17, char: '这不是我的书', pinyin: '', vi: '' },
-      { id: 18, char: '这是我朋友的书', pinyin: '', vi: '' },
-      { id: 19, char: '这本书很新', pinyin: '', vi: '' },
-      { id: 20, char: '你是德国人吗', pinyin: '', vi: '' },
-      { id: 21, char: '我不是德国人', pinyin: '', vi: '' },
-      { id: 22, char: '我是越南人', pinyin: '', vi: '' },
-      { id: 23, char: '你学习什么', pinyin: '', vi: '' },
-      { id: 24, char: '我学习汉语', pinyin: '', vi: '' },
-      { id: 25, char: '你学习好吗', pinyin: '', vi: '' },
-      { id: 26, char: '我学习很好', pinyin: '', vi: '' },
-      { id: 27, char: '她是你姐姐吗', pinyin: '', vi: '' },
-      { id: 28, char: '她不是我姐姐', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 22': {
-    'Từ mới': [
-      { id: 1, char: '最近', pinyin: 'zuìjìn', vi: 'gần đây' },
-      { id: 2, char: '身体', pinyin: 'shēntǐ', vi: 'sức khỏe, cơ thể' },
-      { id: 3, char: '比较', pinyin: 'bǐjiào', vi: 'tương đối, khá' },
-      { id: 4, char: '成绩', pinyin: 'chéngjì', vi: 'thành tích' },
-      { id: 5, char: '马马虎虎', pinyin: 'mǎmǎhūhū', vi: 'tàm tạm, bình thường' },
-      { id: 6, char: '努力', pinyin: 'nǔlì', vi: 'nỗ lực, cố gắng' },
-      { id: 7, char: '非常', pinyin: 'fēicháng', vi: 'vô cùng, rất' },
-      { id: 8, char: '太', pinyin: 'tài', vi: 'quá, lắm' },
-      { id: 9, char: '里', pinyin: 'lǐ', vi: 'trong' },
-      { id: 10, char: '有', pinyin: 'yǒu', vi: 'có' },
-      { id: 11, char: '没(有)', pinyin: 'méi(yǒu)', vi: 'không có' },
-      { id: 12, char: '空调', pinyin: 'kōngtiáo', vi: 'điều hòa' },
-      { id: 13, char: '同屋', pinyin: 'tóngwū', vi: 'bạn cùng phòng' },
-      { id: 14, char: '离', pinyin: 'lí', vi: 'cách' },
-      { id: 15, char: '远', pinyin: 'yuǎn', vi: 'xa' },
-      { id: 16, char: '近', pinyin: 'jìn', vi: 'gần' },
-      { id: 17, char: '学校', pinyin: 'xuéxiào', vi: 'trường học' },
-      { id: 18, char: '多', pinyin: 'duō', vi: 'nhiều' },
-      { id: 19, char: '挺', pinyin: 'tǐng', vi: 'rất, khá' },
-      { id: 20, char: '怎么样', pinyin: 'zěnmeyàng', vi: 'thế nào' },
-      { id: 21, char: '不错', pinyin: 'búcuò', vi: 'không tồi, tốt' },
-      { id: 22, char: '头发', pinyin: 'tóufa', vi: 'tóc' },
-      { id: 23, char: '长', pinyin: 'cháng', vi: 'dài' },
-      { id: 24, char: '眼睛', pinyin: 'yǎnjing', vi: 'mắt' },
-      { id: 25, char: '个子', pinyin: 'gèzi', vi: 'vóc dáng' },
-      { id: 26, char: '高', pinyin: 'gāo', vi: 'cao' },
-      { id: 27, char: '电视', pinyin: 'diànshì', vi: 'tivi' },
-      { id: 28, char: '中国', pinyin: 'Zhōngguó', vi: 'Trung Quốc' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '最近', pinyin: 'zuìjìn', vi: 'gần đây' },
-      { id: 2, char: '身体', pinyin: 'shēntǐ', vi: 'sức khỏe, cơ thể' },
-      { id: 3, char: '比较', pinyin: 'bǐjiào', vi: 'tương đối, khá' },
-      { id: 4, char: '成绩', pinyin: 'chéngjì', vi: 'thành tích' },
-      { id: 5, char: '马马虎虎', pinyin: 'mǎmǎhūhū', vi: 'tàm tạm, bình thường' },
-      { id: 6, char: '努力', pinyin: 'nǔlì', vi: 'nỗ lực, cố gắng' },
-      { id: 7, char: '非常', pinyin: 'fēicháng', vi: 'vô cùng, rất' },
-      { id: 8, char: '太', pinyin: 'tài', vi: 'quá, lắm' },
-      { id: 9, char: '里', pinyin: 'lǐ', vi: 'trong' },
-      { id: 10, char: '有', pinyin: 'yǒu', vi: 'có' },
-      { id: 11, char: '没(有)', pinyin: 'méi(yǒu)', vi: 'không có' },
-      { id: 12, char: '空调', pinyin: 'kōngtiáo', vi: 'điều hòa' },
-      { id: 13, char: '同屋', pinyin: 'tóngwū', vi: 'bạn cùng phòng' },
-      { id: 14, char: '离', pinyin: 'lí', vi: 'cách' },
-      { id: 15, char: '远', pinyin: 'yuǎn', vi: 'xa' },
-      { id: 16, char: '近', pinyin: 'jìn', vi: 'gần' },
-      { id: 17, char: '学校', pinyin: 'xuéxiào', vi: 'trường học' },
-      { id: 18, char: '多', pinyin: 'duō', vi: 'nhiều' },
-      { id: 19, char: '挺', pinyin: 'tǐng', vi: 'rất, khá' },
-      { id: 20, char: '怎么样', pinyin: 'zěnmeyàng', vi: 'thế nào' },
-      { id: 21, char: '不错', pinyin: 'búcuò', vi: 'không tồi, tốt' },
-      { id: 22, char: '头发', pinyin: 'tóufa', vi: 'tóc' },
-      { id: 23, char: '长', pinyin: 'cháng', vi: 'dài' },
-      { id: 24, char: '眼睛', pinyin: 'yǎnjing', vi: 'mắt' },
-      { id: 25, char: '个子', pinyin: 'gèzi', vi: 'vóc dáng' },
-      { id: 26, char: '高', pinyin: 'gāo', vi: 'cao' },
-      { id: 27, char: '电视', pinyin: 'diànshì', vi: 'tivi' },
-      { id: 28, char: '中国', pinyin: 'Zhōngguó', vi: 'Trung Quốc' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '最近你身体好吗', pinyin: 'zuìjìn nǐ shēntǐ hǎo ma', vi: 'Gần đây sức khỏe bạn tốt không?' },
-        { id: 2, char: '我身体很好', pinyin: 'wǒ shēntǐ hěn hǎo', vi: 'Sức khỏe tôi rất tốt' },
-        { id: 3, char: '你学习忙吗', pinyin: 'nǐ xuéxí máng ma', vi: 'Việc học của bạn có bận không?' },
-        { id: 4, char: '我学习比较忙', pinyin: 'wǒ xuéxí bǐjiào máng', vi: 'Việc học của tôi khá bận' },
-        { id: 5, char: '你成绩好吗', pinyin: 'nǐ chéngjì hǎo ma', vi: 'Thành tích của bạn tốt không?' },
-        { id: 6, char: '马马虎虎', pinyin: 'mǎmǎhūhū', vi: 'Tàm tạm thôi' },
-        { id: 7, char: '你们班同学学习努力吗', pinyin: 'nǐmen bān tóngxué xuéxí nǔlì ma', vi: 'Bạn cùng lớp bạn học có chăm không?' },
-        { id: 8, char: '他们学习非常努力', pinyin: 'tāmen xuéxí fēicháng nǔlì', vi: 'Họ học vô cùng chăm chỉ' },
-        { id: 9, char: '你的宿舍大不大', pinyin: 'nǐ de sùshè dà bu dà', vi: 'Ký túc xá của bạn có to không?' },
-        { id: 10, char: '我的宿舍不太大', pinyin: 'wǒ de sùshè bú tài dà', vi: 'Ký túc xá của tôi không to lắm' },
-        { id: 11, char: '宿舍里有没有空调', pinyin: 'sùshè lǐ yǒu méiyǒu kōngtiáo', vi: 'Trong ký túc xá có điều hòa không?' },
-        { id: 12, char: '宿舍里有空调', pinyin: 'sùshè lǐ yǒu kōngtiáo', vi: 'Trong ký túc xá có điều hòa' },
-        { id: 13, char: '你有没有同屋', pinyin: 'nǐ yǒu méiyǒu tóngwū', vi: 'Bạn có bạn cùng phòng không?' },
-        { id: 14, char: '我没有同屋', pinyin: 'wǒ méiyǒu tóngwū', vi: 'Tôi không có bạn cùng phòng' },
-        { id: 15, char: '你的宿舍离教室远不远', pinyin: 'nǐ de sùshè lí jiàoshì yuǎn bu yuǎn', vi: 'Ký túc xá bạn cách lớp có xa không?' },
-        { id: 16, char: '我的宿舍离教室很近', pinyin: 'wǒ de sùshè lí jiàoshì hěn jìn', vi: 'Ký túc xá tôi rất gần lớp học' },
-        { id: 17, char: '你们学校学生多不多', pinyin: 'nǐmen xuéxiào xuésheng duō bu duō', vi: 'Trường bạn có đông học sinh không?' },
-        { id: 18, char: '我们学校留学生挺多的', pinyin: 'wǒmen xuéxiào liúxuéshēng tǐng duō de', vi: 'Trường chúng tôi khá đông lưu học sinh' },
-        { id: 19, char: '你们学校食堂怎么样', pinyin: 'nǐmen xuéxiào shítáng zěnmeyàng', vi: 'Nhà ăn trường bạn thế nào?' },
-        { id: 20, char: '我们学校食堂不错', pinyin: 'wǒmen xuéxiào shítáng búcuò', vi: 'Nhà ăn trường chúng tôi cũng được' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '最近你身体好吗', pinyin: '', vi: '' },
-      { id: 2, char: '我身体很好', pinyin: '', vi: '' },
-      { id: 3, char: '你学习忙吗', pinyin: '', vi: '' },
-      { id: 4, char: '我学习比较忙', pinyin: '', vi: '' },
-      { id: 5, char: '你成绩好吗', pinyin: '', vi: '' },
-      { id: 6, char: '马马虎虎', pinyin: '', vi: '' },
-      { id: 7, char: '你们班同学学习努力吗', pinyin: '', vi: '' },
-      { id: 8, char: '他们学习非常努力', pinyin: '', vi: '' },
-      { id: 9, char: '你的宿舍大不大', pinyin: '', vi: '' },
-      { id: 10, char: '我的宿舍不太大', pinyin: '', vi: '' },
-      { id: 11, char: '宿舍里有没有空调', pinyin: '', vi: '' },
-      { id: 12, char: '宿舍里有空调', pinyin: '', vi: '' },
-      { id: 13, char: '你有没有同屋', pinyin: '', vi: '' },
-      { id: 14, char: '我没有同屋', pinyin: '', vi: '' },
-      { id: 15, char: '你的宿舍离教室远不远', pinyin: '', vi: '' },
-      { id: 16, char: '我的宿舍离教室很近', pinyin: '', vi: '' },
-      { id: 17, char: '你们学校学生多不多', pinyin: '', vi: '' },
-      { id: 18, char: '我们学校留学生挺多的', pinyin: '', vi: '' },
-      { id: 19, char: '你们学校食堂怎么样', pinyin: '', vi: '' },
-      { id: 20, char: '我们学校食堂不错', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 23': {
-    'Từ mới': [
-      { id: 1, char: '哪', pinyin: 'nǎ', vi: 'nào' },
-      { id: 2, char: '国', pinyin: 'guó', vi: 'nước, quốc gia' },
-      { id: 3, char: '叫', pinyin: 'jiào', vi: 'gọi là, tên là' },
-      { id: 4, char: '名字', pinyin: 'míngzi', vi: 'tên' },
-      { id: 5, char: '贵', pinyin: 'guì', vi: 'quý' },
-      { id: 6, char: '姓', pinyin: 'xìng', vi: 'họ' },
-      { id: 7, char: '几', pinyin: 'jǐ', vi: 'mấy' },
-      { id: 8, char: '位', pinyin: 'wèi', vi: 'vị (lượng từ)' },
-      { id: 9, char: '教', pinyin: 'jiāo', vi: 'dạy' },
-      { id: 10, char: '住', pinyin: 'zhù', vi: 'sống, ở' },
-      { id: 11, char: '号', pinyin: 'hào', vi: 'số' },
-      { id: 12, char: '房间', pinyin: 'fángjiān', vi: 'phòng' },
-      { id: 13, char: '电话', pinyin: 'diànhuà', vi: 'điện thoại' },
-      { id: 14, char: '号码', pinyin: 'hàomǎ', vi: 'số, mã số' },
-      { id: 15, char: '每', pinyin: 'měi', vi: 'mỗi' },
-      { id: 16, char: '天', pinyin: 'tiān', vi: 'ngày' },
-      { id: 17, char: '下午', pinyin: 'xiàwǔ', vi: 'buổi chiều' },
-      { id: 18, char: '做', pinyin: 'zuò', vi: 'làm' },
-      { id: 19, char: '有时候', pinyin: 'yǒushíhou', vi: 'có lúc, thỉnh thoảng' },
-      { id: 20, char: '休息', pinyin: 'xiūxi', vi: 'nghỉ ngơi' },
-      { id: 21, char: '常常', pinyin: 'chángcháng', vi: 'thường xuyên' },
-      { id: 22, char: '跟', pinyin: 'gēn', vi: 'cùng, với' },
-      { id: 23, char: '谁', pinyin: 'shéi', vi: 'ai' },
-      { id: 24, char: '一起', pinyin: 'yìqǐ', vi: 'cùng nhau' },
-      { id: 25, char: '睡觉', pinyin: 'shuìjiào', vi: 'ngủ' },
-      { id: 26, char: '这儿', pinyin: 'zhèr', vi: 'ở đây' },
-      { id: 27, char: '晚上', pinyin: 'wǎnshang', vi: 'buổi tối' },
-      { id: 28, char: '王', pinyin: 'Wáng', vi: 'họ Vương' },
-      { id: 29, char: '北京语言文化大学', pinyin: 'Běijīng Yǔyán Wénhuà Dàxué', vi: 'Đại học Văn hóa và Ngôn ngữ Bắc Kinh' },
-      { id: 30, char: '小雨', pinyin: 'Xiǎoyǔ', vi: 'Tiểu Vũ' },
-      { id: 31, char: '张', pinyin: 'Zhāng', vi: 'họ Trương' },
-      { id: 32, char: '省', pinyin: 'shěng', vi: 'tỉnh' },
-      { id: 33, char: '北宁', pinyin: 'Běiníng', vi: 'Bắc Ninh' },
-      { id: 34, char: '海防', pinyin: 'Hǎifáng', vi: 'Hải Phòng' },
-      { id: 35, char: '河内', pinyin: 'Hénèi', vi: 'Hà Nội' },
-      { id: 36, char: '外语中心', pinyin: 'wàiyǔ zhōngxīn', vi: 'trung tâm ngoại ngữ' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '哪', pinyin: 'nǎ', vi: 'nào' },
-      { id: 2, char: '国', pinyin: 'guó', vi: 'nước, quốc gia' },
-      { id: 3, char: '叫', pinyin: 'jiào', vi: 'gọi là, tên là' },
-      { id: 4, char: '名字', pinyin: 'míngzi', vi: 'tên' },
-      { id: 5, char: '贵', pinyin: 'guì', vi: 'quý' },
-      { id: 6, char: '姓', pinyin: 'xìng', vi: 'họ' },
-      { id: 7, char: '几', pinyin: 'jǐ', vi: 'mấy' },
-      { id: 8, char: '位', pinyin: 'wèi', vi: 'vị (lượng từ)' },
-      { id: 9, char: '教', pinyin: 'jiāo', vi: 'dạy' },
-      { id: 10, char: '住', pinyin: 'zhù', vi: 'sống, ở' },
-      { id: 11, char: '号', pinyin: 'hào', vi: 'số' },
-      { id: 12, char: '房间', pinyin: 'fángjiān', vi: 'phòng' },
-      { id: 13, char: '电话', pinyin: 'diànhuà', vi: 'điện thoại' },
-      { id: 14, char: '号码', pinyin: 'hàomǎ', vi: 'số, mã số' },
-      { id: 15, char: '每', pinyin: 'měi', vi: 'mỗi' },
-      { id: 16, char: '天', pinyin: 'tiān', vi: 'ngày' },
-      { id: 17, char: '下午', pinyin: 'xiàwǔ', vi: 'buổi chiều' },
-      { id: 18, char: '做', pinyin: 'zuò', vi: 'làm' },
-      { id: 19, char: '有时候', pinyin: 'yǒushíhou', vi: 'có lúc, thỉnh thoảng' },
-      { id: 20, char: '休息', pinyin: 'xiūxi', vi: 'nghỉ ngơi' },
-      { id: 21, char: '常常', pinyin: 'chángcháng', vi: 'thường xuyên' },
-      { id: 22, char: '跟', pinyin: 'gēn', vi: 'cùng, với' },
-      { id: 23, char: '谁', pinyin: 'shéi', vi: 'ai' },
-      { id: 24, char: '一起', pinyin: 'yìqǐ', vi: 'cùng nhau' },
-      { id: 25, char: '睡觉', pinyin: 'shuìjiào', vi: 'ngủ' },
-      { id: 26, char: '这儿', pinyin: 'zhèr', vi: 'ở đây' },
-      { id: 27, char: '晚上', pinyin: 'wǎnshang', vi: 'buổi tối' },
-      { id: 28, char: '王', pinyin: 'Wáng', vi: 'họ Vương' },
-      { id: 29, char: '北京语言文化大学', pinyin: 'Běijīng Yǔyán Wénhuà Dàxué', vi: 'Đại học Văn hóa và Ngôn ngữ Bắc Kinh' },
-      { id: 30, char: '小雨', pinyin: 'Xiǎoyǔ', vi: 'Tiểu Vũ' },
-      { id: 31, char: '张', pinyin: 'Zhāng', vi: 'họ Trương' },
-      { id: 32, char: '省', pinyin: 'shěng', vi: 'tỉnh' },
-      { id: 33, char: '北宁', pinyin: 'Běiníng', vi: 'Bắc Ninh' },
-      { id: 34, char: '海防', pinyin: 'Hǎifáng', vi: 'Hải Phòng' },
-      { id: 35, char: '河内', pinyin: 'Hénèi', vi: 'Hà Nội' },
-      { id: 36, char: '外语中心', pinyin: 'wàiyǔ zhōngxīn', vi: 'trung tâm ngoại ngữ' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '你是哪国人', pinyin: 'nǐ shì nǎ guó rén', vi: 'Bạn là người nước nào?' },
-        { id: 2, char: '我是德国人', pinyin: 'wǒ shì Déguó rén', vi: 'Tôi là người Đức' },
-        { id: 3, char: '你叫什么名字', pinyin: 'nǐ jiào shénme míngzi', vi: 'Bạn tên là gì?' },
-        { id: 4, char: '我叫武德景', pinyin: 'wǒ jiào Wǔ Déjǐng', vi: 'Tôi tên là Vũ Đức Cảnh' },
-        { id: 5, char: '请问!您贵姓', pinyin: 'qǐngwèn! nín guì xìng', vi: 'Xin hỏi! Quý danh của ngài là gì?' },
-        { id: 6, char: '我姓王', pinyin: 'wǒ xìng Wáng', vi: 'Tôi họ Vương' },
-        { id: 7, char: '你学习什么', pinyin: 'nǐ xuéxí shénme', vi: 'Bạn học gì?' },
-        { id: 8, char: '我学习汉语', pinyin: 'wǒ xuéxí Hànyǔ', vi: 'Tôi học tiếng Hán' },
-        { id: 9, char: '你在哪儿学习汉语', pinyin: 'nǐ zài nǎr xuéxí Hànyǔ', vi: 'Bạn học tiếng Hán ở đâu?' },
-        { id: 10, char: '我在北海汉语中心学习汉语', pinyin: 'wǒ zài Běihǎi Hànyǔ Zhōngxīn xuéxí Hànyǔ', vi: 'Tôi học tiếng Hán ở Trung tâm tiếng Hán Bắc Hải' },
-        { id: 11, char: '你们班有多少学生', pinyin: 'nǐmen bān yǒu duōshao xuésheng', vi: 'Lớp các bạn có bao nhiêu học sinh?' },
-        { id: 12, char: '我们班有十五个学生', pinyin: 'wǒmen bān yǒu shíwǔ ge xuésheng', vi: 'Lớp chúng tôi có 15 học sinh' },
-        { id: 13, char: '几位老师教你们', pinyin: 'jǐ wèi lǎoshī jiāo nǐmen', vi: 'Có mấy giáo viên dạy các bạn?' },
-        { id: 14, char: '两位老师教我们', pinyin: 'liǎng wèi lǎoshī jiāo wǒmen', vi: 'Có hai giáo viên dạy chúng tôi' },
-        { id: 15, char: '你住哪儿', pinyin: 'nǐ zhù nǎr', vi: 'Bạn sống ở đâu?' },
-        { id: 16, char: '我住北宁', pinyin: 'wǒ zhù Běiníng', vi: 'Tôi sống ở Bắc Ninh' },
-        { id: 17, char: '你住几号楼', pinyin: 'nǐ zhù jǐ hào lóu', vi: 'Bạn ở tòa nhà số mấy?' },
-        { id: 18, char: '我住七号楼', pinyin: 'wǒ zhù qī hào lóu', vi: 'Tôi ở tòa nhà số 7' },
-        { id: 19, char: '你的房间是多少号', pinyin: 'nǐ de fángjiān shì duōshao hào', vi: 'Phòng của bạn số bao nhiêu?' },
-        { id: 20, char: '我的房间是109号', pinyin: 'wǒ de fángjiān shì 109 hào', vi: 'Phòng của tôi là số 109' },
-        { id: 21, char: '你的电话号码是多少', pinyin: 'nǐ de diànhuà hàomǎ shì duōshao', vi: 'Số điện thoại của bạn là bao nhiêu?' },
-        { id: 22, char: '我的电话号码是0972717006', pinyin: 'wǒ de diànhuà hàomǎ shì 0972717006', vi: 'Số điện thoại của tôi là 0972717006' },
-        { id: 23, char: '每天下午你做什么', pinyin: 'měi tiān xiàwǔ nǐ zuò shénme', vi: 'Mỗi buổi chiều bạn làm gì?' },
-        { id: 24, char: '有时候在宿舍休息', pinyin: 'yǒushíhou zài sùshè xiūxi', vi: 'Có lúc nghỉ ngơi ở ký túc xá' },
-        { id: 25, char: '有时候去图书馆学习', pinyin: 'yǒushíhou qù túshūguǎn xuéxí', vi: 'Có lúc đến thư viện học' },
-        { id: 26, char: '你跟谁一起学习', pinyin: 'nǐ gēn shéi yìqǐ xuéxí', vi: 'Bạn học cùng với ai?' },
-        { id: 27, char: '我跟我的中国朋友一起学习', pinyin: 'wǒ gēn wǒ de Zhōngguó péngyou yìqǐ xuéxí', vi: 'Tôi học cùng với bạn Trung Quốc của tôi' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '你是哪国人', pinyin: '', vi: '' },
-      { id: 2, char: '我是德国人', pinyin: '', vi: '' },
-      { id: 3, char: '你叫什么名字', pinyin: '', vi: '' },
-      { id: 4, char: '我叫武德景', pinyin: '', vi: '' },
-      { id: 5, char: '请问您贵姓', pinyin: '', vi: '' },
-      { id: 6, char: '我姓王', pinyin: '', vi: '' },
-      { id: 7, char: '你学习什么', pinyin: '', vi: '' },
-      { id: 8, char: '我学习汉语', pinyin: '', vi: '' },
-      { id: 9, char: '你在哪儿学习汉语', pinyin: '', vi: '' },
-      { id: 10, char: '我在北海汉语中心学习汉语', pinyin: '', vi: '' },
-      { id: 11, char: '你们班有多少学生', pinyin: '', vi: '' },
-      { id: 12, char: '我们班有十五个学生', pinyin: '', vi: '' },
-      { id: 13, char: '几位老师教你们', pinyin: '', vi: '' },
-      { id: 14, char: '两位老师教我们', pinyin: '', vi: '' },
-      { id: 15, char: '你住哪儿', pinyin: '', vi: '' },
-      { id: 16, char: '我住北宁', pinyin: '', vi: '' },
-      { id: 17, char: '你住几号楼', pinyin: '', vi: '' },
-      { id: 18, char: '我住七号楼', pinyin: '', vi: '' },
-      { id: 19, char: '你的房间是多少号', pinyin: '', vi: '' },
-      { id: 20, char: '我的房间是109号', pinyin: '', vi: '' },
-      { id: 21, char: '你的电话号码是多少', pinyin: '', vi: '' },
-      { id: 22, char: '我的电话号码 是0972717006', pinyin: '', vi: '' },
-      { id: 23, char: '每天下午你做什么', pinyin: '', vi: '' },
-      { id: 24, char: '有时候在宿舍休息', pinyin: '', vi: '' },
-      { id: 25, char: '有时候去图书馆学习', pinyin: '', vi: '' },
-      { id: 26, char: '你跟谁一起学习', pinyin: '', vi: '' },
-      { id: 27, char: '我跟我的中国朋友一起学习', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 24': {
-    'Từ mới': [
-      { id: 1, char: '想', pinyin: 'xiǎng', vi: 'muốn, nhớ, nghĩ' },
-      { id: 2, char: '当然', pinyin: 'dāngrán', vi: 'đương nhiên' },
-      { id: 3, char: '家', pinyin: 'jiā', vi: 'nhà, gia đình' },
-      { id: 4, char: '口', pinyin: 'kǒu', vi: 'miệng, nhân khẩu' },
-      { id: 5, char: '兄弟', pinyin: 'xiōngdì', vi: 'anh em trai' },
-      { id: 6, char: '姐妹', pinyin: 'jiěmèi', vi: 'chị em gái' },
-      { id: 7, char: '独生女', pinyin: 'dúshēngnǚ', vi: 'con gái một' },
-      { id: 8, char: '工作', pinyin: 'gōngzuò', vi: 'công việc, làm việc' },
-      { id: 9, char: '父亲', pinyin: 'fùqīn', vi: 'cha, bố' },
-      { id: 10, char: '母亲', pinyin: 'mǔqīn', vi: 'mẹ' },
-      { id: 11, char: '医生', pinyin: 'yīshēng', vi: 'bác sĩ' },
-      { id: 12, char: '公司', pinyin: 'gōngsī', vi: 'công ty' },
-      { id: 13, char: '职员', pinyin: 'zhíyuán', vi: 'nhân viên' },
-      { id: 14, char: '记者', pinyin: 'jìzhě', vi: 'nhà báo, phóng viên' },
-      { id: 15, char: '名片', pinyin: 'míngpiàn', vi: 'danh thiếp' },
-      { id: 16, char: '父母', pinyin: 'fùmǔ', vi: 'bố mẹ' },
-      { id: 17, char: '今年', pinyin: 'jīnnián', vi: 'năm nay' },
-      { id: 18, char: '多', pinyin: 'duō', vi: 'bao nhiêu (tuổi)' },
-      { id: 19, char: '年纪', pinyin: 'niánjì', vi: 'tuổi tác' },
-      { id: 20, char: '岁', pinyin: 'suì', vi: 'tuổi' },
-      { id: 21, char: '秘密', pinyin: 'mìmì', vi: 'bí mật' },
-      { id: 22, char: '孩子', pinyin: 'háizi', vi: 'con, đứa trẻ' },
-      { id: 23, char: '儿子', pinyin: 'érzi', vi: 'con trai' },
-      { id: 24, char: '真', pinyin: 'zhēn', vi: 'thật, thật là' },
-      { id: 25, char: '售货员', pinyin: 'shòuhuòyuán', vi: 'nhân viên bán hàng' },
-      { id: 26, char: '经理', pinyin: 'jīnglǐ', vi: 'giám đốc' },
-      { id: 27, char: '司机', pinyin: 'sījī', vi: 'tài xế' },
-      { id: 28, char: '爷爷', pinyin: 'yéye', vi: 'ông nội' },
-      { id: 29, char: '奶奶', pinyin: 'nǎinai', vi: 'bà nội' },
-      { id: 30, char: '小叶', pinyin: 'Xiǎoyè', vi: 'Tiểu Diệp' },
-      { id: 31, char: '直美', pinyin: 'Zhíměi', vi: 'Naomi' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '想', pinyin: 'xiǎng', vi: 'muốn, nhớ, nghĩ' },
-      { id: 2, char: '当然', pinyin: 'dāngrán', vi: 'đương nhiên' },
-      { id: 3, char: '家', pinyin: 'jiā', vi: 'nhà, gia đình' },
-      { id: 4, char: '口', pinyin: 'kǒu', vi: 'miệng, nhân khẩu' },
-      { id: 5, char: '兄弟', pinyin: 'xiōngdì', vi: 'anh em trai' },
-      { id: 6, char: '姐妹', pinyin: 'jiěmèi', vi: 'chị em gái' },
-      { id: 7, char: '独生女', pinyin: 'dúshēngnǚ', vi: 'con gái một' },
-      { id: 8, char: '工作', pinyin: 'gōngzuò', vi: 'công việc, làm việc' },
-      { id: 9, char: '父亲', pinyin: 'fùqīn', vi: 'cha, bố' },
-      { id: 10, char: '母亲', pinyin: 'mǔqīn', vi: 'mẹ' },
-      { id: 11, char: '医生', pinyin: 'yīshēng', vi: 'bác sĩ' },
-      { id: 12, char: '公司', pinyin: 'gōngsī', vi: 'công ty' },
-      { id: 13, char: '职员', pinyin: 'zhíyuán', vi: 'nhân viên' },
-      { id: 14, char: '记者', pinyin: 'jìzhě', vi: 'nhà báo, phóng viên' },
-      { id: 15, char: '名片', pinyin: 'míngpiàn', vi: 'danh thiếp' },
-      { id: 16, char: '父母', pinyin: 'fùmǔ', vi: 'bố mẹ' },
-      { id: 17, char: '今年', pinyin: 'jīnnián', vi: 'năm nay' },
-      { id: 18, char: '多', pinyin: 'duō', vi: 'bao nhiêu (tuổi)' },
-      { id: 19, char: '年纪', pinyin: 'niánjì', vi: 'tuổi tác' },
-      { id: 20, char: '岁', pinyin: 'suì', vi: 'tuổi' },
-      { id: 21, char: '秘密', pinyin: 'mìmì', vi: 'bí mật' },
-      { id: 22, char: '孩子', pinyin: 'háizi', vi: 'con, đứa trẻ' },
-      { id: 23, char: '儿子', pinyin: 'érzi', vi: 'con trai' },
-      { id: 24, char: '真', pinyin: 'zhēn', vi: 'thật, thật là' },
-      { id: 25, char: '售货员', pinyin: 'shòuhuòyuán', vi: 'nhân viên bán hàng' },
-      { id: 26, char: '经理', pinyin: 'jīnglǐ', vi: 'giám đốc' },
-      { id: 27, char: '司机', pinyin: 'sījī', vi: 'tài xế' },
-      { id: 28, char: '爷爷', pinyin: 'yéye', vi: 'ông nội' },
-      { id: 29, char: '奶奶', pinyin: 'nǎinai', vi: 'bà nội' },
-      { id: 30, char: '小叶', pinyin: 'Xiǎoyè', vi: 'Tiểu Diệp' },
-      { id: 31, char: '直美', pinyin: 'Zhíměi', vi: 'Naomi' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '直美你想不想家', pinyin: 'Zhíměi nǐ xiǎng bu xiǎng jiā', vi: 'Trực Mỹ, bạn có nhớ nhà không?' },
-        { id: 2, char: '当然想', pinyin: 'dāngrán xiǎng', vi: 'Đương nhiên là nhớ' },
-        { id: 3, char: '你家有几口人', pinyin: 'nǐ jiā yǒu jǐ kǒu rén', vi: 'Nhà bạn có mấy người?' },
-        { id: 4, char: '我家有五口人', pinyin: 'wǒ jiā yǒu wǔ kǒu rén', vi: 'Nhà tôi có 5 người' },
-        { id: 5, char: '你家有什么人', pinyin: 'nǐ jiā yǒu shénme rén', vi: 'Nhà bạn có những ai?' },
-        { id: 6, char: '爸爸妈妈两个哥哥和我', pinyin: 'bàba māma liǎng ge gēge hé wǒ', vi: 'Bố, mẹ, hai anh trai và tôi' },
-        { id: 7, char: '你有没有兄弟姐妹', pinyin: 'nǐ yǒu méiyǒu xiōngdì jiěmèi', vi: 'Bạn có anh chị em không?' },
-        { id: 8, char: '我没有兄弟姐妹', pinyin: 'wǒ méiyǒu xiōngdì jiěmèi', vi: 'Tôi không có anh chị em' },
-        { id: 9, char: '我是独生女', pinyin: 'wǒ shì dúshēngnǚ', vi: 'Tôi là con gái một' },
-        { id: 10, char: '你父亲在哪儿工作', pinyin: 'nǐ fùqīn zài nǎr gōngzuò', vi: 'Bố bạn làm việc ở đâu?' },
-        { id: 11, char: '他在医院工作', pinyin: 'tā zài yīyuàn gōngzuò', vi: 'Ông ấy làm việc ở bệnh viện' },
-        { id: 12, char: '他是医生', pinyin: 'tā shì yīshēng', vi: 'Ông ấy là bác sĩ' },
-        { id: 13, char: '你母亲呢', pinyin: 'nǐ mǔqīn ne', vi: 'Còn mẹ bạn thì sao?' },
-        { id: 14, char: '她不工作', pinyin: 'tā bù gōngzuò', vi: 'Bà ấy không đi làm' },
-        { id: 15, char: '两个哥哥做什么工作', pinyin: 'liǎng ge gēge zuò shénme gōngzuò', vi: 'Hai anh trai bạn làm nghề gì?' },
-        { id: 16, char: '他们都是公司职员', pinyin: 'tāmen dōu shì gōngsī zhíyuán', vi: 'Họ đều là nhân viên công ty' },
-        { id: 17, char: '你是做什么工作的', pinyin: 'nǐ shì zuò shénme gōngzuò de', vi: 'Bạn làm nghề gì?' },
-        { id: 18, char: '我是记者', pinyin: 'wǒ shì jìzhě', vi: 'Tôi là nhà báo' },
-        { id: 19, char: '你在哪儿工作', pinyin: 'nǐ zài nǎr gōngzuò', vi: 'Bạn làm việc ở đâu?' },
-        { id: 20, char: '我在鸿海公司工作', pinyin: 'wǒ zài Hónghǎi gōngsī gōngzuò', vi: 'Tôi làm ở công ty Hồng Hải' },
-        { id: 21, char: '这是我的名片', pinyin: 'zhè shì wǒ de míngpiàn', vi: 'Đây là danh thiếp của tôi' },
-        { id: 22, char: '你父母今年多大年纪', pinyin: 'nǐ fùmǔ jīnnián duō dà niánjì', vi: 'Bố mẹ bạn năm nay bao nhiêu tuổi?' },
-        { id: 23, char: '我父亲今年六十岁', pinyin: 'wǒ fùqīn jīnnián liùshí suì', vi: 'Bố tôi năm nay 60 tuổi' },
-        { id: 24, char: '我母亲今年五十八', pinyin: 'wǒ mǔqīn jīnnián wǔshíbā', vi: 'Mẹ tôi năm nay 58' },
-        { id: 25, char: '你哥哥今年多大', pinyin: 'nǐ gēge jīnnián duō dà', vi: 'Anh trai bạn năm nay bao nhiêu tuổi?' },
-        { id: 26, char: '大哥三十二', pinyin: 'dàgē sānshí\'èr', vi: 'Anh cả 32' },
-        { id: 27, char: '二哥二十九', pinyin: 'èrgē èrshíjiǔ', vi: 'Anh hai 29' },
-        { id: 28, char: '你呢', pinyin: 'nǐ ne', vi: 'Còn bạn?' },
-        { id: 29, char: '这是秘密', pinyin: 'zhè shì mìmì', vi: 'Đây là bí mật' },
-        { id: 30, char: '这是谁的孩子', pinyin: 'zhè shì shéi de háizi', vi: 'Đây là con của ai?' },
-        { id: 31, char: '这是我大哥的儿子', pinyin: 'zhè shì wǒ dàgē de érzi', vi: 'Đây là con trai của anh cả tôi' },
-        { id: 32, char: '今年几岁', pinyin: 'jīnnián jǐ suì', vi: 'Năm nay mấy tuổi?' },
-        { id: 33, char: '今年五岁', pinyin: 'jīnnián wǔ suì', vi: 'Năm nay 5 tuổi' },
-        { id: 34, char: '这孩子真可爱', pinyin: 'zhè háizi zhēn kě\'ài', vi: 'Đứa bé này thật đáng yêu' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '直美你想不想家', pinyin: '', vi: '' },
-      { id: 2, char: '当然想', pinyin: '', vi: '' },
-      { id: 3, char: '你家有几口人', pinyin: '', vi: '' },
-      { id: 4, char: '我家有五口人', pinyin: '', vi: '' },
-      { id: 5, char: '你家有什么人', pinyin: '', vi: '' },
-      { id: 6, char: '爸爸妈妈两个哥哥和我', pinyin: '', vi: '' },
-      { id: 7, char: '你有没有兄弟姐妹', pinyin: '', vi: '' },
-      { id: 8, char: '我没有兄弟姐妹', pinyin: '', vi: '' },
-      { id: 9, char: '我是独生女', pinyin: '', vi: '' },
-      { id: 10, char: '你父亲在哪儿工作', pinyin: '', vi: '' },
-      { id: 11, char: '他在医院工作', pinyin: '', vi: '' },
-      { id: 12, char: '他是医生', pinyin: '', vi: '' },
-      { id: 13, char: '你母亲呢', pinyin: '', vi: '' },
-      { id: 14, char: '她不工作', pinyin: '', vi: '' },
-      { id: 15, char: '两个哥哥做什么工作', pinyin: '', vi: '' },
-      { id: 16, char: '他们都是公司职员', pinyin: '', vi: '' },
-      { id: 17, char: '你是做什么工作的', pinyin: '', vi: '' },
-      { id: 18, char: '我是记者', pinyin: '', vi: '' },
-      { id: 19, char: '你在哪儿工作', pinyin: '', vi: '' },
-      { id: 20, char: '我在鸿海公司工作', pinyin: '', vi: '' },
-      { id: 21, char: '这是我的名片', pinyin: '', vi: '' },
-      { id: 22, char: '你父母今年多大年纪', pinyin: '', vi: '' },
-      { id: 23, char: '我父亲今年六十岁', pinyin: '', vi: '' },
-      { id: 24, char: '我母亲今年五十八', pinyin: '', vi: '' },
-      { id: 25, char: '你哥哥今年多大', pinyin: '', vi: '' },
-      { id: 26, char: '大哥三十二', pinyin: '', vi: '' },
-      { id: 27, char: '二哥二十九', pinyin: '', vi: '' },
-      { id: 28, char: '你呢', pinyin: '', vi: '' },
-      { id: 29, char: '这是秘密', pinyin: '', vi: '' },
-      { id: 30, char: '这是谁的孩子', pinyin: '', vi: '' },
-      { id: 31, char: '这是我大哥的儿子', pinyin: '', vi: '' },
-      { id: 32, char: '今年几岁', pinyin: '', vi: '' },
-      { id: 33, char: '今年五岁', pinyin: '', vi: '' },
-      { id: 34, char: '这孩子真可爱', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 25': {
-    'Từ mới': [
-      { id: 1, char: '现在', pinyin: 'xiànzài', vi: 'bây giờ' },
-      { id: 2, char: '点', pinyin: 'diǎn', vi: 'giờ' },
-      { id: 3, char: '刻', pinyin: 'kè', vi: 'khắc (15 phút)' },
-      { id: 4, char: '早饭', pinyin: 'zǎofàn', vi: 'bữa sáng' },
-      { id: 5, char: '半', pinyin: 'bàn', vi: 'rưỡi, nửa' },
-      { id: 6, char: '时候', pinyin: 'shíhou', vi: 'lúc, khi' },
-      { id: 7, char: '上课', pinyin: 'shàngkè', vi: 'vào lớp' },
-      { id: 8, char: '从...到...', pinyin: 'cóng... dào...', vi: 'từ... đến...' },
-      { id: 9, char: '上午', pinyin: 'shàngwǔ', vi: 'buổi sáng' },
-      { id: 10, char: '今天', pinyin: 'jīntiān', vi: 'hôm nay' },
-      { id: 11, char: '月', pinyin: 'yuè', vi: 'tháng' },
-      { id: 12, char: '号', pinyin: 'hào', vi: 'ngày (văn nói)' },
-      { id: 13, char: '日', pinyin: 'rì', vi: 'ngày (văn viết)' },
-      { id: 14, char: '星期', pinyin: 'xīngqī', vi: 'tuần, thứ' },
-      { id: 15, char: '星期天', pinyin: 'xīngqītiān', vi: 'chủ nhật' },
-      { id: 16, char: '星期日', pinyin: 'xīngqīrì', vi: 'chủ nhật' },
-      { id: 17, char: '吧', pinyin: 'ba', vi: 'nhé, đi (trợ từ)' },
-      { id: 18, char: '咱们', pinyin: 'zánmen', vi: 'chúng ta' },
-      { id: 19, char: '啊', pinyin: 'a', vi: 'à, á (thán từ)' },
-      { id: 20, char: '出发', pinyin: 'chūfā', vi: 'xuất phát' },
-      { id: 21, char: '行', pinyin: 'xíng', vi: 'được, ok' },
-      { id: 22, char: '见面', pinyin: 'jiànmiàn', vi: 'gặp mặt' },
-      { id: 23, char: '差', pinyin: 'chà', vi: 'kém' },
-      { id: 24, char: '分', pinyin: 'fēn', vi: 'phút' },
-      { id: 25, char: '门口', pinyin: 'ménkǒu', vi: 'cổng' },
-      { id: 26, char: '等', pinyin: 'děng', vi: 'đợi' },
-      { id: 27, char: '早上', pinyin: 'zǎoshang', vi: 'buổi sáng' },
-      { id: 28, char: '起', pinyin: 'qǐ', vi: 'dậy, bắt đầu' },
-      { id: 29, char: '床', pinyin: 'chuáng', vi: 'giường' },
-      { id: 30, char: '下课', pinyin: 'xiàkè', vi: 'tan học' },
-      { id: 31, char: '午饭', pinyin: 'wǔfàn', vi: 'bữa trưa' },
-      { id: 32, char: '晚饭', pinyin: 'wǎnfàn', vi: 'bữa tối' },
-      { id: 33, char: '年', pinyin: 'nián', vi: 'năm' },
-      { id: 34, char: '大前天', pinyin: 'dàqiántiān', vi: 'hôm kìa' },
-      { id: 35, char: '前天', pinyin: 'qiántiān', vi: 'hôm kia' },
-      { id: 36, char: '昨天', pinyin: 'zuótiān', vi: 'hôm qua' },
-      { id: 37, char: '明天', pinyin: 'míngtiān', vi: 'ngày mai' },
-      { id: 38, char: '后天', pinyin: 'hòutiān', vi: 'ngày kia' },
-      { id: 39, char: '大后天', pinyin: 'dàhòutiān', vi: 'ngày kìa' },
-      { id: 40, char: '生日', pinyin: 'shēngrì', vi: 'sinh nhật' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '现在', pinyin: 'xiànzài', vi: 'bây giờ' },
-      { id: 2, char: '点', pinyin: 'diǎn', vi: 'giờ' },
-      { id: 3, char: '刻', pinyin: 'kè', vi: 'khắc (15 phút)' },
-      { id: 4, char: '早饭', pinyin: 'zǎofàn', vi: 'bữa sáng' },
-      { id: 5, char: '半', pinyin: 'bàn', vi: 'rưỡi, nửa' },
-      { id: 6, char: '时候', pinyin: 'shíhou', vi: 'lúc, khi' },
-      { id: 7, char: '上课', pinyin: 'shàngkè', vi: 'vào lớp' },
-      { id: 8, char: '从...到...', pinyin: 'cóng... dào...', vi: 'từ... đến...' },
-      { id: 9, char: '上午', pinyin: 'shàngwǔ', vi: 'buổi sáng' },
-      { id: 10, char: '今天', pinyin: 'jīntiān', vi: 'hôm nay' },
-      { id: 11, char: '月', pinyin: 'yuè', vi: 'tháng' },
-      { id: 12, char: '号', pinyin: 'hào', vi: 'ngày (văn nói)' },
-      { id: 13, char: '日', pinyin: 'rì', vi: 'ngày (văn viết)' },
-      { id: 14, char: '星期', pinyin: 'xīngqī', vi: 'tuần, thứ' },
-      { id: 15, char: '星期天', pinyin: 'xīngqītiān', vi: 'chủ nhật' },
-      { id: 16, char: '星期日', pinyin: 'xīngqīrì', vi: 'chủ nhật' },
-      { id: 17, char: '吧', pinyin: 'ba', vi: 'nhé, đi (trợ từ)' },
-      { id: 18, char: '咱们', pinyin: 'zánmen', vi: 'chúng ta' },
-      { id: 19, char: '啊', pinyin: 'a', vi: 'à, á (thán từ)' },
-      { id: 20, char: '出发', pinyin: 'chūfā', vi: 'xuất phát' },
-      { id: 21, char: '行', pinyin: 'xíng', vi: 'được, ok' },
-      { id: 22, char: '见面', pinyin: 'jiànmiàn', vi: 'gặp mặt' },
-      { id: 23, char: '差', pinyin: 'chà', vi: 'kém' },
-      { id: 24, char: '分', pinyin: 'fēn', vi: 'phút' },
-      { id: 25, char: '门口', pinyin: 'ménkǒu', vi: 'cổng' },
-      { id: 26, char: '等', pinyin: 'děng', vi: 'đợi' },
-      { id: 27, char: '早上', pinyin: 'zǎoshang', vi: 'buổi sáng' },
-      { id: 28, char: '起', pinyin: 'qǐ', vi: 'dậy, bắt đầu' },
-      { id: 29, char: '床', pinyin: 'chuáng', vi: 'giường' },
-      { id: 30, char: '下课', pinyin: 'xiàkè', vi: 'tan học' },
-      { id: 31, char: '午饭', pinyin: 'wǔfàn', vi: 'bữa trưa' },
-      { id: 32, char: '晚饭', pinyin: 'wǎnfàn', vi: 'bữa tối' },
-      { id: 33, char: '年', pinyin: 'nián', vi: 'năm' },
-      { id: 34, char: '大前天', pinyin: 'dàqiántiān', vi: 'hôm kìa' },
-      { id: 35, char: '前天', pinyin: 'qiántiān', vi: 'hôm kia' },
-      { id: 36, char: '昨天', pinyin: 'zuótiān', vi: 'hôm qua' },
-      { id: 37, char: '明天', pinyin: 'míngtiān', vi: 'ngày mai' },
-      { id: 38, char: '后天', pinyin: 'hòutiān', vi: 'ngày kia' },
-      { id: 39, char: '大后天', pinyin: 'dàhòutiān', vi: 'ngày kìa' },
-      { id: 40, char: '生日', pinyin: 'shēngrì', vi: 'sinh nhật' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '现在几点', pinyin: 'xiànzài jǐ diǎn', vi: 'Bây giờ mấy giờ?' },
-        { id: 2, char: '现在七点一刻', pinyin: 'xiànzài qī diǎn yí kè', vi: 'Bây giờ 7 giờ 15' },
-        { id: 3, char: '你几点吃早饭', pinyin: 'nǐ jǐ diǎn chī zǎofàn', vi: 'Bạn ăn sáng lúc mấy giờ?' },
-        { id: 4, char: '我七点半吃早饭', pinyin: 'wǒ qī diǎn bàn chī zǎofàn', vi: 'Tôi ăn sáng lúc 7 rưỡi' },
-        { id: 5, char: '你什么时候上课', pinyin: 'nǐ shénme shíhou shàngkè', vi: 'Khi nào bạn vào lớp?' },
-        { id: 6, char: '我从上午八点到十二点上课', pinyin: 'wǒ cóng shàngwǔ bā diǎn dào shí\'èr diǎn shàngkè', vi: 'Tôi vào lớp từ 8 giờ đến 12 giờ sáng' },
-        { id: 7, char: '今天几号', pinyin: 'jīntiān jǐ hào', vi: 'Hôm nay ngày mấy?' },
-        { id: 8, char: '今天二十八号', pinyin: 'jīntiān èrshíbā hào', vi: 'Hôm nay ngày 28' },
-        { id: 9, char: '二十八天', pinyin: 'èrshíbā tiān', vi: 'Hai mươi tám ngày' },
-        { id: 10, char: '八月', pinyin: 'bā yuè', vi: 'Tháng tám' },
-        { id: 11, char: '八个月', pinyin: 'bā ge yuè', vi: 'Tám tháng' },
-        { id: 12, char: '今天星期几', pinyin: 'jīntiān xīngqī jǐ', vi: 'Hôm nay thứ mấy?' },
-        { id: 13, char: '今天星期三', pinyin: 'jīntiān xīngqī sān', vi: 'Hôm nay thứ tư' },
-        { id: 14, char: '二十五号是星期天吧', pinyin: 'èrshíwǔ hào shì xīngqītiān ba', vi: 'Ngày 25 là chủ nhật nhỉ?' },
-        { id: 15, char: '二十五号不是星期天', pinyin: 'èrshíwǔ hào bú shì xīngqītiān', vi: 'Ngày 25 không phải chủ nhật' },
-        { id: 16, char: '是星期六', pinyin: 'shì xīngqī liù', vi: 'Là thứ bảy' },
-        { id: 17, char: '星期天咱们去颐和园怎么样', pinyin: 'xīngqītiān zánmen qù Yíhéyuán zěnmeyàng', vi: 'Chủ nhật chúng ta đi Di Hòa Viên nhé?' },
-        { id: 18, char: '好啊.什么时候出发', pinyin: 'hǎo a. shénme shíhou chūfā', vi: 'Được thôi. Khi nào xuất phát?' },
-        { id: 19, char: '上午九点行吗', pinyin: 'shàngwǔ jiǔ diǎn xíng ma', vi: '9 giờ sáng được không?' },
-        { id: 20, char: '行.咱们几点见面', pinyin: 'xíng. zánmen jǐ diǎn jiànmiàn', vi: 'Được. Chúng ta mấy giờ gặp nhau?' },
-        { id: 21, char: '差五分九点', pinyin: 'chà wǔ fēn jiǔ diǎn', vi: '9 giờ kém 5' },
-        { id: 22, char: '咱们在哪儿见面', pinyin: 'zánmen zài nǎr jiànmiàn', vi: 'Chúng ta gặp nhau ở đâu?' },
-        { id: 23, char: '我在学校门口等你', pinyin: 'wǒ zài xuéxiào ménkǒu děng nǐ', vi: 'Tôi ở cổng trường đợi bạn' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '现在几点', pinyin: '', vi: '' },
-      { id: 2, char: '现在七点一刻', pinyin: '', vi: '' },
-      { id: 3, char: '你几点 吃早饭', pinyin: '', vi: '' },
-      { id: 4, char: '我七点半吃早饭', pinyin: '', vi: '' },
-      { id: 5, char: '你什么时候上课', pinyin: '', vi: '' },
-      { id: 6, char: '我从上午八点到十二点上课', pinyin: '', vi: '' },
-      { id: 7, char: '今天几号', pinyin: '', vi: '' },
-      { id: 8, char: '今天二十八号', pinyin: '', vi: '' },
-      { id: 9, char: '二十八天', pinyin: '', vi: '' },
-      { id: 10, char: '八月', pinyin: '', vi: '' },
-      { id: 11, char: '八个月', pinyin: '', vi: '' },
-      { id: 12, char: '今天星期几', pinyin: '', vi: '' },
-      { id: 13, char: '今天星期三', pinyin: '', vi: '' },
-      { id: 14, char: '二十五号是星期天吧', pinyin: '', vi: '' },
-      { id: 15, char: '二十五号不是星期天', pinyin: '', vi: '' },
-      { id: 16, char: '是星期六', pinyin: '', vi: '' },
-      { id: 17, char: '星期天咱们去颐和园怎么样', pinyin: '', vi: '' },
-      { id: 18, char: '好啊.什么时候出发', pinyin: '', vi: '' },
-      { id: 19, char: '上午九点行吗', pinyin: '', vi: '' },
-      { id: 20, char: '咱们几点见面', pinyin: '', vi: '' },
-      { id: 21, char: '差五分九点', pinyin: '', vi: '' },
-      { id: 22, char: '咱们在哪儿见面', pinyin: '', vi: '' },
-      { id: 23, char: '我在学校门口等你', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 26': {
-    'Từ mới': [
-      { id: 1, char: '里边', pinyin: 'lǐbian', vi: 'bên trong' },
-      { id: 2, char: '教学楼', pinyin: 'jiàoxuélóu', vi: 'tòa nhà giảng đường' },
-      { id: 3, char: '办公楼', pinyin: 'bàngōnglóu', vi: 'tòa nhà văn phòng' },
-      { id: 4, char: '北边', pinyin: 'běibian', vi: 'phía bắc' },
-      { id: 5, char: '西边', pinyin: 'xībian', vi: 'phía tây' },
-      { id: 6, char: '南边', pinyin: 'nánbian', vi: 'phía nam' },
-      { id: 7, char: '附近', pinyin: 'fùjìn', vi: 'gần đây, lân cận' },
-      { id: 8, char: '饭馆儿', pinyin: 'fànguǎnr', vi: 'quán cơm' },
-      { id: 9, char: '东边', pinyin: 'dōngbian', vi: 'phía đông' },
-      { id: 10, char: '还', pinyin: 'hái', vi: 'vẫn, còn' },
-      { id: 11, char: '电影', pinyin: 'diànyǐng', vi: 'phim, điện ảnh' },
-      { id: 12, char: '电影院', pinyin: 'diànyǐngyuàn', vi: 'rạp chiếu phim' },
-      { id: 13, char: '对面', pinyin: 'duìmiàn', vi: 'đối diện' },
-      { id: 14, char: '药', pinyin: 'yào', vi: 'thuốc' },
-      { id: 15, char: '旁边', pinyin: 'pángbiān', vi: 'bên cạnh' },
-      { id: 16, char: '茶叶', pinyin: 'cháyè', vi: 'lá trà' },
-      { id: 17, char: '们', pinyin: 'men', vi: 'các, chúng (hậu tố)' },
-      { id: 18, char: '照片', pinyin: 'zhàopiàn', vi: 'ảnh, bức ảnh' },
-      { id: 19, char: '左边', pinyin: 'zuǒbian', vi: 'bên trái' },
-      { id: 20, char: '右边', pinyin: 'yòubian', vi: 'bên phải' },
-      { id: 21, char: '中间', pinyin: 'zhōngjiān', vi: 'ở giữa' },
-      { id: 22, char: '后边', pinyin: 'hòubian', vi: 'phía sau' },
-      { id: 23, char: '桌子', pinyin: 'zhuōzi', vi: 'cái bàn' },
-      { id: 24, char: '上边', pinyin: 'shàngbian', vi: 'bên trên' },
-      { id: 25, char: '台灯', pinyin: 'táidēng', vi: 'đèn bàn' },
-      { id: 26, char: '张', pinyin: 'zhāng', vi: 'tờ, tấm (lượng từ)' },
-      { id: 27, char: '男', pinyin: 'nán', vi: 'nam' },
-      { id: 28, char: '男朋友', pinyin: 'nánpéngyou', vi: 'bạn trai' },
-      { id: 29, char: '下边', pinyin: 'xiàbian', vi: 'bên dưới' },
-      { id: 30, char: '抽屉', pinyin: 'chōuti', vi: 'ngăn kéo' },
-      { id: 31, char: '块', pinyin: 'kuài', vi: 'miếng, cục' },
-      { id: 32, char: '巧克力', pinyin: 'qiǎokèlì', vi: 'sô cô la' },
-      { id: 33, char: '前边', pinyin: 'qiánbian', vi: 'phía trước' },
-      { id: 34, char: '鞋', pinyin: 'xié', vi: 'giày' },
-      { id: 35, char: '眼镜', pinyin: 'yǎnjìng', vi: 'kính mắt' },
-      { id: 36, char: '闹钟', pinyin: 'nàozhōng', vi: 'đồng hồ báo thức' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '里边', pinyin: 'lǐbian', vi: 'bên trong' },
-      { id: 2, char: '教学楼', pinyin: 'jiàoxuélóu', vi: 'tòa nhà giảng đường' },
-      { id: 3, char: '办公楼', pinyin: 'bàngōnglóu', vi: 'tòa nhà văn phòng' },
-      { id: 4, char: '北边', pinyin: 'běibian', vi: 'phía bắc' },
-      { id: 5, char: '西边', pinyin: 'xībian', vi: 'phía tây' },
-      { id: 6, char: '南边', pinyin: 'nánbian', vi: 'phía nam' },
-      { id: 7, char: '附近', pinyin: 'fùjìn', vi: 'gần đây, lân cận' },
-      { id: 8, char: '饭馆儿', pinyin: 'fànguǎnr', vi: 'quán cơm' },
-      { id: 9, char: '东边', pinyin: 'dōngbian', vi: 'phía đông' },
-      { id: 10, char: '还', pinyin: 'hái', vi: 'vẫn, còn' },
-      { id: 11, char: '电影', pinyin: 'diànyǐng', vi: 'phim, điện ảnh' },
-      { id: 12, char: '电影院', pinyin: 'diànyǐngyuàn', vi: 'rạp chiếu phim' },
-      { id: 13, char: '对面', pinyin: 'duìmiàn', vi: 'đối diện' },
-      { id: 14, char: '药', pinyin: 'yào', vi: 'thuốc' },
-      { id: 15, char: '旁边', pinyin: 'pángbiān', vi: 'bên cạnh' },
-      { id: 16, char: '茶叶', pinyin: 'cháyè', vi: 'lá trà' },
-      { id: 17, char: '们', pinyin: 'men', vi: 'các, chúng (hậu tố)' },
-      { id: 18, char: '照片', pinyin: 'zhàopiàn', vi: 'ảnh, bức ảnh' },
-      { id: 19, char: '左边', pinyin: 'zuǒbian', vi: 'bên trái' },
-      { id: 20, char: '右边', pinyin: 'yòubian', vi: 'bên phải' },
-      { id: 21, char: '中间', pinyin: 'zhōngjiān', vi: 'ở giữa' },
-      { id: 22, char: '后边', pinyin: 'hòubian', vi: 'phía sau' },
-      { id: 23, char: '桌子', pinyin: 'zhuōzi', vi: 'cái bàn' },
-      { id: 24, char: '上边', pinyin: 'shàngbian', vi: 'bên trên' },
-      { id: 25, char: '台灯', pinyin: 'táidēng', vi: 'đèn bàn' },
-      { id: 26, char: '张', pinyin: 'zhāng', vi: 'tờ, tấm (lượng từ)' },
-      { id: 27, char: '男', pinyin: 'nán', vi: 'nam' },
-      { id: 28, char: '男朋友', pinyin: 'nánpéngyou', vi: 'bạn trai' },
-      { id: 29, char: '下边', pinyin: 'xiàbian', vi: 'bên dưới' },
-      { id: 30, char: '抽屉', pinyin: 'chōuti', vi: 'ngăn kéo' },
-      { id: 31, char: '块', pinyin: 'kuài', vi: 'miếng, cục' },
-      { id: 32, char: '巧克力', pinyin: 'qiǎokèlì', vi: 'sô cô la' },
-      { id: 33, char: '前边', pinyin: 'qiánbian', vi: 'phía trước' },
-      { id: 34, char: '鞋', pinyin: 'xié', vi: 'giày' },
-      { id: 35, char: '眼镜', pinyin: 'yǎnjìng', vi: 'kính mắt' },
-      { id: 36, char: '闹钟', pinyin: 'nàozhōng', vi: 'đồng hồ báo thức' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '你左边是谁', pinyin: 'nǐ zuǒbian shì shéi', vi: 'Bên trái bạn là ai?' },
-        { id: 2, char: '我左边是我哥哥', pinyin: 'wǒ zuǒbian shì wǒ gēge', vi: 'Bên trái tôi là anh trai tôi' },
-        { id: 3, char: '你前边是什么', pinyin: 'nǐ qiánbian shì shénme', vi: 'Phía trước bạn là gì?' },
-        { id: 4, char: '我前边是桌子', pinyin: 'wǒ qiánbian shì zhuōzi', vi: 'Phía trước tôi là cái bàn' },
-        { id: 5, char: '桌子上边有什么', pinyin: 'zhuōzi shàngbian yǒu shénme', vi: 'Trên bàn có gì?' },
-        { id: 6, char: '桌子上边有两个笔和一本书', pinyin: 'zhuōzi shàngbian yǒu liǎng ge bǐ hé yì běn shū', vi: 'Trên bàn có hai cái bút và một quyển sách' },
-        { id: 7, char: '抽屉里有什么', pinyin: 'chōuti lǐ yǒu shénme', vi: 'Trong ngăn kéo có gì?' },
-        { id: 8, char: '抽屉里有一块巧克力', pinyin: 'chōuti lǐ yǒu yí kuài qiǎokèlì', vi: 'Trong ngăn kéo có một thanh sô cô la' },
-        { id: 9, char: '桌子下边是什么', pinyin: 'zhuōzi xiàbian shì shénme', vi: 'Dưới bàn là gì?' },
-        { id: 10, char: '桌子下边是一个书包', pinyin: 'zhuōzi xiàbian shì yí ge shūbāo', vi: 'Dưới bàn là một cái cặp sách' },
-        { id: 11, char: '你后边是你妹妹吗', pinyin: 'nǐ hòubian shì nǐ mèimei ma', vi: 'Phía sau bạn là em gái bạn à?' },
-        { id: 12, char: '我后边不是我妹妹', pinyin: 'wǒ hòubian bú shì wǒ mèimei', vi: 'Phía sau tôi không phải em gái tôi' },
-        { id: 13, char: '附近有药店吗', pinyin: 'fùjìn yǒu yàodiàn ma', vi: 'Gần đây có hiệu thuốc không?' },
-        { id: 14, char: '附近有药店', pinyin: 'fùjìn yǒu yàodiàn', vi: 'Gần đây có hiệu thuốc' },
-        { id: 15, char: '长海公司对面是银行', pinyin: 'Chánghǎi gōngsī duìmiàn shì yínháng', vi: 'Đối diện công ty Trường Hải là ngân hàng' },
-        { id: 16, char: '银行旁边是邮局', pinyin: 'yínháng pángbiān shì yóujú', vi: 'Bên cạnh ngân hàng là bưu điện' },
-        { id: 17, char: '邮局在银行和图书馆中间', pinyin: 'yóujú zài yínháng hé túshūguǎn zhōngjiān', vi: 'Bưu điện ở giữa ngân hàng và thư viện' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '你左边是谁', pinyin: '', vi: '' },
-      { id: 2, char: '我左边是我哥哥', pinyin: '', vi: '' },
-      { id: 3, char: '你前边是什么', pinyin: '', vi: '' },
-      { id: 4, char: '我前边是桌子', pinyin: '', vi: '' },
-      { id: 5, char: '桌子上边有什么', pinyin: '', vi: '' },
-      { id: 6, char: '桌子上边有两个笔和一本书', pinyin: '', vi: '' },
-      { id: 7, char: '抽屉里有什么', pinyin: '', vi: '' },
-      { id: 8, char: '抽屉里有一块巧克力', pinyin: '', vi: '' },
-      { id: 9, char: '桌子下边是什么', pinyin: '', vi: '' },
-      { id: 10, char: '桌子下边是一个书包', pinyin: '', vi: '' },
-      { id: 11, char: '你后边是你妹妹吗', pinyin: '', vi: '' },
-      { id: 12, char: '我后边不是我妹妹', pinyin: '', vi: '' },
-      { id: 13, char: '附近有药店吗', pinyin: '', vi: '' },
-      { id: 14, char: '附近有药店', pinyin: '', vi: '' },
-      { id: 15, char: '长海公司对面是银行', pinyin: '', vi: '' },
-      { id: 16, char: '银行旁边是邮局', pinyin: '', vi: '' },
-      { id: 17, char: '邮局在银行和图书馆中间', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 27': {
-    'Từ mới': [
-      { id: 1, char: '支', pinyin: 'zhī', vi: 'chiếc (lượng từ cho bút)' },
-      { id: 2, char: '圆珠笔', pinyin: 'yuánzhūbǐ', vi: 'bút bi' },
-      { id: 3, char: '红', pinyin: 'hóng', vi: 'màu đỏ' },
-      { id: 4, char: '还是', pinyin: 'háishi', vi: 'hay là, vẫn là' },
-      { id: 5, char: '蓝', pinyin: 'lán', vi: 'màu xanh lam' },
-      { id: 6, char: '一样', pinyin: 'yíyàng', vi: 'giống nhau' },
-      { id: 7, char: '别的', pinyin: 'biéde', vi: 'cái khác' },
-      { id: 8, char: '了', pinyin: 'le', vi: 'rồi, trợ từ' },
-      { id: 9, char: '卖', pinyin: 'mài', vi: 'bán' },
-      { id: 10, char: '再', pinyin: 'zài', vi: 'lại, thêm nữa' },
-      { id: 11, char: '听', pinyin: 'tīng', vi: 'nghe, lon (lượng từ)' },
-      { id: 12, char: '一共', pinyin: 'yígòng', vi: 'tổng cộng' },
-      { id: 13, char: '给', pinyin: 'gěi', vi: 'cho' },
-      { id: 14, char: '零钱', pinyin: 'língqián', vi: 'tiền lẻ' },
-      { id: 15, char: '找钱', pinyin: 'zhǎoqián', vi: 'thối tiền' },
-      { id: 16, char: '零', pinyin: 'líng', vi: 'số không' },
-      { id: 17, char: '数', pinyin: 'shǔ', vi: 'đếm' },
-      { id: 18, char: '橘子', pinyin: 'júzi', vi: 'quả quýt' },
-      { id: 19, char: '斤', pinyin: 'jīn', vi: 'cân (0.5kg)' },
-      { id: 20, char: '东西', pinyin: 'dōngxi', vi: 'đồ vật' },
-      { id: 21, char: '甜', pinyin: 'tián', vi: 'ngọt' },
-      { id: 22, char: '尝', pinyin: 'cháng', vi: 'nếm' },
-      { id: 23, char: '西红柿', pinyin: 'xīhóngshì', vi: 'cà chua' },
-      { id: 24, char: '怎么', pinyin: 'zěnme', vi: 'thế nào' },
-      { id: 25, char: '新鲜', pinyin: 'xīnxiān', vi: 'tươi, mới' },
-      { id: 26, char: '摘', pinyin: 'zhāi', vi: 'hái' },
-      { id: 27, char: '酸', pinyin: 'suān', vi: 'chua' },
-      { id: 28, char: '辆', pinyin: 'liàng', vi: 'chiếc (lượng từ xe)' },
-      { id: 29, char: '自行车', pinyin: 'zìxíngchē', vi: 'xe đạp' },
-      { id: 30, char: '铅笔', pinyin: 'qiānbǐ', vi: 'bút chì' },
-      { id: 31, char: '苹果', pinyin: 'píngguǒ', vi: 'quả táo' },
-      { id: 32, char: '凉', pinyin: 'liáng', vi: 'mát' },
-      { id: 33, char: '热', pinyin: 'rè', vi: 'nóng' },
-      { id: 34, char: '短', pinyin: 'duǎn', vi: 'ngắn' },
-      { id: 35, char: '青岛', pinyin: 'Qīngdǎo', vi: 'Thanh Đảo' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '支', pinyin: 'zhī', vi: 'chiếc (lượng từ cho bút)' },
-      { id: 2, char: '圆珠笔', pinyin: 'yuánzhūbǐ', vi: 'bút bi' },
-      { id: 3, char: '红', pinyin: 'hóng', vi: 'màu đỏ' },
-      { id: 4, char: '还是', pinyin: 'háishi', vi: 'hay là, vẫn là' },
-      { id: 5, char: '蓝', pinyin: 'lán', vi: 'màu xanh lam' },
-      { id: 6, char: '一样', pinyin: 'yíyàng', vi: 'giống nhau' },
-      { id: 7, char: '别的', pinyin: 'biéde', vi: 'cái khác' },
-      { id: 8, char: '了', pinyin: 'le', vi: 'rồi, trợ từ' },
-      { id: 9, char: '卖', pinyin: 'mài', vi: 'bán' },
-      { id: 10, char: '再', pinyin: 'zài', vi: 'lại, thêm nữa' },
-      { id: 11, char: '听', pinyin: 'tīng', vi: 'nghe, lon (lượng từ)' },
-      { id: 12, char: '一共', pinyin: 'yígòng', vi: 'tổng cộng' },
-      { id: 13, char: '给', pinyin: 'gěi', vi: 'cho' },
-      { id: 14, char: '零钱', pinyin: 'língqián', vi: 'tiền lẻ' },
-      { id: 15, char: '找钱', pinyin: 'zhǎoqián', vi: 'thối tiền' },
-      { id: 16, char: '零', pinyin: 'líng', vi: 'số không' },
-      { id: 17, char: '数', pinyin: 'shǔ', vi: 'đếm' },
-      { id: 18, char: '橘子', pinyin: 'júzi', vi: 'quả quýt' },
-      { id: 19, char: '斤', pinyin: 'jīn', vi: 'cân (0.5kg)' },
-      { id: 20, char: '东西', pinyin: 'dōngxi', vi: 'đồ vật' },
-      { id: 21, char: '甜', pinyin: 'tián', vi: 'ngọt' },
-      { id: 22, char: '尝', pinyin: 'cháng', vi: 'nếm' },
-      { id: 23, char: '西红柿', pinyin: 'xīhóngshì', vi: 'cà chua' },
-      { id: 24, char: '怎么', pinyin: 'zěnme', vi: 'thế nào' },
-      { id: 25, char: '新鲜', pinyin: 'xīnxiān', vi: 'tươi, mới' },
-      { id: 26, char: '摘', pinyin: 'zhāi', vi: 'hái' },
-      { id: 27, char: '酸', pinyin: 'suān', vi: 'chua' },
-      { id: 28, char: '辆', pinyin: 'liàng', vi: 'chiếc (lượng từ xe)' },
-      { id: 29, char: '自行车', pinyin: 'zìxíngchē', vi: 'xe đạp' },
-      { id: 30, char: '铅笔', pinyin: 'qiānbǐ', vi: 'bút chì' },
-      { id: 31, char: '苹果', pinyin: 'píngguǒ', vi: 'quả táo' },
-      { id: 32, char: '凉', pinyin: 'liáng', vi: 'mát' },
-      { id: 33, char: '热', pinyin: 'rè', vi: 'nóng' },
-      { id: 34, char: '短', pinyin: 'duǎn', vi: 'ngắn' },
-      { id: 35, char: '青岛', pinyin: 'Qīngdǎo', vi: 'Thanh Đảo' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '我买两支圆珠笔', pinyin: 'wǒ mǎi liǎng zhī yuánzhūbǐ', vi: 'Tôi mua hai cái bút bi' },
-        { id: 2, char: '你要红的还是要蓝的', pinyin: 'nǐ yào hóng de háishi yào lán de', vi: 'Bạn muốn cái màu đỏ hay màu xanh?' },
-        { id: 3, char: '一样一支', pinyin: 'yíyàng yì zhī', vi: 'Mỗi loại một cái' },
-        { id: 4, char: '还要别的吗', pinyin: 'hái yào biéde ma', vi: 'Còn muốn gì khác không?' },
-        { id: 5, char: '不要了', pinyin: 'bú yào le', vi: 'Không cần nữa' },
-        { id: 6, char: '请问哪儿卖啤酒', pinyin: 'qǐngwèn nǎr mài píjiǔ', vi: 'Xin hỏi ở đâu bán bia?' },
-        { id: 7, char: '那儿卖', pinyin: 'nàr mài', vi: 'Bán ở đằng kia' },
-        { id: 8, char: '有青岛啤酒吗', pinyin: 'yǒu Qīngdǎo píjiǔ ma', vi: 'Có bia Thanh Đảo không?' },
-        { id: 9, char: '有.要几瓶', pinyin: 'yǒu. yào jǐ píng', vi: 'Có. Cần mấy chai?' },
-        { id: 10, char: '要四瓶再要两听可口可乐', pinyin: 'yào sì píng zài yào liǎng tīng kěkǒukělè', vi: 'Cần 4 chai và 2 lon Coca-Cola' },
-        { id: 11, char: '一共多少钱', pinyin: 'yígòng duōshao qián', vi: 'Tổng cộng bao nhiêu tiền?' },
-        { id: 12, char: '十九块四', pinyin: 'shíjiǔ kuài sì', vi: '19 đồng 4 hào' },
-        { id: 13, char: '给你钱', pinyin: 'gěi nǐ qián', vi: 'Gửi bạn tiền' },
-        { id: 14, char: '您有零钱吗', pinyin: 'nín yǒu língqián ma', vi: 'Ngài có tiền lẻ không?' },
-        { id: 15, char: '没有', pinyin: 'méiyǒu', vi: 'Không có' },
-        { id: 16, char: '你等我一下儿', pinyin: 'nǐ děng wǒ yíxiàr', vi: 'Bạn đợi tôi một lát' },
-        { id: 17, char: '我去换钱', pinyin: 'wǒ qù huàn qián', vi: 'Tôi đi đổi tiền' },
-        { id: 18, char: '您这是五十块', pinyin: 'nín zhè shì wǔshí kuài', vi: 'Của ngài đây là 50 đồng' },
-        { id: 19, char: '找您三十块零六毛.请数一下', pinyin: 'zhǎo nín sānshí kuài líng liù máo. qǐng shǔ yíxià', vi: 'Thối ngài 30 đồng 6 hào. Mời đếm lại' },
-        { id: 20, char: '橘子多少钱一斤', pinyin: 'júzi duōshao qián yì jīn', vi: 'Quýt bao nhiêu tiền một cân?' },
-        { id: 21, char: '大的三块钱一斤', pinyin: 'dà de sān kuài qián yì jīn', vi: 'Loại to 3 đồng một cân' },
-        { id: 22, char: '小的十块钱四斤', pinyin: 'xiǎo de shí kuài qián sì jīn', vi: 'Loại nhỏ 10 đồng bốn cân' },
-        { id: 23, char: '甜不甜', pinyin: 'tián bu tián', vi: 'Có ngọt không?' },
-        { id: 24, char: '您尝一下儿', pinyin: 'nín cháng yíxiàr', vi: 'Ngài nếm thử đi' },
-        { id: 25, char: '不甜不要钱', pinyin: 'bù tián bú yào qián', vi: 'Không ngọt không lấy tiền' },
-        { id: 26, char: '西红柿怎么卖', pinyin: 'xīhóngshì zěnme mài', vi: 'Cà chua bán thế nào?' },
-        { id: 27, char: '一斤一块五', pinyin: 'yì jīn yí kuài wǔ', vi: 'Một cân một đồng rưỡi' },
-        { id: 28, char: '新鲜不新鲜', pinyin: 'xīnxiān bu xīnxiān', vi: 'Có tươi không?' },
-        { id: 29, char: '这是今天早上摘的.新鲜极了', pinyin: 'zhè shì jīntiān zǎoshang zhāi de. xīnxiān jí le', vi: 'Đây là hái sáng nay. Tươi cực kỳ' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '我买两支圆珠笔', pinyin: '', vi: '' },
-      { id: 2, char: '你要红的还是要蓝的', pinyin: '', vi: '' },
-      { id: 3, char: '一样一支', pinyin: '', vi: '' },
-      { id: 4, char: '还要别的吗', pinyin: '', vi: '' },
-      { id: 5, char: '不要了', pinyin: '', vi: '' },
-      { id: 6, char: '请问.哪儿卖啤酒', pinyin: '', vi: '' },
-      { id: 7, char: '那儿卖', pinyin: '', vi: '' },
-      { id: 8, char: '有青岛啤酒吗', pinyin: '', vi: '' },
-      { id: 9, char: '有.要几瓶', pinyin: '', vi: '' },
-      { id: 10, char: '要四瓶再要两听可口可乐', pinyin: '', vi: '' },
-      { id: 11, char: '一共多少钱', pinyin: '', vi: '' },
-      { id: 12, char: '十九块四', pinyin: '', vi: '' },
-      { id: 13, char: '给你钱', pinyin: '', vi: '' },
-      { id: 14, char: '您有零钱吗', pinyin: '', vi: '' },
-      { id: 15, char: '没有', pinyin: '', vi: '' },
-      { id: 16, char: '你等我一下儿', pinyin: '', vi: '' },
-      { id: 17, char: '我去换钱', pinyin: '', vi: '' },
-      { id: 18, char: '您这是五十块.', pinyin: '', vi: '' },
-      { id: 19, char: '找您三十块零六毛请数一下', pinyin: '', vi: '' },
-      { id: 20, char: '橘子多少钱一斤', pinyin: '', vi: '' },
-      { id: 21, char: '大的三块钱一斤', pinyin: '', vi: '' },
-      { id: 22, char: '小的十块钱四斤', pinyin: '', vi: '' },
-      { id: 23, char: '甜不甜', pinyin: '', vi: '' },
-      { id: 24, char: '您尝一下儿', pinyin: '', vi: '' },
-      { id: 25, char: '不甜不要钱', pinyin: '', vi: '' },
-      { id: 26, char: '西红柿怎么卖', pinyin: '', vi: '' },
-      { id: 27, char: '一斤一块五', pinyin: '', vi: '' },
-      { id: 28, char: '新鲜不新鲜', pinyin: '', vi: '' },
-      { id: 29, char: '这是今天早上摘的新鲜极了', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 28': {
-    'Từ mới': [
-      { id: 1, char: '想', pinyin: 'xiǎng', vi: 'muốn, nghĩ' },
-      { id: 2, char: '录音机', pinyin: 'lùyīnjī', vi: 'máy ghi âm' },
-      { id: 3, char: '给', pinyin: 'gěi', vi: 'cho' },
-      { id: 4, char: '参谋', pinyin: 'cānmóu', vi: 'tham mưu, tư vấn' },
-      { id: 5, char: '左右', pinyin: 'zuǒyòu', vi: 'khoảng, xấp xỉ' },
-      { id: 6, char: '牌子', pinyin: 'páizi', vi: 'nhãn hiệu' },
-      { id: 7, char: '质量', pinyin: 'zhìliàng', vi: 'chất lượng' },
-      { id: 8, char: '又…又…', pinyin: 'yòu…yòu…', vi: 'vừa...vừa...' },
-      { id: 9, char: '价钱', pinyin: 'jiàqian', vi: 'giá cả' },
-      { id: 10, char: '便宜', pinyin: 'piányi', vi: 'rẻ' },
-      { id: 11, char: '样子', pinyin: 'yàngzi', vi: 'kiểu dáng' },
-      { id: 12, char: '好看', pinyin: 'hǎokàn', vi: 'đẹp, ưa nhìn' },
-      { id: 13, char: '双', pinyin: 'shuāng', vi: 'đôi' },
-      { id: 14, char: '号', pinyin: 'hào', vi: 'cỡ, số' },
-      { id: 15, char: '可以', pinyin: 'kěyǐ', vi: 'có thể' },
-      { id: 16, char: '试', pinyin: 'shì', vi: 'thử' },
-      { id: 17, char: '有点儿', pinyin: 'yǒudiǎnr', vi: 'hơi, một chút' },
-      { id: 18, char: '一点儿', pinyin: 'yìdiǎnr', vi: 'một chút' },
-      { id: 19, char: '合适', pinyin: 'héshì', vi: 'vừa vặn, thích hợp' },
-      { id: 20, char: '件', pinyin: 'jiàn', vi: 'chiếc (lượng từ áo)' },
-      { id: 21, char: '白', pinyin: 'bái', vi: 'màu trắng' },
-      { id: 22, char: '真丝', pinyin: 'zhēnsī', vi: 'tơ tằm' },
-      { id: 23, char: '衬衣', pinyin: 'chènyī', vi: 'áo sơ mi' },
-      { id: 24, char: '颜色', pinyin: 'yánsè', vi: 'màu sắc' },
-      { id: 25, char: '只', pinyin: 'zhǐ', vi: 'chỉ' },
-      { id: 26, char: '种', pinyin: 'zhǒng', vi: 'loại, chủng loại' },
-      { id: 27, char: '用', pinyin: 'yòng', vi: 'dùng' },
-      { id: 28, char: '算', pinyin: 'suàn', vi: 'tính' },
-      { id: 29, char: '条', pinyin: 'tiáo', vi: 'cái (lượng từ quần)' },
-      { id: 30, char: '裤子', pinyin: 'kùzi', vi: 'quần' },
-      { id: 31, char: '乱', pinyin: 'luàn', vi: 'lộn xộn' },
-      { id: 32, char: '老', pinyin: 'lǎo', vi: 'già, cũ' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '想', pinyin: 'xiǎng', vi: 'muốn, nghĩ' },
-      { id: 2, char: '录音机', pinyin: 'lùyīnjī', vi: 'máy ghi âm' },
-      { id: 3, char: '给', pinyin: 'gěi', vi: 'cho' },
-      { id: 4, char: '参谋', pinyin: 'cānmóu', vi: 'tham mưu, tư vấn' },
-      { id: 5, char: '左右', pinyin: 'zuǒyòu', vi: 'khoảng, xấp xỉ' },
-      { id: 6, char: '牌子', pinyin: 'páizi', vi: 'nhãn hiệu' },
-      { id: 7, char: '质量', pinyin: 'zhìliàng', vi: 'chất lượng' },
-      { id: 8, char: '又…又…', pinyin: 'yòu…yòu…', vi: 'vừa...vừa...' },
-      { id: 9, char: '价钱', pinyin: 'jiàqian', vi: 'giá cả' },
-      { id: 10, char: '便宜', pinyin: 'piányi', vi: 'rẻ' },
-      { id: 11, char: '样子', pinyin: 'yàngzi', vi: 'kiểu dáng' },
-      { id: 12, char: '好看', pinyin: 'hǎokàn', vi: 'đẹp, ưa nhìn' },
-      { id: 13, char: '双', pinyin: 'shuāng', vi: 'đôi' },
-      { id: 14, char: '号', pinyin: 'hào', vi: 'cỡ, số' },
-      { id: 15, char: '可以', pinyin: 'kěyǐ', vi: 'có thể' },
-      { id: 16, char: '试', pinyin: 'shì', vi: 'thử' },
-      { id: 17, char: '有点儿', pinyin: 'yǒudiǎnr', vi: 'hơi, một chút' },
-      { id: 18, char: '一点儿', pinyin: 'yìdiǎnr', vi: 'một chút' },
-      { id: 19, char: '合适', pinyin: 'héshì', vi: 'vừa vặn, thích hợp' },
-      { id: 20, char: '件', pinyin: 'jiàn', vi: 'chiếc (lượng từ áo)' },
-      { id: 21, char: '白', pinyin: 'bái', vi: 'màu trắng' },
-      { id: 22, char: '真丝', pinyin: 'zhēnsī', vi: 'tơ tằm' },
-      { id: 23, char: '衬衣', pinyin: 'chènyī', vi: 'áo sơ mi' },
-      { id: 24, char: '颜色', pinyin: 'yánsè', vi: 'màu sắc' },
-      { id: 25, char: '只', pinyin: 'zhǐ', vi: 'chỉ' },
-      { id: 26, char: '种', pinyin: 'zhǒng', vi: 'loại, chủng loại' },
-      { id: 27, char: '用', pinyin: 'yòng', vi: 'dùng' },
-      { id: 28, char: '算', pinyin: 'suàn', vi: 'tính' },
-      { id: 29, char: '条', pinyin: 'tiáo', vi: 'cái (lượng từ quần)' },
-      { id: 30, char: '裤子', pinyin: 'kùzi', vi: 'quần' },
-      { id: 31, char: '乱', pinyin: 'luàn', vi: 'lộn xộn' },
-      { id: 32, char: '老', pinyin: 'lǎo', vi: 'già, cũ' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '我想买个小录音机', pinyin: 'wǒ xiǎng mǎi ge xiǎo lùyīnjī', vi: 'Tôi muốn mua một cái máy ghi âm nhỏ' },
-        { id: 2, char: '您给我参谋参谋', pinyin: 'nín gěi wǒ cānmóu cānmóu', vi: 'Ngài tư vấn cho tôi với' },
-        { id: 3, char: '您想买多少钱的', pinyin: 'nín xiǎng mǎi duōshao qián de', vi: 'Ngài muốn mua loại bao nhiêu tiền?' },
-        { id: 4, char: '二百块左右的', pinyin: 'èrbǎi kuài zuǒyòu de', vi: 'Loại khoảng 200 đồng' },
-        { id: 5, char: '您看看这个牌子的', pinyin: 'nín kànkan zhè ge páizi de', vi: 'Ngài xem thử nhãn hiệu này đi' },
-        { id: 6, char: '质量又好价钱又便宜', pinyin: 'zhìliàng yòu hǎo jiàqian yòu piányi', vi: 'Chất lượng vừa tốt giá lại rẻ' },
-        { id: 7, char: '样子也挺好看', pinyin: 'yàngzi yě tǐng hǎokàn', vi: 'Kiểu dáng cũng khá đẹp' },
-        { id: 8, char: '这双鞋是多大号的', pinyin: 'zhè shuāng xié shì duō dà hào de', vi: 'Đôi giày này cỡ bao nhiêu?' },
-        { id: 9, char: '25号的', pinyin: 'èrshíwǔ hào de', vi: 'Cỡ 25' },
-        { id: 10, char: '我可以试试吗', pinyin: 'wǒ kěyǐ shìshi ma', vi: 'Tôi có thể thử không?' },
-        { id: 11, char: '可以', pinyin: 'kěyǐ', vi: 'Được' },
-        { id: 12, char: '这双有点儿小', pinyin: 'zhè shuāng yǒudiǎnr xiǎo', vi: 'Đôi này hơi nhỏ' },
-        { id: 13, char: '有大一点儿的吗', pinyin: 'yǒu dà yìdiǎnr de ma', vi: 'Có đôi nào to hơn chút không?' },
-        { id: 14, char: '有.您再试试25号半的', pinyin: 'yǒu. nín zài shìshi èrshíwǔ hào bàn de', vi: 'Có. Ngài thử lại đôi 25 rưỡi đi' },
-        { id: 15, char: '这双不大也不小.挺合适', pinyin: 'zhè shuāng bú dà yě bù xiǎo. tǐng héshì', vi: 'Đôi này không to không nhỏ. Rất vừa' },
-        { id: 16, char: '您想买点什么', pinyin: 'nín xiǎng mǎi diǎn shénme', vi: 'Ngài muốn mua gì ạ?' },
-        { id: 17, char: '我看看那件白的真丝衬衣', pinyin: 'wǒ kànkan nà jiàn bái de zhēnsī chènyī', vi: 'Tôi xem chiếc áo sơ mi lụa tơ tằm màu trắng kia' },
-        { id: 18, char: '有别的颜色的吗', pinyin: 'yǒu biéde yánsè de ma', vi: 'Có màu khác không?' },
-        { id: 19, char: '没有.只有这一种颜色', pinyin: 'méiyǒu. zhǐyǒu zhè yì zhǒng yánsè', vi: 'Không có. Chỉ có loại màu này thôi' },
-        { id: 20, char: '多少钱一件', pinyin: 'duōshao qián yí jiàn', vi: 'Bao nhiêu tiền một chiếc?' },
-        { id: 21, char: '一百八', pinyin: 'yìbǎi bā', vi: '180 đồng' },
-        { id: 22, char: '太贵了.便宜点儿吧', pinyin: 'tài guì le. piányi diǎnr ba', vi: 'Đắt quá. Rẻ hơn chút đi' },
-        { id: 23, char: '您给一百六吧', pinyin: 'nín gěi yìbǎi liù ba', vi: 'Ngài trả 160 đi' },
-        { id: 24, char: '再便宜点儿.一百五怎么样', pinyin: 'zài piányi diǎnr. yìbǎi wǔ zěnmeyàng', vi: 'Rẻ hơn nữa đi. 150 thế nào?' },
-        { id: 25, char: '行', pinyin: 'xíng', vi: 'Được' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '我想买个小录音机', pinyin: '', vi: '' },
-      { id: 2, char: '您给我参谋参谋', pinyin: '', vi: '' },
-      { id: 3, char: '您想买多少钱的', pinyin: '', vi: '' },
-      { id: 4, char: '二百块左右的', pinyin: '', vi: '' },
-      { id: 5, char: '您看看这个牌子的', pinyin: '', vi: '' },
-      { id: 6, char: '质量又好价钱又便宜', pinyin: '', vi: '' },
-      { id: 7, char: '样子也挺好看', pinyin: '', vi: '' },
-      { id: 8, char: '这双鞋是多大号的', pinyin: '', vi: '' },
-      { id: 9, char: '25号的', pinyin: '', vi: '' },
-      { id: 10, char: '我可以试试吗', pinyin: '', vi: '' },
-      { id: 11, char: '可以', pinyin: '', vi: '' },
-      { id: 12, char: '这双有点儿小', pinyin: '', vi: '' },
-      { id: 13, char: '有大一点儿的吗', pinyin: '', vi: '' },
-      { id: 14, char: '您再试试25号半的', pinyin: '', vi: '' },
-      { id: 15, char: '这双不大也不小挺合适', pinyin: '', vi: '' },
-      { id: 16, char: '您想买点什么', pinyin: '', vi: '' },
-      { id: 17, char: '我看看那件白的真丝衬衣', pinyin: '', vi: '' },
-      { id: 18, char: '有别的颜色的吗', pinyin: '', vi: '' },
-      { id: 19, char: '没有只有这一种颜色', pinyin: '', vi: '' },
-      { id: 20, char: '多少钱一件', pinyin: '', vi: '' },
-      { id: 21, char: '一百八', pinyin: '', vi: '' },
-      { id: 22, char: '太贵了便宜点儿吧', pinyin: '', vi: '' },
-      { id: 23, char: '您给一百六吧', pinyin: '', vi: '' },
-      { id: 24, char: '再便宜点儿一百五怎么样', pinyin: '', vi: '' },
-      { id: 25, char: '行', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 29': {
-    'Từ mới': [
-      { id: 1, char: '听说', pinyin: 'tīngshuō', vi: 'nghe nói' },
-      { id: 2, char: '菜', pinyin: 'cài', vi: 'món ăn, rau' },
-      { id: 3, char: '好吃', pinyin: 'hǎochī', vi: 'ngon' },
-      { id: 4, char: '服务员', pinyin: 'fúwùyuán', vi: 'nhân viên phục vụ' },
-      { id: 5, char: '事', pinyin: 'shì', vi: 'việc, sự việc' },
-      { id: 6, char: '菜单', pinyin: 'càidān', vi: 'thực đơn' },
-      { id: 7, char: '点', pinyin: 'diǎn', vi: 'gọi món' },
-      { id: 8, char: '鱼香肉丝', pinyin: 'yúxiāng ròusī', vi: 'thịt heo xào vị cá' },
-      { id: 9, char: '麻婆豆腐', pinyin: 'mápó dòufu', vi: 'đậu phụ Tứ Xuyên' },
-      { id: 10, char: '碗', pinyin: 'wǎn', vi: 'bát' },
-      { id: 11, char: '辣', pinyin: 'là', vi: 'cay' },
-      { id: 12, char: '汤', pinyin: 'tāng', vi: 'canh' },
-      { id: 13, char: '饮料', pinyin: 'yǐnliào', vi: 'đồ uống' },
-      { id: 14, char: '壶', pinyin: 'hú', vi: 'ấm, bình' },
-      { id: 15, char: '稍', pinyin: 'shāo', vi: 'một chút, hơi' },
-      { id: 16, char: '觉得', pinyin: 'juéde', vi: 'cảm thấy' },
-      { id: 17, char: '不过', pinyin: 'búguò', vi: 'nhưng' },
-      { id: 18, char: '油', pinyin: 'yóu', vi: 'dầu, mỡ' },
-      { id: 19, char: '喜欢', pinyin: 'xǐhuān', vi: 'thích' },
-      { id: 20, char: '最', pinyin: 'zuì', vi: 'nhất' },
-      { id: 21, char: '呀', pinyin: 'ya', vi: 'trợ từ cuối câu' },
-      { id: 22, char: '咸', pinyin: 'xián', vi: 'mặn' },
-      { id: 23, char: '苦', pinyin: 'kǔ', vi: 'đắng' },
-      { id: 24, char: '就是', pinyin: 'jiùshì', vi: 'chính là' },
-      { id: 25, char: '小姐', pinyin: 'xiǎojiě', vi: 'cô, tiểu thư' },
-      { id: 26, char: '结账', pinyin: 'jiézhàng', vi: 'thanh toán' },
-      { id: 27, char: '餐巾纸', pinyin: 'cānjīnzhǐ', vi: 'giấy ăn' },
-      { id: 28, char: '付', pinyin: 'fù', vi: 'trả' },
-      { id: 29, char: '请客', pinyin: 'qǐngkè', vi: 'mời khách, khao' },
-      { id: 30, char: '以后', pinyin: 'yǐhòu', vi: 'sau này' },
-      { id: 31, char: '唱', pinyin: 'chàng', vi: 'hát' },
-      { id: 32, char: '卡拉', pinyin: 'kǎlā', vi: 'karaoke' },
-      { id: 33, char: '有意思', pinyin: 'yǒu yìsi', vi: 'thú vị' },
-      { id: 34, char: '汉字', pinyin: 'Hànzì', vi: 'chữ Hán' },
-      { id: 35, char: '告诉', pinyin: 'gàosu', vi: 'nói cho biết' },
-      { id: 36, char: '问题', pinyin: 'wèntí', vi: 'vấn đề, câu hỏi' },
-      { id: 37, char: '问', pinyin: 'wèn', vi: 'hỏi' },
-      { id: 38, char: '难', pinyin: 'nán', vi: 'khó' },
-      { id: 39, char: '四川', pinyin: 'Sìchuān', vi: 'Tứ Xuyên' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '听说', pinyin: 'tīngshuō', vi: 'nghe nói' },
-      { id: 2, char: '菜', pinyin: 'cài', vi: 'món ăn, rau' },
-      { id: 3, char: '好吃', pinyin: 'hǎochī', vi: 'ngon' },
-      { id: 4, char: '服务员', pinyin: 'fúwùyuán', vi: 'nhân viên phục vụ' },
-      { id: 5, char: '事', pinyin: 'shì', vi: 'việc, sự việc' },
-      { id: 6, char: '菜单', pinyin: 'càidān', vi: 'thực đơn' },
-      { id: 7, char: '点', pinyin: 'diǎn', vi: 'gọi món' },
-      { id: 8, char: '鱼香肉丝', pinyin: 'yúxiāng ròusī', vi: 'thịt heo xào vị cá' },
-      { id: 9, char: '麻婆豆腐', pinyin: 'mápó dòufu', vi: 'đậu phụ Tứ Xuyên' },
-      { id: 10, char: '碗', pinyin: 'wǎn', vi: 'bát' },
-      { id: 11, char: '辣', pinyin: 'là', vi: 'cay' },
-      { id: 12, char: '汤', pinyin: 'tāng', vi: 'canh' },
-      { id: 13, char: '饮料', pinyin: 'yǐnliào', vi: 'đồ uống' },
-      { id: 14, char: '壶', pinyin: 'hú', vi: 'ấm, bình' },
-      { id: 15, char: '稍', pinyin: 'shāo', vi: 'một chút, hơi' },
-      { id: 16, char: '觉得', pinyin: 'juéde', vi: 'cảm thấy' },
-      { id: 17, char: '不过', pinyin: 'búguò', vi: 'nhưng' },
-      { id: 18, char: '油', pinyin: 'yóu', vi: 'dầu, mỡ' },
-      { id: 19, char: '喜欢', pinyin: 'xǐhuān', vi: 'thích' },
-      { id: 20, char: '最', pinyin: 'zuì', vi: 'nhất' },
-      { id: 21, char: '呀', pinyin: 'ya', vi: 'trợ từ cuối câu' },
-      { id: 22, char: '咸', pinyin: 'xián', vi: 'mặn' },
-      { id: 23, char: '苦', pinyin: 'kǔ', vi: 'đắng' },
-      { id: 24, char: '就是', pinyin: 'jiùshì', vi: 'chính là' },
-      { id: 25, char: '小姐', pinyin: 'xiǎojiě', vi: 'cô, tiểu thư' },
-      { id: 26, char: '结账', pinyin: 'jiézhàng', vi: 'thanh toán' },
-      { id: 27, char: '餐巾纸', pinyin: 'cānjīnzhǐ', vi: 'giấy ăn' },
-      { id: 28, char: '付', pinyin: 'fù', vi: 'trả' },
-      { id: 29, char: '请客', pinyin: 'qǐngkè', vi: 'mời khách, khao' },
-      { id: 30, char: '以后', pinyin: 'yǐhòu', vi: 'sau này' },
-      { id: 31, char: '唱', pinyin: 'chàng', vi: 'hát' },
-      { id: 32, char: '卡拉', pinyin: 'kǎlā', vi: 'karaoke' },
-      { id: 33, char: '有意思', pinyin: 'yǒu yìsi', vi: 'thú vị' },
-      { id: 34, char: '汉字', pinyin: 'Hànzì', vi: 'chữ Hán' },
-      { id: 35, char: '告诉', pinyin: 'gàosu', vi: 'nói cho biết' },
-      { id: 36, char: '问题', pinyin: 'wèntí', vi: 'vấn đề, câu hỏi' },
-      { id: 37, char: '问', pinyin: 'wèn', vi: 'hỏi' },
-      { id: 38, char: '难', pinyin: 'nán', vi: 'khó' },
-      { id: 39, char: '四川', pinyin: 'Sìchuān', vi: 'Tứ Xuyên' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '听说四川菜很好吃', pinyin: 'tīngshuō Sìchuān cài hěn hǎochī', vi: 'Nghe nói món Tứ Xuyên rất ngon' },
-        { id: 2, char: '咱们去尝尝好吗', pinyin: 'zánmen qù chángchang hǎo ma', vi: 'Chúng ta đi nếm thử được không?' },
-        { id: 3, char: '好啊!什么时候去', pinyin: 'hǎo a! shénme shíhou qù', vi: 'Được thôi! Khi nào đi?' },
-        { id: 4, char: '今天晚上怎么样', pinyin: 'jīntiān wǎnshang zěnmeyàng', vi: 'Tối nay thì sao?' },
-        { id: 5, char: '今天晚上我有事.明天中午好吗', pinyin: 'jīntiān wǎnshang wǒ yǒu shì. míngtiān zhōngwǔ hǎo ma', vi: 'Tối nay tôi có việc. Trưa mai được không?' },
-        { id: 6, char: '好', pinyin: 'hǎo', vi: 'Được' },
-        { id: 7, char: '这是菜单.请点菜', pinyin: 'zhè shì càidān. qǐng diǎn cài', vi: 'Đây là thực đơn. Mời gọi món' },
-        { id: 8, char: '来一个鱼香肉丝.一个麻婆豆腐', pinyin: 'lái yí ge yúxiāng ròusī. yí ge mápó dòufu', vi: 'Cho một phần thịt xào vị cá, một phần đậu phụ Mapo' },
-        { id: 9, char: '两碗米饭.一个酸辣汤', pinyin: 'liǎng wǎn mǐfàn. yí ge suānlàtāng', vi: 'Hai bát cơm, một bát canh chua cay' },
-        { id: 10, char: '要什么饮料', pinyin: 'yào shénme yǐnliào', vi: 'Cần đồ uống gì?' },
-        { id: 11, char: '来一壶茶', pinyin: 'lái yì hú chá', vi: 'Cho một ấm trà' },
-        { id: 12, char: '请稍等', pinyin: 'qǐng shāo děng', vi: 'Xin đợi một lát' },
-        { id: 13, char: '你觉得中国菜好吃吗', pinyin: 'nǐ juéde Zhōngguó cài hǎochī ma', vi: 'Bạn thấy đồ ăn Trung Quốc ngon không?' },
-        { id: 14, char: '好吃是好吃.不过油太多', pinyin: 'hǎochī shì hǎochī. búguò yóu tài duō', vi: 'Ngon thì ngon thật, nhưng nhiều dầu quá' },
-        { id: 15, char: '你喜欢吃什么菜', pinyin: 'nǐ xǐhuān chī shénme cài', vi: 'Bạn thích ăn món gì?' },
-        { id: 16, char: '我最喜欢吃韩国菜', pinyin: 'wǒ zuì xǐhuān chī Hánguó cài', vi: 'Tôi thích ăn nhất là món Hàn Quốc' },
-        { id: 17, char: '我喜欢吃辣的.你呢', pinyin: 'wǒ xǐhuān chī là de. nǐ ne', vi: 'Tôi thích ăn cay. Còn bạn?' },
-        { id: 18, char: '我呀!酸的辣的咸的苦的都喜欢吃', pinyin: 'wǒ ya! suān de là de xián de kǔ de dōu xǐhuān chī', vi: 'Tôi á! Chua, cay, mặn, đắng tôi đều thích ăn' },
-        { id: 19, char: '就是不喜欢吃甜的', pinyin: 'jiùshì bù xǐhuān chī tián de', vi: 'Chỉ là không thích ăn đồ ngọt' },
-        { id: 20, char: '小姐.结帐', pinyin: 'xiǎojiě. jiézhàng', vi: 'Cô ơi, thanh toán' },
-        { id: 21, char: '再给我们两张餐巾纸', pinyin: 'zài gěi wǒmen liǎng zhāng cānjīnzhǐ', vi: 'Cho chúng tôi thêm hai tờ giấy ăn' },
-        { id: 22, char: '我来付钱', pinyin: 'wǒ lái fù qián', vi: 'Để tôi trả tiền' },
-        { id: 23, char: '今天我请客', pinyin: 'jīntiān wǒ qǐngkè', vi: 'Hôm nay tôi mời' },
-        { id: 24, char: '好.以后我请你吃韩国菜', pinyin: 'hǎo. yǐhòu wǒ qǐng nǐ chī Hánguó cài', vi: 'Ok. Sau này tôi mời bạn ăn món Hàn Quốc' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '听说四川菜很好吃', pinyin: '', vi: '' },
-      { id: 2, char: '咱们去尝尝好吗', pinyin: '', vi: '' },
-      { id: 3, char: '好啊什么时候去', pinyin: '', vi: '' },
-      { id: 4, char: '今天晚上怎么样', pinyin: '', vi: '' },
-      { id: 5, char: '今天晚上我有事', pinyin: '', vi: '' },
-      { id: 6, char: '明天中午好吗', pinyin: '', vi: '' },
-      { id: 7, char: '好', pinyin: '', vi: '' },
-      { id: 8, char: '这是菜单请点菜', pinyin: '', vi: '' },
-      { id: 9, char: '来一个鱼香肉丝', pinyin: '', vi: '' },
-      { id: 10, char: '一个麻婆豆腐', pinyin: '', vi: '' },
-      { id: 11, char: '两碗米饭一个酸辣汤', pinyin: '', vi: '' },
-      { id: 12, char: '要什么饮料', pinyin: '', vi: '' },
-      { id: 13, char: '来一壶茶', pinyin: '', vi: '' },
-      { id: 14, char: '请稍等', pinyin: '', vi: '' },
-      { id: 15, char: '你觉得中国菜好吃吗', pinyin: '', vi: '' },
-      { id: 16, char: '好吃是好吃不过油太多', pinyin: '', vi: '' },
-      { id: 17, char: '你喜欢吃什么菜', pinyin: '', vi: '' },
-      { id: 18, char: '我最喜欢吃韩国菜', pinyin: '', vi: '' },
-      { id: 19, char: '我喜欢吃辣的', pinyin: '', vi: '' },
-      { id: 20, char: '你呢', pinyin: '', vi: '' },
-      { id: 21, char: '我呀酸的拉的咸的苦的都喜欢吃', pinyin: '', vi: '' },
-      { id: 22, char: '就是不喜欢吃甜的', pinyin: '', vi: '' },
-      { id: 23, char: '小姐结帐', pinyin: '', vi: '' },
-      { id: 24, char: '再给我们两张餐巾纸', pinyin: '', vi: '' },
-      { id: 25, char: '我来付钱', pinyin: '', vi: '' },
-      { id: 26, char: '今天我请客', pinyin: '', vi: '' },
-      { id: 27, char: '以后我请你吃韩国菜', pinyin: '', vi: '' }
-    ],
-  },
-  'Bài 30': {
-    'Từ mới': [
-      { id: 1, char: '走', pinyin: 'zǒu', vi: 'đi, đi bộ' },
-      { id: 2, char: '一直', pinyin: 'yìzhí', vi: 'thẳng, liên tục' },
-      { id: 3, char: '往', pinyin: 'wǎng', vi: 'về phía, hướng về' },
-      { id: 4, char: '到', pinyin: 'dào', vi: 'đến' },
-      { id: 5, char: '字', pinyin: 'zì', vi: 'chữ' },
-      { id: 6, char: '路口', pinyin: 'lùkǒu', vi: 'ngã tư, giao lộ' },
-      { id: 7, char: '拐', pinyin: 'guǎi', vi: 'rẽ, quẹo' },
-      { id: 8, char: '米', pinyin: 'mǐ', vi: 'mét' },
-      { id: 9, char: '公里', pinyin: 'gōnglǐ', vi: 'ki-lô-mét' },
-      { id: 10, char: '车', pinyin: 'chē', vi: 'xe' },
-      { id: 11, char: '过', pinyin: 'guò', vi: 'qua' },
-      { id: 12, char: '马路', pinyin: 'mǎlù', vi: 'đường lớn' },
-      { id: 13, char: '先', pinyin: 'xiān', vi: 'trước' },
-      { id: 14, char: '路', pinyin: 'lù', vi: 'đường' },
-      { id: 15, char: '公共汽车', pinyin: 'gōnggòng qìchē', vi: 'xe buýt' },
-      { id: 16, char: '然后', pinyin: 'ránhòu', vi: 'sau đó' },
-      { id: 17, char: '地铁', pinyin: 'dìtiě', vi: 'tàu điện ngầm' },
-      { id: 18, char: '应该', pinyin: 'yīnggāi', vi: 'nên' },
-      { id: 19, char: '或者', pinyin: 'huòzhě', vi: 'hoặc là' },
-      { id: 20, char: '骑', pinyin: 'qí', vi: 'cưỡi, đi (xe đạp/máy)' },
-      { id: 21, char: '技术', pinyin: 'jìshù', vi: 'kỹ thuật' },
-      { id: 22, char: '还是', pinyin: 'háishi', vi: 'hay là, vẫn là' },
-      { id: 23, char: '周末', pinyin: 'zhōumò', vi: 'cuối tuần' },
-      { id: 24, char: '火车', pinyin: 'huǒchē', vi: 'xe lửa, tàu hỏa' },
-      { id: 25, char: '飞机', pinyin: 'fēijī', vi: 'máy bay' },
-      { id: 26, char: '快', pinyin: 'kuài', vi: 'nhanh' },
-      { id: 27, char: '舒服', pinyin: 'shūfu', vi: 'thoải mái, dễ chịu' },
-      { id: 28, char: '可是', pinyin: 'kěshì', vi: 'nhưng' },
-      { id: 29, char: '宽', pinyin: 'kuān', vi: 'rộng' },
-      { id: 30, char: '重', pinyin: 'zhòng', vi: 'nặng' },
-      { id: 31, char: '出租汽车', pinyin: 'chūzū qìchē', vi: 'xe taxi' },
-      { id: 32, char: '送', pinyin: 'sòng', vi: 'tặng, đưa' },
-      { id: 33, char: '礼物', pinyin: 'lǐwù', vi: 'quà' },
-      { id: 34, char: '花', pinyin: 'huā', vi: 'hoa' },
-      { id: 35, char: '大同', pinyin: 'Dàtóng', vi: 'Đại Đồng (địa danh)' },
-      { id: 36, char: '百货大楼', pinyin: 'bǎihuò dàlóu', vi: 'tòa nhà bách hóa' },
-    ],
-    'Gõ từ mới': [
-      { id: 1, char: '走', pinyin: 'zǒu', vi: 'đi, đi bộ' },
-      { id: 2, char: '一直', pinyin: 'yìzhí', vi: 'thẳng, liên tục' },
-      { id: 3, char: '往', pinyin: 'wǎng', vi: 'về phía, hướng về' },
-      { id: 4, char: '到', pinyin: 'dào', vi: 'đến' },
-      { id: 5, char: '字', pinyin: 'zì', vi: 'chữ' },
-      { id: 6, char: '路口', pinyin: 'lùkǒu', vi: 'ngã tư, giao lộ' },
-      { id: 7, char: '拐', pinyin: 'guǎi', vi: 'rẽ, quẹo' },
-      { id: 8, char: '米', pinyin: 'mǐ', vi: 'mét' },
-      { id: 9, char: '公里', pinyin: 'gōnglǐ', vi: 'ki-lô-mét' },
-      { id: 10, char: '车', pinyin: 'chē', vi: 'xe' },
-      { id: 11, char: '过', pinyin: 'guò', vi: 'qua' },
-      { id: 12, char: '马路', pinyin: 'mǎlù', vi: 'đường lớn' },
-      { id: 13, char: '先', pinyin: 'xiān', vi: 'trước' },
-      { id: 14, char: '路', pinyin: 'lù', vi: 'đường' },
-      { id: 15, char: '公共汽车', pinyin: 'gōnggòng qìchē', vi: 'xe buýt' },
-      { id: 16, char: '然后', pinyin: 'ránhòu', vi: 'sau đó' },
-      { id: 17, char: '地铁', pinyin: 'dìtiě', vi: 'tàu điện ngầm' },
-      { id: 18, char: '应该', pinyin: 'yīnggāi', vi: 'nên' },
-      { id: 19, char: '或者', pinyin: 'huòzhě', vi: 'hoặc là' },
-      { id: 20, char: '骑', pinyin: 'qí', vi: 'cưỡi, đi (xe đạp/máy)' },
-      { id: 21, char: '技术', pinyin: 'jìshù', vi: 'kỹ thuật' },
-      { id: 22, char: '还是', pinyin: 'háishi', vi: 'hay là, vẫn là' },
-      { id: 23, char: '周末', pinyin: 'zhōumò', vi: 'cuối tuần' },
-      { id: 24, char: '火车', pinyin: 'huǒchē', vi: 'xe lửa, tàu hỏa' },
-      { id: 25, char: '飞机', pinyin: 'fēijī', vi: 'máy bay' },
-      { id: 26, char: '快', pinyin: 'kuài', vi: 'nhanh' },
-      { id: 27, char: '舒服', pinyin: 'shūfu', vi: 'thoải mái, dễ chịu' },
-      { id: 28, char: '可是', pinyin: 'kěshì', vi: 'nhưng' },
-      { id: 29, char: '宽', pinyin: 'kuān', vi: 'rộng' },
-      { id: 30, char: '重', pinyin: 'zhòng', vi: 'nặng' },
-      { id: 31, char: '出租汽车', pinyin: 'chūzū qìchē', vi: 'xe taxi' },
-      { id: 32, char: '送', pinyin: 'sòng', vi: 'tặng, đưa' },
-      { id: 33, char: '礼物', pinyin: 'lǐwù', vi: 'quà' },
-      { id: 34, char: '花', pinyin: 'huā', vi: 'hoa' },
-      { id: 35, char: '大同', pinyin: 'Dàtóng', vi: 'Đại Đồng (địa danh)' },
-      { id: 36, char: '百货大楼', pinyin: 'bǎihuò dàlóu', vi: 'tòa nhà bách hóa' },
-    ],
-    'Giao tiếp': [
-        { id: 1, char: '去邮局怎么走', pinyin: 'qù yóujú zěnme zǒu', vi: 'Đi đến bưu điện như thế nào?' },
-        { id: 2, char: '一直往前走', pinyin: 'yìzhí wǎng qián zǒu', vi: 'Đi thẳng về phía trước' },
-        { id: 3, char: '到十字路口往右拐', pinyin: 'dào shízì lùkǒu wǎng yòu guǎi', vi: 'Đến ngã tư rẽ phải' },
-        { id: 4, char: '离这儿多远', pinyin: 'lí zhèr duō yuǎn', vi: 'Cách đây bao xa?' },
-        { id: 5, char: '二百多米', pinyin: 'èrbǎi duō mǐ', vi: 'Hơn 200 mét' },
-        { id: 6, char: '从这儿到百货大楼有多远', pinyin: 'cóng zhèr dào bǎihuò dàlóu yǒu duō yuǎn', vi: 'Từ đây đến tòa nhà bách hóa bao xa?' },
-        { id: 7, char: '十三四公里', pinyin: 'shísān sì gōnglǐ', vi: 'Mười ba, mười bốn km' },
-        { id: 8, char: '怎么坐车', pinyin: 'zěnme zuò chē', vi: 'Đi xe như thế nào?' },
-        { id: 9, char: '过马路.先坐2路公共汽车', pinyin: 'guò mǎlù. xiān zuò èr lù gōnggòng qìchē', vi: 'Qua đường, đi xe buýt tuyến số 2 trước' },
-        { id: 10, char: '然后换地铁', pinyin: 'ránhòu huàn dìtiě', vi: 'Sau đó đổi sang tàu điện ngầm' },
-        { id: 11, char: '请问我去天安门', pinyin: 'qǐngwèn wǒ qù Tiān\'ānmén', vi: 'Xin hỏi tôi đi Thiên An Môn' },
-        { id: 12, char: '应该走哪条路', pinyin: 'yīnggāi zǒu nǎ tiáo lù', vi: 'thì nên đi đường nào?' },
-        { id: 13, char: '走这条路或者那条路都行', pinyin: 'zǒu zhè tiáo lù huòzhě nà tiáo lù dōu xíng', vi: 'Đi đường này hoặc đường kia đều được' },
-        { id: 14, char: '哪条路近', pinyin: 'nǎ tiáo lù jìn', vi: 'Đường nào gần hơn?' },
-        { id: 15, char: '这条路近.不过有点儿乱', pinyin: 'zhè tiáo lù jìn. búguò yǒudiǎnr luàn', vi: 'Đường này gần, nhưng hơi lộn xộn' },
-        { id: 16, char: '我骑车技术不太高', pinyin: 'wǒ qí chē jìshù bú tài gāo', vi: 'Kỹ thuật đi xe của tôi không cao lắm' },
-        { id: 17, char: '还是走那条路吧', pinyin: 'háishi zǒu nà tiáo lù ba', vi: 'Thôi đi đường kia đi' },
-        { id: 18, char: '周末咱们去大同好吗', pinyin: 'zhōumò zánmen qù Dàtóng hǎo ma', vi: 'Cuối tuần chúng ta đi Đại Đồng được không?' },
-        { id: 19, char: '好啊.坐火车去还是坐飞机去', pinyin: 'hǎo a. zuò huǒchē qù háishi zuò fēijī qù', vi: 'Được thôi. Đi tàu hỏa hay đi máy bay?' },
-        { id: 20, char: '坐飞机去吧.又快又舒服', pinyin: 'zuò fēijī qù ba. yòu kuài yòu shūfu', vi: 'Đi máy bay đi. Vừa nhanh vừa thoải mái' },
-        { id: 21, char: '可是坐飞机太贵了', pinyin: 'kěshì zuò fēijī tài guì le', vi: 'Nhưng đi máy bay đắt quá' },
-        { id: 22, char: '还是坐火车吧', pinyin: 'háishi zuò huǒchē ba', vi: 'Hay là đi tàu hỏa đi' },
-        { id: 23, char: '从这到北宁城市有多远', pinyin: 'cóng zhè dào Běiníng chéngshì yǒu duō yuǎn', vi: 'Từ đây đến thành phố Bắc Ninh bao xa?' },
-        { id: 24, char: '十二三公里', pinyin: 'shí\'èr sān gōnglǐ', vi: 'Mười hai, mười ba km' },
-        { id: 25, char: '四五十学生', pinyin: 'sì wǔ shí xuésheng', vi: 'Bốn năm mươi học sinh' },
-        { id: 26, char: '你多高', pinyin: 'nǐ duō gāo', vi: 'Bạn cao bao nhiêu?' },
-        { id: 27, char: '我高1米65', pinyin: 'wǒ gāo yī mǐ liùwǔ', vi: 'Tôi cao 1 mét 65' },
-        { id: 28, char: '你多重', pinyin: 'nǐ duō zhòng', vi: 'Bạn nặng bao nhiêu?' },
-        { id: 29, char: '我重60多公斤', pinyin: 'wǒ zhòng liùshí duō gōngjīn', vi: 'Tôi nặng hơn 60 kg' },
-        { id: 30, char: '我重65公斤多', pinyin: 'wǒ zhòng liùshíwǔ gōngjīn duō', vi: 'Tôi nặng hơn 65 kg' }
-    ],
-    'Gõ bài khóa': [
-      { id: 1, char: '去邮局怎么走', pinyin: '', vi: '' },
-      { id: 2, char: '一直往前走', pinyin: '', vi: '' },
-      { id: 3, char: '到十字路口往右拐', pinyin: '', vi: '' },
-      { id: 4, char: '离这儿多远', pinyin: '', vi: '' },
-      { id: 5, char: '二百多米', pinyin: '', vi: '' },
-      { id: 6, char: '从这儿到百货大楼有多远', pinyin: '', vi: '' },
-      { id: 7, char: '十三四公里', pinyin: '', vi: '' },
-      { id: 8, char: '怎么坐车', pinyin: '', vi: '' },
-      { id: 9, char: '过马路先做2路公共汽车', pinyin: '', vi: '' },
-      { id: 10, char: '然后换地铁', pinyin: '', vi: '' },
-      { id: 11, char: '请问我去天安门', pinyin: '', vi: '' },
-      { id: 12, char: '应该走哪条路', pinyin: '', vi: '' },
-      { id: 13, char: '走这条路或者那条路都行', pinyin: '', vi: '' },
-      { id: 14, char: '哪条路近', pinyin: '', vi: '' },
-      { id: 15, char: '这条路近不过有点儿乱', pinyin: '', vi: '' },
-      { id: 16, char: '我骑车技术不太高', pinyin: '', vi: '' },
-      { id: 17, char: '还是走那条路吧', pinyin: '', vi: '' },
-      { id: 18, char: '周末咱们去大同好吗', pinyin: '', vi: '' },
-      { id: 19, char: '好啊坐火车去还是坐飞机去', pinyin: '', vi: '' },
-      { id: 20, char: '坐飞机去吧又快又舒服', pinyin: '', vi: '' },
-      { id: 21, char: '可是坐飞机太贵了', pinyin: '', vi: '' },
-    ],
-  },
+// Radical (bộ thủ) and first-level components of every character used in the
+// bundled course. Characters that do not split further have no components.
+export const CHARACTER_COMPONENTS: Record<string, CharacterComponents> = {
+  '你': { radical: '亻', components: ['亻', '尔'] },
+  '好': { radical: '女', components: ['女', '子'] },
+  '您': { radical: '心', components: ['你', '心'] },
+  '们': { radical: '亻', components: ['亻', '门'] },
+  '老': { radical: '老', components: ['耂', '匕'] },
+  '师': { radical: '巾', components: [] },
+  '谢': { radical: '讠', components: ['讠', '射'] },
+  '不': { radical: '一', components: [] },
+  '客': { radical: '宀', components: ['宀', '各'] },
+  '气': { radical: '气', components: [] },
+  '对': { radical: '又', components: ['又', '寸'] },
+  '起': { radical: '走', components: ['走', '己'] },
+  '没': { radical: '氵', components: ['氵', '殳'] },
+  '关': { radical: '八', components: ['丷', '天'] },
+  '系': { radical: '糸', components: [] },
+  '再': { radical: '一', components: [] },
+  '见': { radical: '见', components: [] },
+  '请': { radical: '讠', components: ['讠', '青'] },
+  '进': { radical: '辶', components: ['辶', '井'] },
+  '坐': { radical: '土', components: ['人', '人', '土'] },
+  '听': { radical: '口', components: ['口', '斤'] },
+  '说': { radical: '讠', components: ['讠', '兑'] },
+  '读': { radical: '讠', components: ['讠', '卖'] },
+  '写': { radical: '冖', components: ['冖', '与'] },
+  '吗': { radical: '口', components: ['口', '马'] },
+  '我': { radical: '戈', components: [] },
+  '很': { radical: '彳', components: ['彳', '艮'] },
+  '呢': { radical: '口', components: ['口', '尼'] },
+  '也': { radical: '乙', components: [] },
+  '爸': { radical: '父', components: ['父', '巴'] },
+  '妈': { radical: '女', components: ['女', '马'] },
+  '都': { radical: '阝', components: ['者', '阝'] },
+  '他': { radical: '亻', components: ['亻', '也'] },
+  '哥': { radical: '口', components: ['可', '可'] },
+  '姐': { radical: '女', components: ['女', '且'] },
+  '她': { radical: '女', components: ['女', '也'] },
+  '爱': { radical: '爫', components: ['爫', '冖', '友'] },
+  '人': { radical: '人', components: [] },
+  '弟': { radical: '弓', components: [] },
+  '妹': { radical: '女', components: ['女', '未'] },
+  '忙': { radical: '忄', components: ['忄', '亡'] },
+  '累': { radical: '糸', components: ['田', '糸'] },
+  '饿': { radical: '饣', components: ['饣', '我'] },
+  '渴': { radical: '氵', components: ['氵', '曷'] },
+  '支': { radical: '支', components: ['十', '又'] },
+  '圆': { radical: '囗', components: ['囗', '员'] },
+  '珠': { radical: '王', components: ['王', '朱'] },
+  '笔': { radical: '竹', components: ['⺮', '毛'] },
+  '红': { radical: '纟', components: ['纟', '工'] },
+  '还': { radical: '辶', components: ['辶', '不'] },
+  '是': { radical: '日', components: [] },
+  '蓝': { radical: '艹', components: ['艹', '监'] },
+  '一': { radical: '一', components: [] },
+  '样': { radical: '木', components: ['木', '羊'] },
+  '别': { radical: '刂', components: ['另', '刂'] },
+  '的': { radical: '白', components: ['白', '勺'] },
+  '了': { radical: '亅', components: [] },
+  '卖': { radical: '十', components: ['十', '买'] },
+  '共': { radical: '八', components: [] },
+  '给': { radical: '纟', components: ['纟', '合'] },
+  '吃': { radical: '口', components: ['口', '乞'] },
+  '什': { radical: '亻', components: ['亻', '十'] },
+  '么': { radical: '丿', components: ['丿', '厶'] },
+  '饺': { radical: '饣', components: ['饣', '交'] },
+  '子': { radical: '子', components: [] },
+  '米': { radical: '米', components: [] },
+  '饭': { radical: '饣', components: ['饣', '反'] },
+  '面': { radical: '面', components: [] },
+  '条': { radical: '木', components: ['夂', '木'] },
+  '包': { radical: '勹', components: ['勹', '巳'] },
+  '喝': { radical: '口', components: ['口', '曷'] },
+  '啤': { radical: '口', components: ['口', '卑'] },
+  '酒': { radical: '酉', components: ['氵', '酉'] },
+  '可': { radical: '口', components: ['丁', '口'] },
+  '口': { radical: '口', components: [] },
+  '乐': { radical: '丿', components: [] },
+  '茶': { radical: '艹', components: ['艹', '人', '木'] },
+  '咖': { radical: '口', components: ['口', '加'] },
+  '啡': { radical: '口', components: ['口', '非'] },
+  '矿': { radical: '石', components: ['石', '广'] },
+  '泉': { radical: '水', components: ['白', '水'] },
+  '水': { radical: '水', components: [] },
+  '牛': { radical: '牛', components: [] },
+  '奶': { radical: '女', components: ['女', '乃'] },
+  '买': { radical: '乙', components: [] },
+  '词': { radical: '讠', components: ['讠', '司'] },
+  '典': { radical: '八', components: [] },
+  '本': { radical: '木', components: ['木', '一'] },
+  '书': { radical: '乙', components: [] },
+  '要': { radical: '襾', components: ['覀', '女'] },
+  '换': { radical: '扌', components: ['扌', '奂'] },
+  '钱': { radical: '钅', components: ['钅', '戋'] },
+  '多': { radical: '夕', components: ['夕', '夕'] },
+  '少': { radical: '小', components: ['小', '丿'] },
+  '百': { radical: '白', components: ['一', '白'] },
+  '美': { radical: '羊', components: ['羊', '大'] },
+  '元': { radical: '儿', components: ['二', '儿'] },
+  '二': { radical: '二', components: [] },
+  '三': { radical: '一', components: [] },
+  '四': { radical: '囗', components: ['囗', '儿'] },
+  '五': { radical: '二', components: [] },
+  '两': { radical: '一', components: [] },
+  '杯': { radical: '木', components: ['木', '不'] },
+  '块': { radical: '土', components: ['土', '夬'] },
+  '个': { radical: '人', components: ['人', '丨'] },
+  '六': { radical: '八', components: ['亠', '八'] },
+  '毛': { radical: '毛', components: [] },
+  '角': { radical: '角', components: [] },
+  '瓶': { radical: '瓦', components: ['并', '瓦'] },
+  '七': { radical: '一', components: [] },
+  '八': { radical: '八', components: [] },
+  '九': { radical: '乙', components: [] },
+  '十': { radical: '十', components: [] },
+  '分': { radical: '刀', components: ['八', '刀'] },
+  '千': { radical: '十', components: ['丿', '十'] },
+  '万': { radical: '一', components: [] },
+  '问': { radical: '门', components: ['门', '口'] },
+  '图': { radical: '囗', components: ['囗', '冬'] },
+  '馆': { radical: '饣', components: ['饣', '官'] },
+  '在': { radical: '土', components: [] },
+  '哪': { radical: '口', components: ['口', '那'] },
+  '儿': { radical: '儿', components: [] },
+  '就': { radical: '尢', components: ['京', '尤'] },
+  '那': { radical: '阝', components: [] },
+  '食': { radical: '食', components: ['人', '良'] },
+  '堂': { radical: '土', components: ['尚', '土'] },
+  '留': { radical: '田', components: [] },
+  '学': { radical: '子', components: ['⺍', '冖', '子'] },
+  '生': { radical: '生', components: [] },
+  '宿': { radical: '宀', components: ['宀', '亻', '百'] },
+  '舍': { radical: '人', components: ['人', '舌'] },
+  '办': { radical: '力', components: [] },
+  '公': { radical: '八', components: ['八', '厶'] },
+  '室': { radical: '宀', components: ['宀', '至'] },
+  '楼': { radical: '木', components: ['木', '娄'] },
+  '邮': { radical: '阝', components: ['由', '阝'] },
+  '局': { radical: '尸', components: ['尸', '句'] },
+  '银': { radical: '钅', components: ['钅', '艮'] },
+  '行': { radical: '彳', components: ['彳', '亍'] },
+  '医': { radical: '匚', components: ['匚', '矢'] },
+  '院': { radical: '阝', components: ['阝', '完'] },
+  '商': { radical: '口', components: [] },
+  '店': { radical: '广', components: ['广', '占'] },
+  '知': { radical: '矢', components: ['矢', '口'] },
+  '道': { radical: '辶', components: ['辶', '首'] },
+  '去': { radical: '厶', components: ['土', '厶'] },
+  '天': { radical: '大', components: ['一', '大'] },
+  '安': { radical: '宀', components: ['宀', '女'] },
+  '门': { radical: '门', components: [] },
+  '故': { radical: '攵', components: ['古', '攵'] },
+  '宫': { radical: '宀', components: ['宀', '吕'] },
+  '颐': { radical: '页', components: [] },
+  '和': { radical: '口', components: ['禾', '口'] },
+  '园': { radical: '囗', components: ['囗', '元'] },
+  '长': { radical: '长', components: [] },
+  '城': { radical: '土', components: ['土', '成'] },
+  '认': { radical: '讠', components: ['讠', '人'] },
+  '识': { radical: '讠', components: ['讠', '只'] },
+  '高': { radical: '高', components: [] },
+  '兴': { radical: '八', components: [] },
+  '来': { radical: '木', components: [] },
+  '介': { radical: '人', components: [] },
+  '绍': { radical: '纟', components: ['纟', '召'] },
+  '下': { radical: '一', components: [] },
+  '习': { radical: '乙', components: [] },
+  '汉': { radical: '氵', components: ['氵', '又'] },
+  '语': { radical: '讠', components: ['讠', '吾'] },
+  '班': { radical: '王', components: ['王', '刂', '王'] },
+  '这': { radical: '辶', components: ['辶', '文'] },
+  '朋': { radical: '月', components: ['月', '月'] },
+  '友': { radical: '又', components: [] },
+  '教': { radical: '攵', components: ['孝', '攵'] },
+  '大': { radical: '大', components: [] },
+  '新': { radical: '斤', components: ['亲', '斤'] },
+  '同': { radical: '冂', components: ['冂', '一', '口'] },
+  '厚': { radical: '厂', components: ['厂', '日', '子'] },
+  '亮': { radical: '亠', components: [] },
+  '极': { radical: '木', components: ['木', '及'] },
+  '女': { radical: '女', components: [] },
+  '聪': { radical: '耳', components: ['耳', '总'] },
+  '明': { radical: '日', components: ['日', '月'] },
+  '看': { radical: '目', components: ['手', '目'] },
+  '帅': { radical: '巾', components: [] },
+  '小': { radical: '小', components: [] },
+  '德': { radical: '彳', components: ['彳', '十', '罒', '一', '心'] },
+  '国': { radical: '囗', components: ['囗', '玉'] },
+  '法': { radical: '氵', components: ['氵', '去'] },
+  '韩': { radical: '韦', components: [] },
+  '保': { radical: '亻', components: ['亻', '呆'] },
+  '罗': { radical: '罒', components: ['罒', '夕'] },
+  '西': { radical: '襾', components: [] },
+  '蒙': { radical: '艹', components: [] },
+  '李': { radical: '木', components: ['木', '子'] },
+  '英': { radical: '艹', components: ['艹', '央'] },
+  '男': { radical: '田', components: ['田', '力'] },
+  '最': { radical: '曰', components: ['曰', '取'] },
+  '近': { radical: '辶', components: ['辶', '斤'] },
+  '身': { radical: '身', components: [] },
+  '体': { radical: '亻', components: ['亻', '本'] },
+  '比': { radical: '比', components: ['匕', '匕'] },
+  '较': { radical: '车', components: ['车', '交'] },
+  '成': { radical: '戈', components: [] },
+  '绩': { radical: '纟', components: ['纟', '责'] },
+  '马': { radical: '马', components: [] },
+  '虎': { radical: '虍', components: ['虍', '几'] },
+  '努': { radical: '力', components: ['奴', '力'] },
+  '力': { radical: '力', components: [] },
+  '非': { radical: '非', components: [] },
+  '常': { radical: '巾', components: ['尚', '巾'] },
+  '太': { radical: '大', components: ['大', '丶'] },
+  '里': { radical: '里', components: [] },
+  '有': { radical: '月', components: [] },
+  '空': { radical: '穴', components: ['穴', '工'] },
+  '调': { radical: '讠', components: ['讠', '周'] },
+  '屋': { radical: '尸', components: ['尸', '至'] },
+  '离': { radical: '亠', components: [] },
+  '远': { radical: '辶', components: ['辶', '元'] },
+  '校': { radical: '木', components: ['木', '交'] },
+  '挺': { radical: '扌', components: ['扌', '廷'] },
+  '怎': { radical: '心', components: ['乍', '心'] },
+  '错': { radical: '钅', components: ['钅', '昔'] },
+  '头': { radical: '大', components: [] },
+  '发': { radical: '又', components: [] },
+  '眼': { radical: '目', components: ['目', '艮'] },
+  '睛': { radical: '目', components: ['目', '青'] },
+  '电': { radical: '田', components: [] },
+  '视': { radical: '礻', components: ['礻', '见'] },
+  '中': { radical: '丨', components: [] },
+  '叫': { radical: '口', components: [] },
+  '名': { radical: '口', components: ['夕', '口'] },
+  '字': { radical: '子', components: ['宀', '子'] },
+  '贵': { radical: '贝', components: [] },
+  '姓': { radical: '女', components: ['女', '生'] },
+  '几': { radical: '几', components: [] },
+  '位': { radical: '亻', components: ['亻', '立'] },
+  '住': { radical: '亻', components: ['亻', '主'] },
+  '号': { radical: '口', components: [] },
+  '房': { radical: '户', components: ['户', '方'] },
+  '间': { radical: '门', components: ['门', '日'] },
+  '话': { radical: '讠', components: ['讠', '舌'] },
+  '码': { radical: '石', components: ['石', '马'] },
+  '每': { radical: '母', components: [] },
+  '午': { radical: '十', components: [] },
+  '做': { radical: '亻', components: ['亻', '故'] },
+  '时': { radical: '日', components: ['日', '寸'] },
+  '候': { radical: '亻', components: [] },
+  '休': { radical: '亻', components: ['亻', '木'] },
+  '息': { radical: '心', components: ['自', '心'] },
+  '跟': { radical: '足', components: ['⻊', '艮'] },
+  '谁': { radical: '讠', components: ['讠', '隹'] },
+  '睡': { radical: '目', components: ['目', '垂'] },
+  '觉': { radical: '见', components: ['⺍', '冖', '见'] },
+  '晚': { radical: '日', components: ['日', '免'] },
+  '上': { radical: '一', components: [] },
+  '王': { radical: '王', components: [] },
+  '北': { radical: '匕', components: [] },
+  '京': { radical: '亠', components: ['亠', '口', '小'] },
+  '言': { radical: '言', components: [] },
+  '文': { radical: '文', components: [] },
+  '化': { radical: '亻', components: ['亻', '匕'] },
+  '雨': { radical: '雨', components: [] },
+  '张': { radical: '弓', components: ['弓', '长'] },
+  '省': { radical: '目', components: ['少', '目'] },
+  '宁': { radical: '宀', components: ['宀', '丁'] },
+  '海': { radical: '氵', components: ['氵', '每'] },
+  '防': { radical: '阝', components: ['阝', '方'] },
+  '河': { radical: '氵', components: ['氵', '可'] },
+  '内': { radical: '冂', components: ['冂', '人'] },
+  '外': { radical: '夕', components: ['夕', '卜'] },
+  '心': { radical: '心', components: [] },
+  '想': { radical: '心', components: ['相', '心'] },
+  '当': { radical: '小', components: [] },
+  '然': { radical: '灬', components: ['月', '犬', '灬'] },
+  '家': { radical: '宀', components: ['宀', '豕'] },
+  '兄': { radical: '儿', components: ['口', '儿'] },
+  '独': { radical: '犭', components: ['犭', '虫'] },
+  '工': { radical: '工', components: [] },
+  '作': { radical: '亻', components: ['亻', '乍'] },
+  '父': { radical: '父', components: [] },
+  '亲': { radical: '立', components: ['立', '木'] },
+  '母': { radical: '母', components: [] },
+  '司': { radical: '口', components: [] },
+  '职': { radical: '耳', components: ['耳', '只'] },
+  '员': { radical: '口', components: ['口', '贝'] },
+  '记': { radical: '讠', components: ['讠', '己'] },
+  '者': { radical: '老', components: ['耂', '日'] },
+  '片': { radical: '片', components: [] },
+  '今': { radical: '人', components: [] },
+  '年': { radical: '干', components: [] },
+  '纪': { radical: '纟', components: ['纟', '己'] },
+  '岁': { radical: '山', components: ['山', '夕'] },
+  '秘': { radical: '禾', components: ['禾', '必'] },
+  '密': { radical: '宀', components: ['宀', '必', '山'] },
+  '孩': { radical: '子', components: ['子', '亥'] },
+  '真': { radical: '十', components: [] },
+  '售': { radical: '口', components: ['隹', '口'] },
+  '货': { radical: '贝', components: ['化', '贝'] },
+  '经': { radical: '纟', components: [] },
+  '理': { radical: '王', components: ['王', '里'] },
+  '机': { radical: '木', components: ['木', '几'] },
+  '爷': { radical: '父', components: ['父', '卩'] },
+  '叶': { radical: '口', components: ['口', '十'] },
+  '直': { radical: '十', components: [] },
+  '现': { radical: '王', components: ['王', '见'] },
+  '点': { radical: '灬', components: ['占', '灬'] },
+  '刻': { radical: '刂', components: ['亥', '刂'] },
+  '早': { radical: '日', components: ['日', '十'] },
+  '半': { radical: '十', components: [] },
+  '课': { radical: '讠', components: ['讠', '果'] },
+  '从': { radical: '人', components: ['人', '人'] },
+  '到': { radical: '刂', components: ['至', '刂'] },
+  '月': { radical: '月', components: [] },
+  '日': { radical: '日', components: [] },
+  '星': { radical: '日', components: ['日', '生'] },
+  '期': { radical: '月', components: ['其', '月'] },
+  '吧': { radical: '口', components: ['口', '巴'] },
+  '咱': { radical: '口', components: ['口', '自'] },
+  '啊': { radical: '口', components: ['口', '阿'] },
+  '出': { radical: '凵', components: [] },
+  '差': { radical: '工', components: [] },
+  '等': { radical: '竹', components: ['⺮', '寺'] },
+  '床': { radical: '广', components: ['广', '木'] },
+  '前': { radical: '刀', components: [] },
+  '昨': { radical: '日', components: ['日', '乍'] },
+  '后': { radical: '口', components: [] },
+  '边': { radical: '辶', components: ['辶', '力'] },
+  '南': { radical: '十', components: [] },
+  '附': { radical: '阝', components: ['阝', '付'] },
+  '东': { radical: '一', components: [] },
+  '影': { radical: '彡', components: ['景', '彡'] },
+  '药': { radical: '艹', components: ['艹', '约'] },
+  '旁': { radical: '方', components: [] },
+  '照': { radical: '灬', components: ['昭', '灬'] },
+  '左': { radical: '工', components: [] },
+  '右': { radical: '口', components: [] },
+  '桌': { radical: '木', components: [] },
+  '台': { radical: '口', components: ['厶', '口'] },
+  '灯': { radical: '火', components: ['火', '丁'] },
+  '抽': { radical: '扌', components: ['扌', '由'] },
+  '屉': { radical: '尸', components: ['尸', '世'] },
+  '巧': { radical: '工', components: ['工', '丂'] },
+  '克': { radical: '十', components: ['古', '儿'] },
+  '鞋': { radical: '革', components: ['革', '圭'] },
+  '镜': { radical: '钅', components: ['钅', '竟'] },
+  '闹': { radical: '门', components: ['门', '市'] },
+  '钟': { radical: '钅', components: ['钅', '中'] },
+  '零': { radical: '雨', components: ['雨', '令'] },
+  '找': { radical: '扌', components: ['扌', '戈'] },
+  '数': { radical: '攵', components: ['娄', '攵'] },
+  '橘': { radical: '木', components: ['木', '矞'] },
+  '斤': { radical: '斤', components: [] },
+  '甜': { radical: '舌', components: ['舌', '甘'] },
+  '尝': { radical: '小', components: [] },
+  '柿': { radical: '木', components: ['木', '市'] },
+  '鲜': { radical: '鱼', components: ['鱼', '羊'] },
+  '摘': { radical: '扌', components: [] },
+  '酸': { radical: '酉', components: ['酉', '夋'] },
+  '辆': { radical: '车', components: ['车', '两'] },
+  '自': { radical: '自', components: [] },
+  '车': { radical: '车', components: [] },
+  '铅': { radical: '钅', components: [] },
+  '苹': { radical: '艹', components: ['艹', '平'] },
+  '果': { radical: '木', components: ['田', '木'] },
+  '凉': { radical: '冫', components: ['冫', '京'] },
+  '热': { radical: '灬', components: ['执', '灬'] },
+  '短': { radical: '矢', components: ['矢', '豆'] },
+  '青': { radical: '青', components: [] },
+  '岛': { radical: '山', components: [] },
+  '录': { radical: '彐', components: [] },
+  '音': { radical: '音', components: ['立', '日'] },
+  '参': { radical: '厶', components: [] },
+  '谋': { radical: '讠', components: ['讠', '某'] },
+  '牌': { radical: '片', components: ['片', '卑'] },
+  '质': { radical: '贝', components: [] },
+  '量': { radical: '里', components: ['旦', '里'] },
+  '又': { radical: '又', components: [] },
+  '价': { radical: '亻', components: ['亻', '介'] },
+  '便': { radical: '亻', components: ['亻', '更'] },
+  '宜': { radical: '宀', components: ['宀', '且'] },
+  '双': { radical: '又', components: ['又', '又'] },
+  '以': { radical: '人', components: [] },
+  '试': { radical: '讠', components: ['讠', '式'] },
+  '合': { radical: '人', components: ['人', '一', '口'] },
+  '适': { radical: '辶', components: ['辶', '舌'] },
+  '件': { radical: '亻', components: ['亻', '牛'] },
+  '白': { radical: '白', components: [] },
+  '丝': { radical: '一', components: [] },
+  '衬': { radical: '衤', components: ['衤', '寸'] },
+  '衣': { radical: '衣', components: [] },
+  '颜': { radical: '页', components: ['彦', '页'] },
+  '色': { radical: '色', components: [] },
+  '只': { radical: '口', components: ['口', '八'] },
+  '种': { radical: '禾', components: ['禾', '中'] },
+  '用': { radical: '用', components: [] },
+  '算': { radical: '竹', components: ['⺮', '目', '廾'] },
+  '裤': { radical: '衤', components: ['衤', '库'] },
+  '乱': { radical: '舌', components: ['舌', '乚'] },
+  '菜': { radical: '艹', components: ['艹', '采'] },
+  '服': { radical: '月', components: [] },
+  '务': { radical: '力', components: ['夂', '力'] },
+  '事': { radical: '亅', components: [] },
+  '单': { radical: '十', components: [] },
+  '鱼': { radical: '鱼', components: [] },
+  '香': { radical: '香', components: ['禾', '日'] },
+  '肉': { radical: '肉', components: [] },
+  '麻': { radical: '麻', components: ['广', '林'] },
+  '婆': { radical: '女', components: ['波', '女'] },
+  '豆': { radical: '豆', components: [] },
+  '腐': { radical: '肉', components: ['府', '肉'] },
+  '碗': { radical: '石', components: ['石', '宛'] },
+  '辣': { radical: '辛', components: ['辛', '束'] },
+  '汤': { radical: '氵', components: [] },
+  '饮': { radical: '饣', components: ['饣', '欠'] },
+  '料': { radical: '斗', components: ['米', '斗'] },
+  '壶': { radical: '士', components: [] },
+  '稍': { radical: '禾', components: ['禾', '肖'] },
+  '得': { radical: '彳', components: [] },
+  '过': { radical: '辶', components: ['辶', '寸'] },
+  '油': { radical: '氵', components: ['氵', '由'] },
+  '喜': { radical: '口', components: [] },
+  '欢': { radical: '欠', components: ['又', '欠'] },
+  '呀': { radical: '口', components: ['口', '牙'] },
+  '咸': { radical: '口', components: [] },
+  '苦': { radical: '艹', components: ['艹', '古'] },
+  '结': { radical: '纟', components: ['纟', '吉'] },
+  '账': { radical: '贝', components: ['贝', '长'] },
+  '餐': { radical: '食', components: [] },
+  '巾': { radical: '巾', components: [] },
+  '纸': { radical: '纟', components: ['纟', '氏'] },
+  '付': { radical: '亻', components: ['亻', '寸'] },
+  '唱': { radical: '口', components: ['口', '昌'] },
+  '卡': { radical: '卜', components: ['上', '卜'] },
+  '拉': { radical: '扌', components: ['扌', '立'] },
+  '意': { radical: '心', components: ['音', '心'] },
+  '思': { radical: '心', components: ['田', '心'] },
+  '告': { radical: '口', components: [] },
+  '诉': { radical: '讠', components: ['讠', '斥'] },
+  '题': { radical: '页', components: ['是', '页'] },
+  '难': { radical: '隹', components: ['又', '隹'] },
+  '川': { radical: '川', components: [] },
+  '走': { radical: '走', components: [] },
+  '往': { radical: '彳', components: ['彳', '主'] },
+  '路': { radical: '足', components: ['⻊', '各'] },
+  '拐': { radical: '扌', components: ['扌', '另'] },
+  '先': { radical: '儿', components: [] },
+  '汽': { radical: '氵', components: ['氵', '气'] },
+  '地': { radical: '土', components: ['土', '也'] },
+  '铁': { radical: '钅', components: ['钅', '失'] },
+  '应': { radical: '广', components: [] },
+  '该': { radical: '讠', components: ['讠', '亥'] },
+  '或': { radical: '戈', components: [] },
+  '骑': { radical: '马', components: ['马', '奇'] },
+  '技': { radical: '扌', components: ['扌', '支'] },
+  '术': { radical: '木', components: ['木', '丶'] },
+  '周': { radical: '冂', components: [] },
+  '末': { radical: '木', components: [] },
+  '火': { radical: '火', components: [] },
+  '飞': { radical: '飞', components: [] },
+  '快': { radical: '忄', components: ['忄', '夬'] },
+  '舒': { radical: '舌', components: ['舍', '予'] },
+  '宽': { radical: '宀', components: [] },
+  '重': { radical: '里', components: [] },
+  '租': { radical: '禾', components: ['禾', '且'] },
+  '送': { radical: '辶', components: ['辶', '关'] },
+  '礼': { radical: '礻', components: ['礻', '乚'] },
+  '物': { radical: '牛', components: ['牛', '勿'] },
+  '花': { radical: '艹', components: ['艹', '化'] },
+  '漂': { radical: '氵', components: ['氵', '票'] },
+  '越': { radical: '走', components: ['走', '戉'] },
+  '武': { radical: '止', components: ['弋', '止'] },
+  '景': { radical: '日', components: ['日', '京'] },
+  '鸿': { radical: '鸟', components: ['江', '鸟'] },
+  '帐': { radical: '巾', components: ['巾', '长'] },
+  '市': { radical: '巾', components: ['亠', '巾'] },
+  '回': { radical: '囗', components: ['囗', '口'] },
+  '念': { radical: '心', components: ['今', '心'] },
+  '座': { radical: '广', components: ['广', '坐'] },
+  '答': { radical: '竹', components: ['⺮', '合'] },
+  '叔': { radical: '又', components: ['上', '小', '又'] },
+  '阿': { radical: '阝', components: ['阝', '可'] },
+  '姨': { radical: '女', components: ['女', '夷'] },
+  '饱': { radical: '饣', components: ['饣', '包'] },
+  '困': { radical: '囗', components: ['囗', '木'] },
+  '开': { radical: '廾', components: [] },
+  '冷': { radical: '冫', components: ['冫', '令'] },
+  '馒': { radical: '饣', components: ['饣', '曼'] },
+  '鸡': { radical: '鸟', components: ['又', '鸟'] },
+  '蛋': { radical: '虫', components: ['疋', '虫'] },
+  '汁': { radical: '氵', components: ['氵', '十'] },
+  '绿': { radical: '纟', components: ['纟', '录'] },
+  '民': { radical: '氏', components: [] },
+  '币': { radical: '巾', components: [] },
+  '盾': { radical: '目', components: [] },
+  '汇': { radical: '氵', components: ['氵', '匚'] },
+  '率': { radical: '亠', components: [] },
+  '亿': { radical: '亻', components: ['亻', '乙'] },
+  '盒': { radical: '皿', components: ['合', '皿'] },
+  '袋': { radical: '衣', components: ['代', '衣'] },
+  '干': { radical: '干', components: [] },
+  '手': { radical: '手', components: [] },
+  '超': { radical: '走', components: ['走', '召'] },
+  '站': { radical: '立', components: ['立', '占'] },
+  '洗': { radical: '氵', components: ['氵', '先'] },
+  '胖': { radical: '月', components: ['月', '半'] },
+  '瘦': { radical: '疒', components: ['疒', '叟'] },
+  '冰': { radical: '冫', components: ['冫', '水'] },
+  '箱': { radical: '竹', components: ['⺮', '相'] },
+  '窗': { radical: '穴', components: ['穴', '囱'] },
+  '户': { radical: '户', components: [] },
+  '特': { radical: '牛', components: ['牛', '寺'] },
+  '址': { radical: '土', components: ['土', '止'] },
+  '网': { radical: '冂', components: [] },
+  '运': { radical: '辶', components: ['辶', '云'] },
+  '动': { radical: '力', components: ['云', '力'] },
+  '注': { radical: '氵', components: ['氵', '主'] },
+  '板': { radical: '木', components: ['木', '反'] },
+  '护': { radical: '扌', components: ['扌', '户'] },
+  '士': { radical: '士', components: [] },
+  '律': { radical: '彳', components: ['彳', '聿'] },
+  '丈': { radical: '一', components: [] },
+  '夫': { radical: '大', components: [] },
+  '妻': { radical: '女', components: [] },
+  '孙': { radical: '子', components: ['子', '小'] },
+  '澡': { radical: '氵', components: ['氵', '喿'] },
+  '刷': { radical: '刂', components: ['届', '刂'] },
+  '牙': { radical: '牙', components: [] },
+  '迟': { radical: '辶', components: ['辶', '尺'] },
+  '椅': { radical: '木', components: ['木', '奇'] },
+  '脑': { radical: '月', components: ['月', '囟'] },
+  '架': { radical: '木', components: ['加', '木'] },
+  '蕉': { radical: '艹', components: ['艹', '焦'] },
+  '瓜': { radical: '瓜', components: [] },
+  '葡': { radical: '艹', components: ['艹', '匍'] },
+  '萄': { radical: '艹', components: ['艹', '匋'] },
+  '橙': { radical: '木', components: ['木', '登'] },
+  '打': { radical: '扌', components: ['扌', '丁'] },
+  '折': { radical: '扌', components: ['扌', '斤'] },
+  '收': { radical: '攵', components: ['丩', '攵'] },
+  '据': { radical: '扌', components: ['扌', '居'] },
+  '裙': { radical: '衤', components: ['衤', '君'] },
+  '套': { radical: '大', components: [] },
+  '穿': { radical: '穴', components: ['穴', '牙'] },
+  '黑': { radical: '黑', components: [] },
+  '黄': { radical: '黄', components: [] },
+  '炒': { radical: '火', components: ['火', '少'] },
+  '烤': { radical: '火', components: ['火', '考'] },
+  '鸭': { radical: '鸟', components: ['甲', '鸟'] },
+  '锅': { radical: '钅', components: ['钅', '呙'] },
+  '筷': { radical: '竹', components: ['⺮', '快'] },
+  '勺': { radical: '勹', components: [] },
+  '摩': { radical: '手', components: ['麻', '手'] },
+  '托': { radical: '扌', components: ['扌', '乇'] },
+  '船': { radical: '舟', components: ['舟', '几', '口'] },
+  '弯': { radical: '弓', components: ['亦', '弓'] },
+  '寄': { radical: '宀', components: ['宀', '奇'] },
 };
 
-export const AI_CONVERSATION_PROMPTS: Record<string, string[]> = {
-  'Bài 17': [
-    '你好',
-    '你好吗',
-    '你爸爸妈妈都好吗',
-    '你哥哥好吗',
-    '你弟弟妹妹好吗',
-    '你姐姐好吗',
-    '你爱人好吗',
-    '你忙吗',
-    '你累吗',
-    '你饿吗',
-    '你渴吗',
-  ],
-  'Bài 18': [
-    '你吃什么',
-    '你喝什么',
-    '你买什么',
-    '你喝茶吗',
-    '你好吗',
-    '你爸爸妈妈都好吗',
-    '你哥哥好吗',
-    '你弟弟妹妹好吗',
-    '你姐姐好吗',
-    '你弟弟妹妹都好吗',
-    '你爱人好吗',
-    '你忙吗',
-    '你累吗',
-    '你饿吗',
-    '你渴吗',
-  ],
-  'Bài 19': [
-    '换什么钱',
-    '换多少钱',
-    '两杯咖啡多少钱',
-    '一个本子多少钱',
-    '四瓶啤酒多少钱',
-    '两个面包多少钱',
-    '三本词典多少钱',
-    '你吃什么',
-    '你喝什么',
-    '你买什么',
-    '你喝茶吗',
-    '你好吗',
-    '你爸爸妈妈都好吗',
-    '你哥哥好吗',
-    '你弟弟妹妹好吗',
-    '你姐姐好吗',
-    '你弟弟妹妹都好吗',
-    '你爱人好吗',
-    '你忙吗',
-    '你累吗',
-    '你饿吗',
-    '你渴吗',
-  ],
-  'Bài 20': [
-    '请问图书馆在哪儿',
-    '请问食堂在哪儿',
-    '请问留学生宿舍在哪儿',
-    '请问办公室在哪儿',
-    '请问七楼在哪儿',
-    '请问邮局在哪儿',
-    '请问银行在哪儿',
-    '请问医院在哪儿',
-    '请问商店在哪儿',
-    '请问书店在哪儿',
-    '你去哪儿',
-    '换什么钱',
-    '换多少钱',
-    '两杯咖啡多少钱',
-    '一个本子多少钱',
-    '四瓶啤酒多少钱',
-    '两个面包多少钱',
-    '三本词典多少钱',
-    '你吃什么',
-    '你喝什么',
-    '你买什么',
-    '你喝茶吗',
-    '你好吗',
-    '你爸爸妈妈都好吗',
-    '你哥哥好吗',
-    '你弟弟 妹妹好吗',
-    '你姐姐好吗',
-    '你弟弟妹妹都好吗',
-    '你爱人好吗',
-    '你忙吗',
-    '你累吗',
-    '你饿吗',
-    '你渴吗',
-  ],
-  'Bài 21': [
-    '这是什么',
-    '这是什么书',
-    '这是你的书吗',
-    '你是德国人吗',
-    '你学习什么',
-    '你学习好吗',
-    '她是你姐姐吗',
-    '请问图书馆在哪儿',
-    '请问食堂在哪儿',
-    '请问留学生宿舍在哪儿',
-    '请问办公室在哪儿',
-    '请问七楼在哪儿',
-    '请问邮局在哪儿',
-    '请问银行在哪儿',
-    '请问医院在哪儿',
-    '请问商店在哪儿',
-    '请问书店在哪儿',
-    '你去哪儿',
-    '换什么钱',
-    '换多少钱',
-    '两杯咖啡多少钱',
-    '一个本子多少钱',
-    '四瓶啤酒多少钱',
-    '两个面包多少钱',
-    '三本词典多少钱',
-    '你吃什么',
-    '你喝什么',
-    '你买什么',
-    '你喝茶吗',
-    '你好吗',
-    '你爸爸妈妈都好吗',
-    '你哥哥好吗',
-    '你弟弟 妹妹好吗',
-    '你姐姐好吗',
-    '你弟弟妹妹都好吗',
-    '你爱人好吗',
-    '你忙吗',
-    '你累吗',
-    '你饿吗',
-    '你渴吗',
-  ],
-  'Bài 22': [
-    '最近你身体好吗',
-    '你学习忙吗',
-    '你成绩好吗',
-    '你们班同学学习努力吗',
-    '你的宿舍大不大',
-    '宿舍里有没有空调',
-    '你有没有同屋',
-    '你的宿舍离教室远不远',
-    '你们学校学生多不多',
-    '你们学校食堂怎么样',
-    '这是什么',
-    '这是什么书',
-    '这是你的书吗',
-    '你是德国人吗',
-    '你学习什么',
-    '你学习好吗',
-    '她是你姐姐吗',
-  ],
-  'Bài 23': [
-    '你是哪国人',
-    '你叫什么名字',
-    '您贵姓',
-    '你学习什么',
-    '你在哪儿学习汉语',
-    '你们班有多少学生',
-    '几位老师教你们',
-    '你住哪儿',
-    '你住几号楼',
-    '你的房间是多少号',
-    '你的电话号码是多少',
-    '每天下午你做什么',
-    '你跟谁一起学习',
-    '最近你身体好吗',
-    '你学习忙吗',
-    '你成绩好吗',
-    '你们班同学学习努力吗',
-    '你的宿舍大不大',
-    '宿舍里有没有空调',
-    '你有没有同屋',
-    '你的宿舍离教室远不远',
-    '你们学校学生多不多',
-    '你们学校食堂怎么样',
-  ],
-  'Bài 24': [
-    '你想不想家',
-    '你家有几口人',
-    '你家有什么人',
-    '你有没有兄弟姐妹',
-    '你父亲在哪儿工作',
-    '你母亲呢',
-    '两个哥哥做什么工作',
-    '你是做什么工作的',
-    '你在哪儿工作',
-    '你父母今年多大年纪',
-    '你哥哥今年多大',
-    '你孩子今年几岁',
-    '你是哪国人',
-    '你叫什么名字',
-    '您贵姓',
-    '你学习什么',
-    '你在哪儿学习汉语',
-    '你们班有多少学生',
-    '几位老师教你们',
-    '你住哪儿',
-    '你住几号楼',
-    '你的房间是多少号',
-    '你的电话号码是多少',
-    '每天下午你做什么',
-    '你跟谁一起学习',
-  ],
-  'Bài 25': [
-    '现在几点',
-    '你几点吃早饭',
-    '你什么时候上课',
-    '今天几月几号',
-    '今天星期几',
-    '二十五号是星期天吧',
-    '星期天咱们去颐和园怎么样',
-    '什么时候出发',
-    '上午九点行吗',
-    '咱们几点见面',
-    '咱们在哪儿见面',
-    '你想不想家',
-    '你家有几口人',
-    '你家有什么人',
-    '你有没有兄弟姐妹',
-    '你父亲在哪儿工作',
-    '你母亲呢',
-    '两个哥哥做什么工作',
-    '你是做什么工作的',
-    '你在哪儿工作',
-    '你父母今年多大年纪',
-    '你哥哥今年多大',
-    '你孩子今年几岁',
-  ],
-  'Bài 26': [
-    '你左边是谁',
-    '你前边是什么',
-    '桌子上边有什么',
-    '抽屉里有什么',
-    '桌子下边是什么',
-    '你后边是你妹妹吗',
-    '附近有药店吗',
-    '长海公司对面是银行吗',
-    '银行旁边是邮局吗',
-    '现在几点',
-    '你几点吃早饭',
-    '你什么时候上课',
-    '今天几月几号',
-    '今天星期几',
-    '二十五号是星期天吧',
-    '星期天咱们去颐和园怎么样',
-    '什么时候出发',
-    '上午九点行吗',
-    '咱们几点见面',
-    '咱们在哪儿见面',
-  ],
-  'Bài 27': [
-    '你要红的还是要蓝的',
-    '还要别的吗',
-    '请问哪儿卖啤酒',
-    '有青岛啤酒吗',
-    '一共多少钱',
-    '您有零钱吗',
-    '橘子多少钱一斤',
-    '甜不甜',
-    '西红柿怎么卖',
-    '新鲜不新鲜',
-    '你左边是谁',
-    '你前边是什么',
-    '桌子上边有什么',
-    '抽屉里有什么',
-    '桌子下边是什么',
-    '你后边是你妹妹吗',
-    '附近有药店吗',
-    '附近有药店吗',
-    '长海公司对面是银行吗',
-    '银行旁边是邮局吗',
-  ],
-  'Bài 28': [
-    '您想买多少钱的',
-    '这双鞋是多大号的',
-    '我可以试试吗',
-    '有大一点儿的吗',
-    '您想买点什么',
-    '有别的颜色的吗',
-    '多少钱一件',
-    '便宜点儿吧',
-    '你要红的还是要蓝的',
-    '还要别的吗',
-    '请问哪儿卖啤酒',
-    '有青岛啤酒吗',
-    '一共多少钱',
-    '您有零钱吗',
-    '橘子多少钱一斤',
-    '甜不甜',
-    '西红柿怎么卖',
-    '新鲜不新鲜',
-  ],
+// Hán Việt names of the radicals above.
+export const RADICAL_NAMES: Record<string, string> = {
+  '一': 'Nhất', '丨': 'Cổn', '丿': 'Phiệt', '乙': 'Ất', '亅': 'Quyết', '二': 'Nhị', '亠': 'Đầu', '人': 'Nhân',
+  '亻': 'Nhân đứng', '儿': 'Nhân đi', '八': 'Bát', '冂': 'Quynh', '冖': 'Mịch', '冫': 'Băng', '几': 'Kỷ',
+  '凵': 'Khảm', '刀': 'Đao', '刂': 'Đao đứng', '力': 'Lực', '勹': 'Bao', '匕': 'Chủy', '匚': 'Phương', '十': 'Thập',
+  '卜': 'Bốc', '厂': 'Hán', '厶': 'Khư', '又': 'Hựu', '口': 'Khẩu', '囗': 'Vi', '土': 'Thổ', '士': 'Sĩ', '夕': 'Tịch',
+  '大': 'Đại', '女': 'Nữ', '子': 'Tử', '宀': 'Miên', '小': 'Tiểu', '尢': 'Uông', '尸': 'Thi', '山': 'Sơn',
+  '川': 'Xuyên', '工': 'Công', '巾': 'Cân', '干': 'Can', '广': 'Nghiễm', '廾': 'Củng', '弓': 'Cung', '彐': 'Kệ',
+  '彡': 'Sam', '彳': 'Xích', '心': 'Tâm', '忄': 'Tâm đứng', '戈': 'Qua', '户': 'Hộ', '手': 'Thủ', '扌': 'Thủ',
+  '支': 'Chi', '攵': 'Phộc', '文': 'Văn', '斗': 'Đẩu', '斤': 'Cân', '方': 'Phương', '日': 'Nhật', '曰': 'Viết',
+  '月': 'Nguyệt', '木': 'Mộc', '欠': 'Khiếm', '止': 'Chỉ', '母': 'Mẫu', '比': 'Tỷ', '毛': 'Mao', '氏': 'Thị',
+  '气': 'Khí', '水': 'Thủy', '氵': 'Thủy', '火': 'Hỏa', '灬': 'Hỏa', '爫': 'Trảo', '父': 'Phụ', '片': 'Phiến',
+  '牙': 'Nha', '牛': 'Ngưu', '犭': 'Khuyển', '王': 'Ngọc', '瓜': 'Qua', '瓦': 'Ngõa', '生': 'Sinh', '用': 'Dụng',
+  '田': 'Điền', '疒': 'Nạch', '白': 'Bạch', '皿': 'Mãnh', '目': 'Mục', '矢': 'Thỉ', '石': 'Thạch', '礻': 'Thị',
+  '禾': 'Hòa', '穴': 'Huyệt', '立': 'Lập', '竹': 'Trúc', '米': 'Mễ', '糸': 'Mịch', '纟': 'Mịch', '罒': 'Võng',
+  '羊': 'Dương', '老': 'Lão', '耳': 'Nhĩ', '肉': 'Nhục', '自': 'Tự', '舌': 'Thiệt', '舟': 'Chu', '色': 'Sắc',
+  '艹': 'Thảo', '虍': 'Hô', '虫': 'Trùng', '衣': 'Y', '衤': 'Y', '襾': 'Á', '见': 'Kiến', '角': 'Giác', '言': 'Ngôn',
+  '讠': 'Ngôn', '豆': 'Đậu', '贝': 'Bối', '走': 'Tẩu', '足': 'Túc', '身': 'Thân', '车': 'Xa', '辛': 'Tân',
+  '辶': 'Sước', '酉': 'Dậu', '里': 'Lý', '钅': 'Kim', '长': 'Trường', '门': 'Môn', '阝': 'Phụ', '隹': 'Chuy',
+  '雨': 'Vũ', '青': 'Thanh', '非': 'Phi', '面': 'Diện', '革': 'Cách', '韦': 'Vi', '音': 'Âm', '页': 'Hiệt',
+  '飞': 'Phi', '食': 'Thực', '饣': 'Thực', '香': 'Hương', '马': 'Mã', '高': 'Cao', '鱼': 'Ngư', '鸟': 'Điểu',
+  '麻': 'Ma', '黄': 'Hoàng', '黑': 'Hắc',
 };
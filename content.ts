@@ -0,0 +1,46 @@
+import { DEFAULT_PACK, loadUserPacks } from './contentPack';
+import type { ContentPack, Exercise, GrammarPoint, Lesson, SupplementaryWord, VocabularyWord } from './types';
+
+// --- The course as provided by the loaded content packs ---
+//
+// Built once when the module is first imported, which happens after storage
+// is initialised (see index.tsx), so installed packs are included. Installing
+// or removing a pack reloads the page.
+
+export interface LoadedPack {
+  id: string;
+  title: string;
+  builtIn: boolean;
+  lessonIds: number[];
+}
+
+export const CONTENT_PACKS: LoadedPack[] = [];
+export const LESSONS: Lesson[] = [];
+export const VOCABULARY_DATA: Record<string, Record<string, VocabularyWord[]>> = {};
+export const AI_CONVERSATION_PROMPTS: Record<string, string[]> = {};
+export const GRAMMAR_DATA: Record<string, GrammarPoint[]> = {};
+export const EXERCISE_DATA: Record<string, Exercise[]> = {};
+export const SUPPLEMENTARY_VOCABULARY: Record<string, SupplementaryWord[]> = {};
+
+const addPack = (pack: ContentPack, builtIn: boolean) => {
+  const loaded: LoadedPack = { id: pack.id, title: pack.title, builtIn, lessonIds: [] };
+  pack.lessons.forEach(lesson => {
+    // Installation rejects clashing names; this only guards packs saved by hand.
+    if (VOCABULARY_DATA[lesson.name]) {
+      console.error(`Lesson "${lesson.name}" from pack "${pack.id}" is already provided by another pack`);
+      return;
+    }
+    const id = LESSONS.length + 1;
+    LESSONS.push({ id, name: lesson.name });
+    loaded.lessonIds.push(id);
+    VOCABULARY_DATA[lesson.name] = lesson.vocabulary;
+    if (lesson.prompts) AI_CONVERSATION_PROMPTS[lesson.name] = lesson.prompts;
+    if (lesson.grammar) GRAMMAR_DATA[lesson.name] = lesson.grammar;
+    if (lesson.exercises) EXERCISE_DATA[lesson.name] = lesson.exercises;
+    if (lesson.supplementary) SUPPLEMENTARY_VOCABULARY[lesson.name] = lesson.supplementary;
+  });
+  CONTENT_PACKS.push(loaded);
+};
+
+addPack(DEFAULT_PACK, true);
+loadUserPacks().forEach(pack => addPack(pack, false));
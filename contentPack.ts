@@ -0,0 +1,243 @@
+import { readValue, writeValue } from './storage';
+import type { ContentPack } from './types';
+import bundledPack from './content/hsk1-bai-16-30.json';
+
+// --- Versioned JSON content packs: format, validation and the installed list ---
+
+export const CONTENT_PACK_FORMAT = 'tieng-trung-ai-content';
+export const CONTENT_PACK_VERSION = 1;
+export const DEFAULT_PACK_ID = 'hsk1-bai-16-30';
+
+const MAX_REPORTED_ERRORS = 20;
+
+// --- Validation ---
+
+export interface ContentPackValidation {
+  pack: ContentPack | null;
+  errors: string[];
+}
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'mảng' : value === null ? 'null' : typeof value);
+
+const expectString = (value: unknown, path: string, errors: string[], allowEmpty = false) => {
+  if (typeof value !== 'string') errors.push(`${path}: cần chuỗi, nhận ${describe(value)}`);
+  else if (!allowEmpty && !value.trim()) errors.push(`${path}: không được để trống`);
+};
+
+const expectNumber = (value: unknown, path: string, errors: string[]) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}: cần số, nhận ${describe(value)}`);
+};
+
+const expectArray = (value: unknown, path: string, errors: string[], item: Check, minLength = 0) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: cần mảng, nhận ${describe(value)}`);
+    return;
+  }
+  if (value.length < minLength) errors.push(`${path}: cần ít nhất ${minLength} phần tử`);
+  value.forEach((entry, i) => item(entry, `${path}[${i}]`, errors));
+};
+
+const expectStringArray: Check = (value, path, errors) =>
+  expectArray(value, path, errors, (entry, p, e) => expectString(entry, p, e));
+
+const expectObject = (value: unknown, path: string, errors: string[]): value is Record<string, unknown> => {
+  if (isRecord(value)) return true;
+  errors.push(`${path}: cần object, nhận ${describe(value)}`);
+  return false;
+};
+
+const checkWord: Check = (value, path, errors) => {
+  if (!expectObject(value, path, errors)) return;
+  expectNumber(value.id, `${path}.id`, errors);
+  expectString(value.char, `${path}.char`, errors);
+  // Some sections (e.g. 'Giao tiếp') have lines without pinyin or translation.
+  expectString(value.pinyin, `${path}.pinyin`, errors, true);
+  expectString(value.vi, `${path}.vi`, errors, true);
+};
+
+const checkSupplementaryWord: Check = (value, path, errors) => {
+  checkWord(value, path, errors);
+  if (!isRecord(value)) return;
+  expectString(value.theme, `${path}.theme`, errors);
+  if (value.related === undefined) return;
+  if (!expectObject(value.related, `${path}.related`, errors)) return;
+  expectString(value.related.char, `${path}.related.char`, errors);
+  if (value.related.kind !== 'synonym' && value.related.kind !== 'lookalike') {
+    errors.push(`${path}.related.kind: phải là 'synonym' hoặc 'lookalike'`);
+  }
+  expectString(value.related.note, `${path}.related.note`, errors);
+};
+
+const checkGrammarPoint: Check = (value, path, errors) => {
+  if (!expectObject(value, path, errors)) return;
+  expectNumber(value.id, `${path}.id`, errors);
+  expectString(value.title, `${path}.title`, errors);
+  expectString(value.pattern, `${path}.pattern`, errors);
+  expectString(value.explanation, `${path}.explanation`, errors);
+  expectArray(value.examples, `${path}.examples`, errors, (example, p, e) => {
+    if (!expectObject(example, p, e)) return;
+    expectString(example.char, `${p}.char`, e);
+    expectString(example.pinyin, `${p}.pinyin`, e);
+    expectString(example.vi, `${p}.vi`, e);
+  });
+  expectStringArray(value.vocabulary, `${path}.vocabulary`, errors);
+};
+
+const checkAnswerIndex = (value: Record<string, unknown>, path: string, errors: string[]) => {
+  expectArray(value.options, `${path}.options`, errors, (o, p, e) => expectString(o, p, e), 2);
+  const count = Array.isArray(value.options) ? value.options.length : 0;
+  if (!Number.isInteger(value.answer) || (value.answer as number) < 0 || (value.answer as number) >= count) {
+    errors.push(`${path}.answer: phải là vị trí của một phương án (0–${Math.max(count - 1, 0)})`);
+  }
+};
+
+const checkExercise: Check = (value, path, errors) => {
+  if (!expectObject(value, path, errors)) return;
+  expectNumber(value.id, `${path}.id`, errors);
+  switch (value.type) {
+    case 'multiple-choice':
+      expectString(value.prompt, `${path}.prompt`, errors);
+      checkAnswerIndex(value, path, errors);
+      break;
+    case 'listening':
+      expectString(value.audio, `${path}.audio`, errors);
+      checkAnswerIndex(value, path, errors);
+      break;
+    case 'fill-blank':
+      expectString(value.sentence, `${path}.sentence`, errors);
+      if (typeof value.sentence === 'string' && !value.sentence.includes('___')) {
+        errors.push(`${path}.sentence: thiếu chỗ trống ___`);
+      }
+      expectString(value.answer, `${path}.answer`, errors);
+      if (value.options !== undefined) {
+        expectStringArray(value.options, `${path}.options`, errors);
+        if (Array.isArray(value.options) && !value.options.includes(value.answer)) {
+          errors.push(`${path}.options: không chứa đáp án`);
+        }
+      }
+      if (value.translation !== undefined) expectString(value.translation, `${path}.translation`, errors);
+      break;
+    case 'reorder':
+      expectArray(value.tokens, `${path}.tokens`, errors, (t, p, e) => expectString(t, p, e), 2);
+      expectString(value.translation, `${path}.translation`, errors);
+      break;
+    case 'matching':
+      expectArray(value.pairs, `${path}.pairs`, errors, (pair, p, e) => {
+        if (!expectObject(pair, p, e)) return;
+        expectString(pair.char, `${p}.char`, e);
+        expectString(pair.vi, `${p}.vi`, e);
+      }, 2);
+      break;
+    default:
+      errors.push(`${path}.type: loại bài tập không hợp lệ (${String(value.type)})`);
+  }
+};
+
+const checkLesson: Check = (value, path, errors) => {
+  if (!expectObject(value, path, errors)) return;
+  expectString(value.name, `${path}.name`, errors);
+  if (expectObject(value.vocabulary, `${path}.vocabulary`, errors)) {
+    Object.entries(value.vocabulary).forEach(([section, words]) =>
+      expectArray(words, `${path}.vocabulary['${section}']`, errors, checkWord));
+  }
+  if (value.prompts !== undefined) expectStringArray(value.prompts, `${path}.prompts`, errors);
+  if (value.grammar !== undefined) expectArray(value.grammar, `${path}.grammar`, errors, checkGrammarPoint);
+  if (value.exercises !== undefined) expectArray(value.exercises, `${path}.exercises`, errors, checkExercise);
+  if (value.supplementary !== undefined) {
+    expectArray(value.supplementary, `${path}.supplementary`, errors, checkSupplementaryWord);
+  }
+};
+
+export const validateContentPack = (value: unknown): ContentPackValidation => {
+  const errors: string[] = [];
+  if (!isRecord(value) || value.format !== CONTENT_PACK_FORMAT) {
+    return { pack: null, errors: ['Đây không phải gói bài học của ứng dụng (format không đúng).'] };
+  }
+  if (value.version !== CONTENT_PACK_VERSION) {
+    const newer = typeof value.version === 'number' && value.version > CONTENT_PACK_VERSION;
+    return {
+      pack: null,
+      errors: [newer
+        ? 'Gói bài học dùng phiên bản định dạng mới hơn. Hãy cập nhật ứng dụng rồi thử lại.'
+        : `Phiên bản định dạng không được hỗ trợ: ${String(value.version)}.`],
+    };
+  }
+
+  expectString(value.id, 'id', errors);
+  expectString(value.title, 'title', errors);
+  expectArray(value.lessons, 'lessons', errors, checkLesson, 1);
+
+  if (Array.isArray(value.lessons)) {
+    const seen = new Set<string>();
+    value.lessons.forEach((lesson, i) => {
+      const name = isRecord(lesson) ? lesson.name : undefined;
+      if (typeof name !== 'string') return;
+      if (seen.has(name)) errors.push(`lessons[${i}].name: trùng tên bài '${name}'`);
+      seen.add(name);
+    });
+  }
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const hidden = errors.length - MAX_REPORTED_ERRORS;
+    errors.splice(MAX_REPORTED_ERRORS, hidden, `… và ${hidden} lỗi khác`);
+  }
+  return { pack: errors.length === 0 ? (value as unknown as ContentPack) : null, errors };
+};
+
+export const parseContentPack = (text: string): ContentPackValidation => {
+  try {
+    return validateContentPack(JSON.parse(text));
+  } catch {
+    return { pack: null, errors: ['File không đúng định dạng JSON.'] };
+  }
+};
+
+// --- Installed packs ---
+
+// The course shipped with the app goes through the same validation as an
+// imported pack; a broken file fails loudly at startup rather than later.
+const loadBundledPack = (): ContentPack => {
+  const { pack, errors } = validateContentPack(bundledPack);
+  if (!pack) throw new Error(`The bundled content pack is invalid: ${errors.join('; ')}`);
+  return pack;
+};
+
+export const DEFAULT_PACK: ContentPack = loadBundledPack();
+
+// Packs saved by an earlier build are validated again, so a broken entry is
+// skipped instead of breaking the app.
+export const loadUserPacks = (): ContentPack[] => {
+  const stored = readValue('content_packs');
+  if (!Array.isArray(stored)) return [];
+  return stored.filter(pack => {
+    const { errors } = validateContentPack(pack);
+    if (errors.length > 0) console.error(`Skipping invalid content pack "${pack?.id}"`, errors);
+    return errors.length === 0;
+  });
+};
+
+// Lesson names key all lesson data, so a pack may not reuse a name that
+// another installed pack already provides. Re-importing a pack with the same
+// id replaces it.
+export const findLessonNameConflicts = (pack: ContentPack, installed: ContentPack[]): string[] => {
+  const taken = new Set(
+    [DEFAULT_PACK, ...installed]
+      .filter(other => other.id !== pack.id)
+      .flatMap(other => other.lessons.map(lesson => lesson.name)),
+  );
+  return pack.lessons.map(lesson => lesson.name).filter(name => taken.has(name));
+};
+
+export const installContentPack = (pack: ContentPack) => {
+  const others = loadUserPacks().filter(p => p.id !== pack.id);
+  writeValue('content_packs', [...others, pack]);
+};
+
+export const removeContentPack = (id: string) => {
+  writeValue('content_packs', loadUserPacks().filter(p => p.id !== id));
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PACK } from './contentPack';
+import { validateLessonContent, validatePackContent } from './contentValidator';
+import type { ContentCheck } from './contentValidator';
+import type { ContentPackLesson, VocabularyWord } from './types';
+
+const word = (id: number, char: string, pinyin: string, vi = ''): VocabularyWord => ({ id, char, pinyin, vi });
+
+// A small lesson that passes every check; each test breaks one thing.
+const lesson = (overrides: Partial<ContentPackLesson> = {}): ContentPackLesson => ({
+  name: 'Bài thử',
+  vocabulary: {
+    'Từ mới': [word(1, '老师', 'lǎoshī', 'giáo viên'), word(2, '一点儿', 'yìdiǎnr', 'một chút')],
+    'Gõ từ mới': [word(1, '老师', 'lǎoshī', 'giáo viên')],
+    'Gõ bài khóa': [word(1, '你好，老师！', 'Nǐ hǎo, lǎoshī!', 'Chào thầy!')],
+  },
+  prompts: ['你是老师吗？', '你好吗？'],
+  ...overrides,
+});
+
+const checksOf = (l: ContentPackLesson): ContentCheck[] => validateLessonContent(l).map(issue => issue.check);
+
+describe('validateLessonContent', () => {
+  it('accepts a well-formed lesson', () => {
+    expect(validateLessonContent(lesson())).toEqual([]);
+  });
+
+  it('reports duplicate ids within a section', () => {
+    const issues = validateLessonContent(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Từ mới': [word(1, '老师', 'lǎoshī'), word(1, '学生', 'xuésheng')] },
+    }));
+    expect(issues).toContainEqual(expect.objectContaining({ check: 'duplicate-id', severity: 'error', section: 'Từ mới' }));
+  });
+
+  it('reports duplicate prompts, ignoring punctuation', () => {
+    expect(checksOf(lesson({ prompts: ['你好吗？', '你好吗?'] }))).toEqual(['duplicate-prompt']);
+  });
+
+  it('warns when a lesson has no prompts', () => {
+    const issues = validateLessonContent(lesson({ prompts: [] }));
+    expect(issues).toEqual([expect.objectContaining({ check: 'missing-prompts', severity: 'warning' })]);
+  });
+
+  it('reports pinyin with the wrong number of syllables', () => {
+    expect(checksOf(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Từ mới': [word(1, '老师', 'lǎo')] },
+    }))).toContain('syllable-count');
+  });
+
+  it('counts erhua as one syllable and skips digits', () => {
+    expect(checksOf(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Gõ bài khóa': [word(1, '我的房间是109号', 'Wǒ de fángjiān shì yāo líng jiǔ hào')] },
+    }))).toEqual([]);
+  });
+
+  it('reports Latin letters and other non-Hanzi in word sections', () => {
+    expect(checksOf(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Từ mới': [word(1, '老师a', 'lǎoshī')] },
+    }))).toContain('non-hanzi-char');
+    expect(checksOf(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Gõ bài khóa': [word(1, '你好 teacher', 'nǐ hǎo')] },
+    }))).toContain('non-hanzi-char');
+  });
+
+  it('accepts grammar pattern notation in word sections', () => {
+    expect(checksOf(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Từ mới': [word(1, '从...到...', 'cóng...dào...'), word(2, '没(有)', 'méi(yǒu)')] },
+    }))).not.toContain('non-hanzi-char');
+  });
+
+  it('warns about typing words that are not taught', () => {
+    const issues = validateLessonContent(lesson({
+      vocabulary: { ...lesson().vocabulary, 'Gõ từ mới': [word(1, '学生', 'xuésheng')] },
+    }));
+    expect(issues).toEqual([expect.objectContaining({ check: 'typing-word-not-taught', severity: 'warning' })]);
+  });
+});
+
+describe('the bundled course', () => {
+  const issues = validatePackContent(DEFAULT_PACK);
+
+  it('has no errors', () => {
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it.each<ContentCheck>(['duplicate-id', 'duplicate-prompt', 'syllable-count', 'non-hanzi-char', 'typing-word-not-taught'])(
+    'does not trigger %s',
+    check => {
+      expect(issues.filter(issue => issue.check === check)).toEqual([]);
+    },
+  );
+
+  it('only lacks prompts where none were written', () => {
+    expect(issues.filter(issue => issue.check === 'missing-prompts').map(issue => issue.lessonName)).toEqual(['Bài 16', 'Bài 29', 'Bài 30']);
+  });
+});
@@ -0,0 +1,163 @@
+import { splitSyllables } from './pinyin';
+import type { ContentPack, ContentPackLesson, VocabularyWord } from './types';
+
+// --- Consistency checks for lesson content (run by scripts/validateContent.ts) ---
+//
+// Pure functions over a content pack: they only report problems and never
+// touch storage, so they work on the bundled course and on pack files alike.
+
+export type ContentCheck =
+  | 'duplicate-id'
+  | 'duplicate-prompt'
+  | 'missing-prompts'
+  | 'syllable-count'
+  | 'non-hanzi-char'
+  | 'typing-word-not-taught';
+
+export interface ContentIssue {
+  severity: 'error' | 'warning';
+  check: ContentCheck;
+  lessonName: string;
+  section?: string;
+  message: string;
+}
+
+const NEW_WORDS_SECTION = 'Từ mới';
+const TYPING_WORDS_SECTION = 'Gõ từ mới';
+// Sections holding single words rather than sentences.
+const WORD_SECTIONS = [NEW_WORDS_SECTION, TYPING_WORDS_SECTION];
+
+const HANZI = /[\u4e00-\u9fff]/;
+const HANZI_GLOBAL = /[\u4e00-\u9fff]/g;
+// Grammar patterns are listed as words: 从...到..., 又…又…, 没(有).
+const PATTERN_NOTATION = /[.…()（）]/;
+const DIGIT = /[0-9\uff10-\uff19]/;
+
+// An erhua syllable (nǎr, yìdiǎnr) is one syllable written with two Hanzi;
+// 'er' itself (二, 儿子) is an ordinary syllable.
+const isErhua = (base: string) => base.length > 1 && base.endsWith('r') && base !== 'er';
+
+const describeWord = (word: VocabularyWord) => `#${word.id} '${word.char}'`;
+
+const checkDuplicateIds = (lesson: ContentPackLesson, issues: ContentIssue[]) => {
+  Object.entries(lesson.vocabulary).forEach(([section, words]) => {
+    const seen = new Map<number, VocabularyWord>();
+    words.forEach(word => {
+      const first = seen.get(word.id);
+      if (first) {
+        issues.push({
+          severity: 'error',
+          check: 'duplicate-id',
+          lessonName: lesson.name,
+          section,
+          message: `id ${word.id} dùng cho cả '${first.char}' và '${word.char}'`,
+        });
+      } else {
+        seen.set(word.id, word);
+      }
+    });
+  });
+};
+
+const checkPrompts = (lesson: ContentPackLesson, issues: ContentIssue[]) => {
+  const prompts = lesson.prompts || [];
+  if (prompts.length === 0) {
+    issues.push({
+      severity: 'warning',
+      check: 'missing-prompts',
+      lessonName: lesson.name,
+      message: 'chưa có câu hỏi cho AI giao tiếp',
+    });
+    return;
+  }
+  const seen = new Set<string>();
+  prompts.forEach((prompt, i) => {
+    const normalized = prompt.replace(/[\s？?。！!，,]/g, '');
+    if (seen.has(normalized)) {
+      issues.push({
+        severity: 'error',
+        check: 'duplicate-prompt',
+        lessonName: lesson.name,
+        message: `câu hỏi ${i + 1} '${prompt}' bị lặp`,
+      });
+    }
+    seen.add(normalized);
+  });
+};
+
+// Returns how many syllables `char` should have, or null when that cannot be
+// told from the text (digits are read as one or several syllables).
+export const expectedSyllableCount = (char: string, pinyin: string): number | null => {
+  if (DIGIT.test(char)) return null;
+  const hanzi = char.match(HANZI_GLOBAL)?.length || 0;
+  const erhua = splitSyllables(pinyin).filter(s => isErhua(s.base)).length;
+  return hanzi - erhua;
+};
+
+const checkWords = (lesson: ContentPackLesson, section: string, words: VocabularyWord[], issues: ContentIssue[]) => {
+  const isWordSection = WORD_SECTIONS.includes(section);
+  words.forEach(word => {
+    const char = word.char.trim();
+    if (isWordSection) {
+      const foreign = Array.from(char).filter(c => !HANZI.test(c) && !PATTERN_NOTATION.test(c));
+      if (foreign.length > 0) {
+        issues.push({
+          severity: 'error',
+          check: 'non-hanzi-char',
+          lessonName: lesson.name,
+          section,
+          message: `${describeWord(word)} chứa ký tự không phải chữ Hán: ${foreign.map(c => `'${c}'`).join(' ')}`,
+        });
+      }
+    } else if (/[A-Za-z\u00c0-\u1ef9]/.test(char)) {
+      issues.push({
+        severity: 'error',
+        check: 'non-hanzi-char',
+        lessonName: lesson.name,
+        section,
+        message: `${describeWord(word)} chứa chữ Latinh`,
+      });
+    }
+
+    if (!char || !word.pinyin.trim()) return;
+    const expected = expectedSyllableCount(char, word.pinyin);
+    const actual = splitSyllables(word.pinyin).length;
+    if (expected !== null && expected !== actual) {
+      issues.push({
+        severity: 'error',
+        check: 'syllable-count',
+        lessonName: lesson.name,
+        section,
+        message: `${describeWord(word)} có ${expected} chữ nhưng pinyin '${word.pinyin}' có ${actual} âm tiết`,
+      });
+    }
+  });
+};
+
+const checkTypingWordsTaught = (lesson: ContentPackLesson, issues: ContentIssue[]) => {
+  const typing = lesson.vocabulary[TYPING_WORDS_SECTION];
+  if (!typing) return;
+  const taught = new Set((lesson.vocabulary[NEW_WORDS_SECTION] || []).map(w => w.char.trim()));
+  typing.forEach(word => {
+    if (taught.has(word.char.trim())) return;
+    issues.push({
+      severity: 'warning',
+      check: 'typing-word-not-taught',
+      lessonName: lesson.name,
+      section: TYPING_WORDS_SECTION,
+      message: `${describeWord(word)} không có trong '${NEW_WORDS_SECTION}'`,
+    });
+  });
+};
+
+export const validateLessonContent = (lesson: ContentPackLesson): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+  checkDuplicateIds(lesson, issues);
+  checkPrompts(lesson, issues);
+  Object.entries(lesson.vocabulary).forEach(([section, words]) => checkWords(lesson, section, words, issues));
+  checkTypingWordsTaught(lesson, issues);
+  return issues;
+};
+
+export const validatePackContent = (pack: ContentPack): ContentIssue[] =>
+  pack.lessons.flatMap(validateLessonContent);
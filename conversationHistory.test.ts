@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeByPrompt } from './conversationHistory';
+import type { ConversationSession, QuestionOutcome } from './types';
+
+const session = (outcomes: QuestionOutcome[]): ConversationSession => ({
+  id: 's1',
+  lessonName: 'Bài 27',
+  startedAt: 0,
+  endedAt: 1,
+  transcript: [],
+  outcomes,
+});
+
+describe('summarizeByPrompt', () => {
+  it('counts outcomes by prompt', () => {
+    const [first, second] = summarizeByPrompt(['你好吗', '你是老师吗'], [
+      session([{ index: 0, question: '你好吗', result: 'first-try' }, { index: 1, question: '你是老师吗', result: 'incorrect' }]),
+    ]);
+    expect(first).toMatchObject({ firstTry: 1, incorrect: 0 });
+    expect(second).toMatchObject({ firstTry: 0, incorrect: 1 });
+  });
+
+  it('follows a question to its new position after the list changed', () => {
+    const stats = summarizeByPrompt(['附近有药店吗', '银行旁边是邮局吗'], [
+      session([
+        { index: 1, question: '附近有药店吗', result: 'after-correction' },
+        { index: 2, question: '银行旁边是邮局吗', result: 'first-try' },
+        { index: 3, question: '已经删掉的问题', result: 'incorrect' },
+      ]),
+    ]);
+    expect(stats.map(s => [s.afterCorrection, s.firstTry, s.incorrect])).toEqual([[1, 0, 0], [0, 1, 0]]);
+  });
+});
@@ -0,0 +1,56 @@
+import { readValue, writeValue } from './storage';
+import type { ConversationSession } from './types';
+
+// --- Saved AI conversation sessions ---
+
+const MAX_SESSIONS = 200;
+
+export const loadConversationHistory = (): ConversationSession[] => {
+  const stored = readValue('ai_conversation_history');
+  return Array.isArray(stored) ? stored : [];
+};
+
+export const saveConversationSession = (session: ConversationSession) => {
+  const history = [...loadConversationHistory(), session].slice(-MAX_SESSIONS);
+  writeValue('ai_conversation_history', history);
+};
+
+export const deleteConversationSession = (id: string) => {
+  const history = loadConversationHistory().filter(s => s.id !== id);
+  writeValue('ai_conversation_history', history);
+};
+
+export const mergeConversationHistory = (current: ConversationSession[], incoming: ConversationSession[]): ConversationSession[] => {
+  const ids = new Set(current.map(s => s.id));
+  return [...current, ...incoming.filter(s => !ids.has(s.id))]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .slice(-MAX_SESSIONS);
+};
+
+export interface PromptStats {
+  index: number;
+  question: string;
+  firstTry: number;
+  afterCorrection: number;
+  incorrect: number;
+  unanswered: number;
+}
+
+export const summarizeByPrompt = (prompts: string[], sessions: ConversationSession[]): PromptStats[] => {
+  const stats = prompts.map((question, index) => ({ index, question, firstTry: 0, afterCorrection: 0, incorrect: 0, unanswered: 0 }));
+  sessions.forEach(session => {
+    session.outcomes.forEach(outcome => {
+      // Prompts move when a lesson's list is edited, so an outcome whose
+      // question is no longer at its index is counted where the question is now.
+      const stat = stats[outcome.index]?.question === outcome.question
+        ? stats[outcome.index]
+        : stats.find(s => s.question === outcome.question);
+      if (!stat) return;
+      if (outcome.result === 'first-try') stat.firstTry++;
+      else if (outcome.result === 'after-correction') stat.afterCorrection++;
+      else if (outcome.result === 'incorrect') stat.incorrect++;
+      else stat.unanswered++;
+    });
+  });
+  return stats;
+};
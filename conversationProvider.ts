@@ -0,0 +1,53 @@
+import type { FunctionDeclaration } from '@google/genai';
+
+// --- Conversation provider interface ---
+// The AI tutor UI owns the microphone and the speakers; a provider only moves
+// audio, transcriptions and tool calls between the UI and a tutor backend.
+
+export type ConversationProviderId = 'gemini' | 'mock';
+
+export type ConversationMode = 'voice' | 'text';
+
+export interface ToolCallRequest {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolCallResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ConversationCallbacks {
+  onOpen: () => void;
+  // 16-bit little-endian mono PCM.
+  onAudio: (pcm: Uint8Array, sampleRate: number) => void;
+  onInputTranscription: (text: string) => void;
+  onOutputTranscription: (text: string) => void;
+  onTurnComplete: () => void;
+  onToolCall: (calls: ToolCallRequest[]) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface ConversationConnectOptions {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  callbacks: ConversationCallbacks;
+}
+
+export interface ConversationSessionHandle {
+  // Float samples captured at 16 kHz.
+  sendAudio: (samples: Float32Array) => void;
+  // A typed learner turn. The UI shows it itself, so providers do not echo it back.
+  sendText: (text: string) => void;
+  sendToolResponses: (results: ToolCallResult[]) => void;
+  close: () => void;
+}
+
+export interface ConversationProvider {
+  id: ConversationProviderId;
+  connect: (options: ConversationConnectOptions) => Promise<ConversationSessionHandle>;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PACK } from './contentPack';
+import { checkDictation, isDictatable } from './dictation';
+
+describe('checkDictation', () => {
+  it('ignores punctuation, spaces and full-width forms', () => {
+    expect(checkDictation('你好，老师！', '你好 老师').isCorrect).toBe(true);
+    expect(checkDictation('我有ＡＢ', '我有ab').isCorrect).toBe(true);
+  });
+
+  it('marks wrong, missing and extra characters', () => {
+    expect(checkDictation('你好吗', '你号吗').chars.map(c => c.match)).toEqual(['correct', 'wrong', 'correct']);
+    expect(checkDictation('你好吗', '你吗').chars.map(c => c.match)).toEqual(['correct', 'missing', 'correct']);
+    expect(checkDictation('你好', '你好吗')).toMatchObject({ correct: 2, total: 2, isCorrect: false });
+  });
+});
+
+describe('isDictatable', () => {
+  it('leaves out sentences written with digits', () => {
+    expect(isDictatable('我的房间是109号')).toBe(false);
+    expect(isDictatable('我的电话号码是０９７２')).toBe(false);
+    expect(isDictatable('我的房间是一〇九号')).toBe(true);
+  });
+
+  it('keeps the rest of the bundled texts', () => {
+    const texts = DEFAULT_PACK.lessons.flatMap(lesson => lesson.vocabulary['Gõ bài khóa'] || []).map(w => w.char);
+    expect(texts.filter(text => !isDictatable(text))).toHaveLength(5);
+  });
+});
@@ -0,0 +1,45 @@
+import { alignSequences } from './pinyin';
+
+// --- Dictation (nghe viết): character-level check of a sentence typed from audio ---
+
+export type CharacterMatch = 'correct' | 'wrong' | 'missing' | 'extra';
+
+export interface DictatedCharacter {
+  expected: string | null;
+  typed: string | null;
+  match: CharacterMatch;
+}
+
+export interface DictationCheck {
+  chars: DictatedCharacter[];
+  // Expected characters typed in the right place.
+  correct: number;
+  total: number;
+  isCorrect: boolean;
+}
+
+// Punctuation and spaces cannot be heard, so they are left out on both sides.
+// NFKC folds full-width letters and digits from the IME into ASCII.
+const comparableCharacters = (text: string): string[] =>
+  Array.from(text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, ''));
+
+// A wrong character costs as much as one gap, so 'ab' → 'ac' reads as one
+// wrong character rather than one missing and one extra.
+const characterSubstitutionCost = (a: string, b: string) => (a === b ? 0 : 2);
+
+// Digits are read aloud as Chinese numbers (25号 as èrshíwǔ hào, a phone
+// number digit by digit), so what the learner hears cannot be typed back as
+// written. Sentences with digits are left out of dictation.
+export const isDictatable = (text: string): boolean => !/\p{Nd}/u.test(text);
+
+export const checkDictation = (expected: string, typed: string): DictationCheck => {
+  const chars = alignSequences(comparableCharacters(expected), comparableCharacters(typed), characterSubstitutionCost)
+    .map(([exp, got]): DictatedCharacter => {
+      if (!got) return { expected: exp, typed: null, match: 'missing' };
+      if (!exp) return { expected: null, typed: got, match: 'extra' };
+      return { expected: exp, typed: got, match: exp === got ? 'correct' : 'wrong' };
+    });
+  const correct = chars.filter(c => c.match === 'correct').length;
+  const total = chars.filter(c => c.expected !== null).length;
+  return { chars, correct, total, isCorrect: chars.every(c => c.match === 'correct') };
+};
@@ -0,0 +1,65 @@
+import { VOCABULARY_DATA } from './content';
+import type { VocabularyWord } from './types';
+
+// --- Hanzi → pinyin lookup built from the lesson data ---
+
+export interface PinyinSegment {
+  text: string;
+  pinyin?: string;
+}
+
+// First appearance wins, so a word keeps the pinyin and meaning of the lesson
+// that introduced it.
+const WORD_ENTRIES: Map<string, VocabularyWord> = (() => {
+  const map = new Map<string, VocabularyWord>();
+  Object.values(VOCABULARY_DATA).forEach(sections => {
+    Object.values(sections).forEach(words => {
+      words.forEach(word => {
+        const key = word.char.trim();
+        if (key && !map.has(key)) map.set(key, word);
+      });
+    });
+  });
+  return map;
+})();
+
+const HANZI_PINYIN: Map<string, string> = new Map(
+  Array.from(WORD_ENTRIES, ([key, word]) => [key, word.pinyin.trim()])
+);
+
+const MAX_ENTRY_LENGTH = Math.max(1, ...Array.from(HANZI_PINYIN.keys()).map(k => k.length));
+
+export const lookupWord = (char: string): VocabularyWord | undefined => WORD_ENTRIES.get(char.trim());
+
+export const isHanzi = (char: string) => /[\u4e00-\u9fff]/.test(char);
+
+// Greedy longest-match segmentation. Characters the course never teaches (and
+// any non-Hanzi text) are returned as segments without pinyin.
+export const annotateWithPinyin = (text: string): PinyinSegment[] => {
+  const segments: PinyinSegment[] = [];
+  let plain = '';
+  let i = 0;
+  while (i < text.length) {
+    let match: string | null = null;
+    if (isHanzi(text[i])) {
+      for (let len = Math.min(MAX_ENTRY_LENGTH, text.length - i); len > 0; len--) {
+        const candidate = text.slice(i, i + len);
+        if (HANZI_PINYIN.has(candidate)) {
+          match = candidate;
+          break;
+        }
+      }
+    }
+    if (match) {
+      if (plain) segments.push({ text: plain });
+      plain = '';
+      segments.push({ text: match, pinyin: HANZI_PINYIN.get(match) });
+      i += match.length;
+    } else {
+      plain += text[i];
+      i++;
+    }
+  }
+  if (plain) segments.push({ text: plain });
+  return segments;
+};
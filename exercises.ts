@@ -0,0 +1,71 @@
+import type { Exercise } from './types';
+
+// --- Lesson exercises: answers and scoring ---
+
+export const BLANK = '___';
+
+// The answer shape depends on the exercise type:
+// - multiple-choice, listening: index of the picked option
+// - fill-blank: the picked or typed text
+// - reorder: the tokens in the order the learner placed them
+// - matching: for each pair, the index of the meaning the learner matched to it
+export type ExerciseAnswer = number | string | string[] | number[];
+
+// Spacing and punctuation never decide whether a Chinese answer is right.
+const normalizeText = (text: string) => text.replace(/[\s.,!?;:'"。，！？；：、“”‘’]/g, '');
+
+export const isAnswerCorrect = (exercise: Exercise, answer: ExerciseAnswer): boolean => {
+  switch (exercise.type) {
+    case 'multiple-choice':
+    case 'listening':
+      return answer === exercise.answer;
+    case 'fill-blank':
+      return typeof answer === 'string' && normalizeText(answer) === normalizeText(exercise.answer);
+    case 'reorder':
+      // Compared as text so that two identical tokens may swap places.
+      return Array.isArray(answer) && normalizeText(answer.join('')) === normalizeText(exercise.tokens.join(''));
+    case 'matching':
+      return Array.isArray(answer)
+        && answer.length === exercise.pairs.length
+        && answer.every((matched, i) => matched === i || exercise.pairs[Number(matched)]?.vi === exercise.pairs[i].vi);
+  }
+};
+
+// The right answer as text, for the results summary.
+export const describeAnswer = (exercise: Exercise): string => {
+  switch (exercise.type) {
+    case 'multiple-choice':
+    case 'listening':
+      return exercise.options[exercise.answer];
+    case 'fill-blank':
+      return exercise.sentence.split(BLANK).join(exercise.answer);
+    case 'reorder':
+      return exercise.tokens.join('');
+    case 'matching':
+      return exercise.pairs.map(p => `${p.char} – ${p.vi}`).join(', ');
+  }
+};
+
+export const describePrompt = (exercise: Exercise): string => {
+  switch (exercise.type) {
+    case 'multiple-choice':
+      return exercise.prompt;
+    case 'fill-blank':
+      return exercise.sentence;
+    case 'reorder':
+      return exercise.translation;
+    case 'matching':
+      return 'Nối chữ Hán với nghĩa';
+    case 'listening':
+      return 'Nghe và chọn câu đúng';
+  }
+};
+
+export interface ExerciseRoundResult {
+  exercise: Exercise;
+  correct: boolean;
+}
+
+export const countCorrect = (results: ExerciseRoundResult[]) => results.filter(r => r.correct).length;
+
+export const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5);
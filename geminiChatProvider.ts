@@ -0,0 +1,66 @@
+import { GoogleGenAI, GenerateContentResponse, Part } from '@google/genai';
+import type { ConversationProvider, ToolCallResult } from './conversationProvider';
+
+const CHAT_MODEL = 'gemini-2.5-flash';
+const START_MESSAGE = 'Bắt đầu buổi luyện tập.';
+
+// Text-only tutor over the regular chat API, for learners who cannot use a microphone.
+export const createGeminiChatProvider = (apiKey: string): ConversationProvider => ({
+  id: 'gemini',
+  connect: async ({ systemInstruction, tools, callbacks }) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const chat = ai.chats.create({
+      model: CHAT_MODEL,
+      config: {
+        systemInstruction: systemInstruction,
+        tools: [{ functionDeclarations: tools }],
+      },
+    });
+    let closed = false;
+
+    const handleResponse = (response: GenerateContentResponse) => {
+      if (closed) return;
+      const text = response.candidates?.[0]?.content?.parts
+        ?.map(part => part.text || '')
+        .join('')
+        .trim();
+      if (text) callbacks.onOutputTranscription(text);
+
+      const functionCalls = response.functionCalls;
+      if (functionCalls?.length) {
+        // The turn continues once the UI answers the tool calls.
+        callbacks.onToolCall(functionCalls.map(call => ({
+          id: call.id,
+          name: call.name || '',
+          args: call.args || {},
+        })));
+        return;
+      }
+      callbacks.onTurnComplete();
+    };
+
+    const send = (message: string | Part[]) => {
+      chat.sendMessage({ message })
+        .then(handleResponse)
+        .catch(err => {
+          if (!closed) callbacks.onError(err);
+        });
+    };
+
+    callbacks.onOpen();
+    send(START_MESSAGE);
+
+    return {
+      sendAudio: () => {},
+      sendText: (text) => send(text),
+      sendToolResponses: (results: ToolCallResult[]) => {
+        send(results.map(result => ({ functionResponse: result })));
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onClose();
+      },
+    };
+  },
+});
@@ -0,0 +1,65 @@
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { createBlob, decode } from './audio';
+import type { ConversationProvider } from './conversationProvider';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const OUTPUT_SAMPLE_RATE = 24000;
+
+export const createGeminiLiveProvider = (apiKey: string): ConversationProvider => ({
+  id: 'gemini',
+  connect: async ({ systemInstruction, tools, callbacks }) => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const session = await ai.live.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } },
+        },
+        systemInstruction: systemInstruction,
+        tools: [{ functionDeclarations: tools }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+      callbacks: {
+        onopen: () => callbacks.onOpen(),
+        onmessage: (msg: LiveServerMessage) => {
+          const { serverContent, toolCall } = msg;
+
+          if (toolCall?.functionCalls?.length) {
+            callbacks.onToolCall(toolCall.functionCalls.map(call => ({
+              id: call.id,
+              name: call.name || '',
+              args: call.args || {},
+            })));
+          }
+          if (serverContent?.inputTranscription?.text) {
+            callbacks.onInputTranscription(serverContent.inputTranscription.text);
+          }
+          if (serverContent?.outputTranscription?.text) {
+            callbacks.onOutputTranscription(serverContent.outputTranscription.text);
+          }
+
+          const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData) {
+            callbacks.onAudio(decode(audioData), OUTPUT_SAMPLE_RATE);
+          }
+
+          if (serverContent?.turnComplete) {
+            callbacks.onTurnComplete();
+          }
+        },
+        onclose: () => callbacks.onClose(),
+        onerror: (err) => callbacks.onError(err),
+      },
+    });
+
+    return {
+      sendAudio: (samples) => session.sendRealtimeInput({ media: createBlob(samples) }),
+      sendText: (text) => session.sendClientContent({ turns: text, turnComplete: true }),
+      sendToolResponses: (results) => session.sendToolResponse({ functionResponses: results }),
+      close: () => session.close(),
+    };
+  },
+});
@@ -0,0 +1,69 @@
+import HanziWriter from 'hanzi-writer';
+import { strokeDataLoader } from './strokeData';
+import type { WritingAttempt } from './types';
+
+// --- HanziWriter setup and handwriting quiz scoring ---
+
+// HanziWriter's default; a stroke drawn wrong this often is highlighted.
+export const SHOW_HINT_AFTER_MISSES = 3;
+
+export interface StrokeOutcome {
+  mistakes: number;
+  hinted: boolean;
+}
+
+export interface WritingQuizResult {
+  char: string;
+  attempt: Omit<WritingAttempt, 'at'>;
+  strokes: StrokeOutcome[];
+}
+
+export const formatSeconds = (ms: number) => `${Math.max(1, Math.round(ms / 1000))} giây`;
+
+export const createHanziWriter = (target: HTMLElement, char: string, size: number, onMissingData: () => void): HanziWriter =>
+  HanziWriter.create(target, char, {
+    width: size,
+    height: size,
+    padding: 5,
+    showOutline: true,
+    strokeAnimationSpeed: 1.2,
+    delayBetweenStrokes: 150,
+    strokeColor: '#f97316',
+    radicalColor: '#38bdf8',
+    charDataLoader: strokeDataLoader,
+    onLoadCharDataError: onMissingData,
+  });
+
+// Starts a quiz on `writer` and reports once the last stroke is drawn. A quiz
+// cancelled by another quiz or an animation reports nothing.
+export const startWritingQuiz = (writer: HanziWriter, char: string, onComplete: (result: WritingQuizResult) => void) => {
+  const startedAt = Date.now();
+  const strokes: StrokeOutcome[] = [];
+  const strokeAt = (strokeNum: number) => (strokes[strokeNum] = strokes[strokeNum] || { mistakes: 0, hinted: false });
+
+  writer.quiz({
+    showHintAfterMisses: SHOW_HINT_AFTER_MISSES,
+    onMistake: data => {
+      const stroke = strokeAt(data.strokeNum);
+      stroke.mistakes = data.mistakesOnStroke;
+      stroke.hinted = data.mistakesOnStroke >= SHOW_HINT_AFTER_MISSES;
+    },
+    onCorrectStroke: data => {
+      strokeAt(data.strokeNum);
+    },
+    onComplete: ({ totalMistakes }) => {
+      const outcomes = Array.from(strokes, stroke => stroke || { mistakes: 0, hinted: false });
+      onComplete({
+        char,
+        strokes: outcomes,
+        attempt: {
+          strokes: outcomes.length,
+          cleanStrokes: outcomes.filter(s => s.mistakes === 0).length,
+          mistakes: totalMistakes,
+          hints: outcomes.filter(s => s.hinted).length,
+          durationMs: Date.now() - startedAt,
+        },
+      });
+    },
+  });
+};
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import { initStorage } from './storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +9,37 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
+
+// Shown when the app code cannot be loaded (e.g. offline on first visit) or a
+// content module throws while the course is assembled.
+const StartupError: React.FC = () => (
+  <div className="flex flex-col items-center justify-center h-screen gap-4 p-6 text-center bg-orange-50 text-gray-700">
+    <p className="text-lg font-semibold">Không tải được ứng dụng.</p>
+    <p className="text-sm text-gray-500">Vui lòng kiểm tra kết nối mạng rồi tải lại trang.</p>
+    <button
+      onClick={() => window.location.reload()}
+      className="px-6 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg shadow transition-colors"
+    >
+      Tải lại
+    </button>
+  </div>
 );
+
+// Stored data is loaded before the first render so every feature can read it
+// synchronously. App is imported afterwards because the course content is
+// assembled from the installed content packs when its modules load. A storage
+// failure still starts the app, which then runs from memory.
+initStorage()
+  .catch(e => console.error('Storage initialisation failed', e))
+  .then(() => import('./App'))
+  .then(({ default: App }) => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  })
+  .catch(e => {
+    console.error('Failed to start the app', e);
+    root.render(<StartupError />);
+  });
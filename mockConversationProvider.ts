@@ -0,0 +1,176 @@
+import { MARK_ANSWER, SESSION_COMPLETE } from './tutor';
+import { isHanzi } from './dictionary';
+import type { ConversationProvider, ToolCallResult } from './conversationProvider';
+
+// --- Scripted local tutor (no network, no API key) ---
+
+export type MockScriptStep =
+  | { type: 'say'; text: string; audio?: Uint8Array; sampleRate?: number }
+  | { type: 'listen'; transcript: string }
+  | { type: 'tool'; name: string; args?: Record<string, unknown> };
+
+export interface MockProviderOptions {
+  // How long a 'listen' step waits for the learner before moving on anyway;
+  // null waits for a typed answer indefinitely.
+  listenTimeoutMs?: number | null;
+  // Speak 'say' steps that carry no canned audio through speechSynthesis.
+  speakText?: boolean;
+}
+
+const SPEECH_THRESHOLD = 0.02;
+const SILENCE_AFTER_SPEECH_MS = 800;
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const speak = (text: string): Promise<void> => new Promise(resolve => {
+  if (typeof window === 'undefined' || !window.speechSynthesis) {
+    resolve();
+    return;
+  }
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = text.split('').some(isHanzi) ? 'zh-CN' : 'vi-VN';
+  utterance.rate = 0.9;
+  utterance.onend = () => resolve();
+  utterance.onerror = () => resolve();
+  window.speechSynthesis.speak(utterance);
+});
+
+// Replays a lesson the way the real tutor runs it: greeting, every question in
+// order, a correction on the questions listed in `incorrectQuestions`, then the
+// closing line and `sessionComplete`.
+export const buildLessonMockScript = (
+  lessonName: string,
+  prompts: string[],
+  incorrectQuestions: number[] = [1],
+): MockScriptStep[] => {
+  const steps: MockScriptStep[] = [
+    { type: 'say', text: `Chào bạn, chúng ta cùng luyện tập giao tiếp cho ${lessonName} nhé?` },
+    { type: 'listen', transcript: '好的。' },
+  ];
+  prompts.forEach((question, index) => {
+    steps.push({ type: 'say', text: index === 0 ? question : `很好！${question}` });
+    if (incorrectQuestions.includes(index)) {
+      steps.push(
+        { type: 'listen', transcript: '我不知道。' },
+        { type: 'tool', name: MARK_ANSWER, args: { questionIndex: index + 1, correct: false, correction: 'Bạn cần trả lời đầy đủ cả câu, ví dụ: 我很好。' } },
+        { type: 'say', text: 'Câu trả lời chưa đúng lắm, bạn thử nói lại nhé.' },
+        { type: 'say', text: question },
+      );
+    }
+    steps.push(
+      { type: 'listen', transcript: '（回答）' },
+      { type: 'tool', name: MARK_ANSWER, args: { questionIndex: index + 1, correct: true } },
+    );
+  });
+  steps.push(
+    { type: 'say', text: 'Rất tốt! Bạn đã hoàn thành bài luyện tập. Hẹn gặp lại lần sau!' },
+    { type: 'tool', name: SESSION_COMPLETE },
+  );
+  return steps;
+};
+
+export const createMockConversationProvider = (
+  script: MockScriptStep[],
+  { listenTimeoutMs = 8000, speakText = true }: MockProviderOptions = {},
+): ConversationProvider => ({
+  id: 'mock',
+  connect: async ({ callbacks }) => {
+    let closed = false;
+    let toolCallCounter = 0;
+    let pendingTool: ((results: ToolCallResult[]) => void) | null = null;
+    let listener: ((level: number) => void) | null = null;
+    let typedAnswer: ((text: string) => void) | null = null;
+    // Ends the current listen step; close() calls it so the script loop exits
+    // even when listening has no timeout.
+    let endAnswer: (() => void) | null = null;
+
+    const waitForTool = () => new Promise<ToolCallResult[]>(resolve => {
+      pendingTool = resolve;
+    });
+
+    // Resolves with the typed text when the learner chats, or with null when a
+    // spoken answer, the timeout or closing the session ended the turn.
+    const waitForAnswer = () => new Promise<string | null>(resolve => {
+      let heardSpeech = false;
+      let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+      const finish = (typed: string | null = null) => {
+        listener = null;
+        typedAnswer = null;
+        endAnswer = null;
+        clearTimeout(timeout);
+        if (silenceTimer) clearTimeout(silenceTimer);
+        resolve(typed);
+      };
+      const timeout = listenTimeoutMs === null ? undefined : setTimeout(finish, listenTimeoutMs);
+      typedAnswer = (text) => finish(text);
+      endAnswer = () => finish();
+      listener = (level) => {
+        if (level > SPEECH_THRESHOLD) {
+          heardSpeech = true;
+          if (silenceTimer) clearTimeout(silenceTimer);
+          silenceTimer = null;
+        } else if (heardSpeech && !silenceTimer) {
+          silenceTimer = setTimeout(() => finish(), SILENCE_AFTER_SPEECH_MS);
+        }
+      };
+    });
+
+    const run = async () => {
+      await delay(300);
+      if (closed) return;
+      callbacks.onOpen();
+
+      for (const step of script) {
+        if (closed) return;
+        if (step.type === 'say') {
+          callbacks.onOutputTranscription(step.text);
+          if (step.audio) {
+            callbacks.onAudio(step.audio, step.sampleRate || 24000);
+            await delay((step.audio.byteLength / 2 / (step.sampleRate || 24000)) * 1000);
+          } else if (speakText) {
+            await speak(step.text);
+          } else {
+            await delay(500);
+          }
+          if (closed) return;
+          callbacks.onTurnComplete();
+        } else if (step.type === 'listen') {
+          const typed = await waitForAnswer();
+          if (closed) return;
+          if (typed === null) callbacks.onInputTranscription(step.transcript);
+        } else {
+          const response = waitForTool();
+          callbacks.onToolCall([{ id: `mock-${++toolCallCounter}`, name: step.name, args: step.args || {} }]);
+          await response;
+        }
+      }
+    };
+
+    run().catch(err => {
+      if (!closed) callbacks.onError(err);
+    });
+
+    return {
+      sendAudio: (samples) => {
+        if (!listener) return;
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        listener(Math.sqrt(sum / samples.length));
+      },
+      sendText: (text) => typedAnswer?.(text),
+      sendToolResponses: (results) => {
+        const resolve = pendingTool;
+        pendingTool = null;
+        resolve?.(results);
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        if (typeof window !== 'undefined') window.speechSynthesis?.cancel();
+        pendingTool?.([]);
+        endAnswer?.();
+        callbacks.onClose();
+      },
+    };
+  },
+});
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CONTENT_PACK_FORMAT, CONTENT_PACK_VERSION } from './contentPack';
+import { writeValue } from './storage';
+import type { ContentPack } from './types';
+
+const SECTIONS = ['Từ mới', 'Gõ bài khóa'];
+
+const pack: ContentPack = {
+  format: CONTENT_PACK_FORMAT,
+  version: CONTENT_PACK_VERSION,
+  id: 'hsk2',
+  title: 'HSK 2',
+  lessons: [
+    { name: 'HSK2 Bài 16', vocabulary: { 'Từ mới': [{ id: 1, char: '旅游', pinyin: 'lǚyóu', vi: 'du lịch' }] } },
+    { name: 'Ôn tập', vocabulary: {} },
+  ],
+};
+
+// The course is assembled when content.ts is first imported, so the pack has
+// to be installed before navigation (and with it content) is loaded.
+let navigation: typeof import('./navigation');
+let lessons: typeof import('./content').LESSONS;
+
+beforeAll(async () => {
+  writeValue('content_packs', [pack]);
+  navigation = await import('./navigation');
+  lessons = (await import('./content')).LESSONS;
+});
+
+const lessonId = (name: string) => lessons.find(l => l.name === name)!.id;
+
+describe('hash routes', () => {
+  it('uses the lesson number for bundled lessons', () => {
+    expect(navigation.buildHash({ lessonId: lessonId('Bài 24'), section: 'Gõ bài khóa' })).toBe('#/bai/24/go-bai-khoa');
+    expect(navigation.parseHash('#/bai/16/tu-moi', SECTIONS)).toEqual({ lessonId: lessonId('Bài 16'), section: 'Từ mới' });
+  });
+
+  it('puts installed lessons under their pack, even when the number clashes', () => {
+    const hash = navigation.buildHash({ lessonId: lessonId('HSK2 Bài 16'), section: 'Từ mới' });
+    expect(hash).toBe('#/goi/hsk2/hsk2-bai-16/tu-moi');
+    expect(navigation.parseHash(hash, SECTIONS)).toEqual({ lessonId: lessonId('HSK2 Bài 16'), section: 'Từ mới' });
+  });
+
+  it('routes lessons without a number by name', () => {
+    const hash = navigation.buildHash({ lessonId: lessonId('Ôn tập'), section: 'Từ mới' });
+    expect(hash).toBe('#/goi/hsk2/on-tap/tu-moi');
+    expect(navigation.parseHash(hash, SECTIONS)?.lessonId).toBe(lessonId('Ôn tập'));
+  });
+
+  it('ignores unknown lessons and falls back to the first section', () => {
+    expect(navigation.parseHash('#/bai/99/tu-moi', SECTIONS)).toBeNull();
+    expect(navigation.parseHash('#/goi/khac/on-tap', SECTIONS)).toBeNull();
+    expect(navigation.parseHash('#/bai/24/khong-co', SECTIONS)?.section).toBe('Từ mới');
+  });
+});
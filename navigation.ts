@@ -0,0 +1,62 @@
+import { CONTENT_PACKS, LESSONS } from './content';
+import { foldVietnamese } from './search';
+import { readValue, writeValue } from './storage';
+import type { Lesson } from './types';
+
+// --- Hash routes (#/bai/24/go-bai-khoa) and the last visited position ---
+//
+// Lessons of installed packs live under the pack id (#/goi/hsk2/bai-16/tu-moi),
+// so they can never take over a link to a bundled lesson.
+
+export interface AppLocation {
+  lessonId: number;
+  section: string;
+}
+
+// 'Gõ bài khóa' -> 'go-bai-khoa'. Section names are Vietnamese, so the tone
+// marks and đ have to go before anything else is stripped.
+export const slugify = (text: string): string =>
+  foldVietnamese(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Bundled lessons use the number teachers say in class ('Bài 24'), not the
+// internal id.
+const lessonNumber = (lesson: Lesson): string => lesson.name.match(/\d+/)?.[0] ?? String(lesson.id);
+
+const lessonRoute = (lesson: Lesson): string => {
+  const pack = CONTENT_PACKS.find(p => p.lessonIds.includes(lesson.id));
+  if (!pack || pack.builtIn) return `bai/${lessonNumber(lesson)}`;
+  return `goi/${encodeURIComponent(pack.id)}/${slugify(lesson.name) || lesson.id}`;
+};
+
+export const buildHash = ({ lessonId, section }: AppLocation): string => {
+  const lesson = LESSONS.find(l => l.id === lessonId) || LESSONS[0];
+  return `#/${lessonRoute(lesson)}/${slugify(section)}`;
+};
+
+// A link without a section, or with one that no longer exists, opens the
+// lesson's first section instead of failing.
+export const parseHash = (hash: string, sections: string[]): AppLocation | null => {
+  const match = hash.match(/^#\/(bai\/[^/]+|goi\/[^/]+\/[^/]+)(?:\/([^/]*))?\/?$/);
+  if (!match) return null;
+  const lesson = LESSONS.find(l => lessonRoute(l) === match[1]);
+  if (!lesson) return null;
+  const section = sections.find(s => slugify(s) === match[2]) || sections[0];
+  return { lessonId: lesson.id, section };
+};
+
+export const saveLastLocation = (location: AppLocation) => {
+  writeValue('last_position', buildHash(location));
+};
+
+// The URL wins over the remembered position, so a shared link always opens
+// what it points to.
+export const readInitialLocation = (sections: string[]): AppLocation => {
+  const fromUrl = typeof window !== 'undefined' ? parseHash(window.location.hash, sections) : null;
+  if (fromUrl) return fromUrl;
+  const saved = readValue('last_position');
+  const fromStorage = typeof saved === 'string' ? parseHash(saved, sections) : null;
+  if (fromStorage) return fromStorage;
+  return { lessonId: LESSONS[0].id, section: sections[0] };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PACK } from './contentPack';
+import { checkPinyinAnswer, diacriticToNumbered, numberedToDiacritic, splitSyllables } from './pinyin';
+
+const syllables = (pinyin: string) => splitSyllables(pinyin).map(s => `${s.base}${s.tone}`);
+
+describe('splitSyllables', () => {
+  it('splits diacritic pinyin', () => {
+    expect(syllables('lǎoshī')).toEqual(['lao3', 'shi1']);
+    expect(syllables("Tiān'ānmén")).toEqual(['tian1', 'an1', 'men2']);
+    expect(syllables('yìdiǎnr')).toEqual(['yi4', 'dianr3']);
+  });
+
+  it('treats every tone digit as a syllable boundary', () => {
+    expect(syllables('ke3ai4')).toEqual(['ke3', 'ai4']);
+    expect(syllables('nv3er2')).toEqual(['nü3', 'er2']);
+    expect(syllables('tian1an1men2')).toEqual(['tian1', 'an1', 'men2']);
+    expect(syllables('ni3e4ma5')).toEqual(['ni3', 'e4', 'ma5']);
+    expect(syllables('er4shi2')).toEqual(['er4', 'shi2']);
+  });
+});
+
+describe('numberedToDiacritic', () => {
+  it('marks tones and writes the apostrophe before a, o and e', () => {
+    expect(numberedToDiacritic('lao3shi1')).toBe('lǎoshī');
+    expect(numberedToDiacritic('ke3ai4')).toBe("kě'ài");
+    expect(numberedToDiacritic('nv3 er2')).toBe('nǚ ér');
+    expect(numberedToDiacritic('tian1an1men2')).toBe("tiān'ānmén");
+  });
+});
+
+describe('checkPinyinAnswer', () => {
+  it.each([
+    ['kě\'ài', 'ke3ai4'],
+    ['nǚ\'ér', 'nv3er2'],
+    ['Tiān\'ānmén', 'tian1an1men2'],
+    ['Nǐ è ma?', 'ni3e4ma5'],
+    ['èrshí', 'er4shi2'],
+  ])('accepts the numbered form of %s', (expected, typed) => {
+    expect(checkPinyinAnswer(expected, typed).result).toBe('correct');
+    expect(checkPinyinAnswer(expected, diacriticToNumbered(expected, '')).result).toBe('correct');
+  });
+});
+
+// The 'Gõ pinyin' typing mode accepts tone numbers, so every lesson word must
+// grade as correct however the learner writes its tones.
+describe('lesson words in the typing exercise', () => {
+  const words = DEFAULT_PACK.lessons
+    .flatMap(lesson => Object.values(lesson.vocabulary).flat())
+    .filter(word => word.pinyin.trim());
+
+  it.each(words.map(word => [word.char, word.pinyin]))('grades every form of %s (%s) as correct', (_, pinyin) => {
+    expect(checkPinyinAnswer(pinyin, pinyin).result).toBe('correct');
+    expect(checkPinyinAnswer(pinyin, diacriticToNumbered(pinyin)).result).toBe('correct');
+    expect(checkPinyinAnswer(pinyin, diacriticToNumbered(pinyin, '')).result).toBe('correct');
+  });
+});
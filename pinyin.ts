@@ -0,0 +1,305 @@
+// --- Pinyin parsing, conversion and comparison ---
+
+export type Tone = 1 | 2 | 3 | 4 | 5;
+
+export interface PinyinSyllable {
+  // The syllable as written, e.g. 'lǎo'.
+  text: string;
+  // Lowercase, toneless, with ü kept, e.g. 'lao', 'nü'.
+  base: string;
+  // 5 is the neutral tone.
+  tone: Tone;
+}
+
+const TONE_MARKS: Record<string, [string, Tone]> = {
+  'ā': ['a', 1], 'á': ['a', 2], 'ǎ': ['a', 3], 'à': ['a', 4],
+  'ē': ['e', 1], 'é': ['e', 2], 'ě': ['e', 3], 'è': ['e', 4],
+  'ī': ['i', 1], 'í': ['i', 2], 'ǐ': ['i', 3], 'ì': ['i', 4],
+  'ō': ['o', 1], 'ó': ['o', 2], 'ǒ': ['o', 3], 'ò': ['o', 4],
+  'ū': ['u', 1], 'ú': ['u', 2], 'ǔ': ['u', 3], 'ù': ['u', 4],
+  'ǖ': ['ü', 1], 'ǘ': ['ü', 2], 'ǚ': ['ü', 3], 'ǜ': ['ü', 4],
+};
+
+const MARKED_VOWELS: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'],
+  e: ['ē', 'é', 'ě', 'è'],
+  i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'],
+  u: ['ū', 'ú', 'ǔ', 'ù'],
+  'ü': ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+const FINALS_BY_INITIAL: Record<string, string> = {
+  '': 'a o e ai ei ao ou an en ang eng er',
+  'y': 'i a e ao ou an in ang ing ong u ue uan un o',
+  'w': 'u a o ai ei an en ang eng',
+  'b': 'a o ai ei ao an en ang eng i ie iao ian in ing u',
+  'p': 'a o ai ei ao ou an en ang eng i ie iao ian in ing u',
+  'm': 'a o e ai ei ao ou an en ang eng i ie iao iu ian in ing u',
+  'f': 'a o ei ou an en ang eng u',
+  'd': 'a e ai ei ao ou an en ang eng ong i ia ie iao iu ian ing u uo ui uan un',
+  't': 'a e ai ao ou an ang eng ong i ie iao ian ing u uo ui uan un',
+  'n': 'a e ai ei ao ou an en ang eng ong i ie iao iu ian in iang ing u uo uan ü üe',
+  'l': 'a o e ai ei ao ou an ang eng ong i ia ie iao iu ian in iang ing u uo uan un ü üe',
+  'g': 'a e ai ei ao ou an en ang eng ong u ua uo uai ui uan un uang',
+  'k': 'a e ai ei ao ou an en ang eng ong u ua uo uai ui uan un uang',
+  'h': 'a e ai ei ao ou an en ang eng ong u ua uo uai ui uan un uang',
+  'j': 'i ia ie iao iu ian in iang ing iong u ue uan un',
+  'q': 'i ia ie iao iu ian in iang ing iong u ue uan un',
+  'x': 'i ia ie iao iu ian in iang ing iong u ue uan un',
+  'zh': 'a e i ai ei ao ou an en ang eng ong u ua uo uai ui uan un uang',
+  'ch': 'a e i ai ao ou an en ang eng ong u ua uo uai ui uan un uang',
+  'sh': 'a e i ai ei ao ou an en ang eng u ua uo uai ui uan un uang',
+  'r': 'e i ao ou an en ang eng ong u uo ui uan un',
+  'z': 'a e i ai ei ao ou an en ang eng ong u uo ui uan un',
+  'c': 'a e i ai ao ou an en ang eng ong u uo ui uan un',
+  's': 'a e i ai ao ou an en ang eng ong u uo ui uan un',
+};
+
+export const INITIALS = ['zh', 'ch', 'sh', 'b', 'p', 'm', 'f', 'd', 't', 'n', 'l', 'g', 'k', 'h', 'j', 'q', 'x', 'r', 'z', 'c', 's', 'y', 'w'];
+
+export const VALID_SYLLABLES: Set<string> = new Set(
+  Object.entries(FINALS_BY_INITIAL).flatMap(([initial, finals]) => finals.split(' ').map(f => initial + f))
+);
+
+const MAX_SYLLABLE_LENGTH = 6;
+const GAP_COST = 2;
+
+// Splits a toneless syllable into its initial and final, e.g. 'zhuang' → ['zh', 'uang'].
+export const splitInitial = (base: string): [string, string] => {
+  const initial = INITIALS.find(i => base.startsWith(i) && base.length > i.length) || '';
+  return [initial, base.slice(initial.length)];
+};
+
+// Removes tone marks and lowercases while keeping one output character per input
+// character, so positions in the stripped string map back to the original.
+const stripMarksKeepingLength = (text: string): { plain: string; tones: (Tone | null)[] } => {
+  const tones: (Tone | null)[] = [];
+  let plain = '';
+  for (const ch of text.normalize('NFC')) {
+    const lower = ch.toLowerCase();
+    const mark = TONE_MARKS[lower];
+    plain += mark ? mark[0] : lower === 'v' ? 'ü' : lower;
+    tones.push(mark ? mark[1] : null);
+  }
+  return { plain, tones };
+};
+
+const startsWithVowel = (text: string) => /^[aoe]/.test(text);
+
+// Finds the syllable boundaries of one run of letters. Longer syllables are tried
+// first, and a syllable may not be followed by one starting with a/o/e — pinyin
+// writes an apostrophe there — which settles cases like 'xian' vs 'xi'an'.
+const segmentRun = (run: string): number[] | null => {
+  const memo = new Map<number, number[] | null>();
+  const solve = (start: number): number[] | null => {
+    if (start === run.length) return [];
+    if (memo.has(start)) return memo.get(start)!;
+    let result: number[] | null = null;
+    for (let len = Math.min(MAX_SYLLABLE_LENGTH, run.length - start); len > 0 && !result; len--) {
+      const candidate = run.slice(start, start + len);
+      if (!VALID_SYLLABLES.has(candidate)) continue;
+      const rest = run.slice(start + len);
+      if (rest && startsWithVowel(rest)) continue;
+      const tail = solve(start + len);
+      if (tail) {
+        result = [len, ...tail];
+      } else if (rest.startsWith('r') && (rest.length === 1 || !/^[aeiouü]/.test(rest.slice(1)))) {
+        // Erhua: 'nǎr', 'yìdiǎnr'.
+        const afterR = solve(start + len + 1);
+        if (afterR) result = [len + 1, ...afterR];
+      }
+    }
+    memo.set(start, result);
+    return result;
+  };
+  return solve(0);
+};
+
+const toneOfSlice = (tones: (Tone | null)[]): Tone => tones.find((t): t is Tone => t !== null) ?? 5;
+
+// Splits pinyin such as 'lǎoshī', 'nǐmen hǎo', 'Tiān'ānmén' or 'lao3shi1' into syllables.
+// Text that is not valid pinyin is returned as a single syllable so callers can
+// still show it.
+export const splitSyllables = (pinyin: string): PinyinSyllable[] => {
+  // Every tone digit ends a syllable ('ke3ai4' is kě'ài, not 'keai'), so an
+  // apostrophe is left in its place before segmenting.
+  const source = markNumberedTones(pinyin.normalize('NFC'), /[a-zü]/i);
+  const { plain, tones } = stripMarksKeepingLength(source);
+  const chars = Array.from(source);
+  const syllables: PinyinSyllable[] = [];
+
+  const runPattern = /[a-zü]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = runPattern.exec(plain)) !== null) {
+    const run = match[0];
+    const offset = Array.from(plain.slice(0, match.index)).length;
+    const lengths = segmentRun(run) || [run.length];
+    let position = 0;
+    lengths.forEach(len => {
+      const from = offset + position;
+      syllables.push({
+        text: chars.slice(from, from + len).join(''),
+        base: run.slice(position, position + len),
+        tone: toneOfSlice(tones.slice(from, from + len)),
+      });
+      position += len;
+    });
+  }
+  return syllables;
+};
+
+export const toneOf = (syllable: string): Tone => toneOfSlice(stripMarksKeepingLength(syllable).tones);
+
+export const stripTones = (pinyin: string): string => stripMarksKeepingLength(pinyin).plain;
+
+// Tone mark placement: a or e if present, the o of 'ou', otherwise the last vowel.
+const markSyllable = (syllable: string, tone: number): string => {
+  if (tone < 1 || tone > 4) return syllable;
+  const lower = syllable.toLowerCase();
+  let position = lower.search(/[ae]/);
+  if (position === -1) position = lower.indexOf('ou');
+  if (position === -1) {
+    for (let i = lower.length - 1; i >= 0; i--) {
+      if (MARKED_VOWELS[lower[i]]) {
+        position = i;
+        break;
+      }
+    }
+  }
+  if (position === -1) return syllable;
+  const vowel = syllable[position];
+  const marked = MARKED_VOWELS[vowel.toLowerCase()][tone - 1];
+  return syllable.slice(0, position) + (vowel === vowel.toLowerCase() ? marked : marked.toUpperCase()) + syllable.slice(position + 1);
+};
+
+// Replaces each tone digit by a mark on its syllable, and by an apostrophe when
+// the next letter matches `apostropheBefore`.
+const markNumberedTones = (pinyin: string, apostropheBefore: RegExp): string => {
+  if (!/[0-5]/.test(pinyin)) return pinyin;
+  return pinyin
+    .replace(/u:|v/g, 'ü')
+    .replace(/U:|V/g, 'Ü')
+    .replace(/([a-zü]+)([0-5])(?=(.?))/gi, (_, syllable: string, tone: string, next: string) =>
+      markSyllable(syllable, Number(tone)) + (apostropheBefore.test(next) ? "'" : ''));
+};
+
+// 'lao3shi1' → 'lǎoshī', 'nv3 er2' → 'nǚ ér', 'ke3ai4' → 'kě'ài'. Digits 5 and
+// 0 mark the neutral tone and are simply dropped; text without digits is
+// returned unchanged. As in written pinyin, an apostrophe separates a syllable
+// from a following one that starts with a, o or e.
+export const numberedToDiacritic = (pinyin: string): string => markNumberedTones(pinyin, /[aoe]/i);
+
+// 'lǎoshī' → 'lao3 shi1'. Neutral-tone syllables get a 5.
+export const diacriticToNumbered = (pinyin: string, separator = ' '): string =>
+  splitSyllables(pinyin).map(s => `${s.base.replace('ü', 'v')}${s.tone}`).join(separator);
+
+export const toDiacritic = (syllables: PinyinSyllable[], separator = ' '): string =>
+  syllables.map(s => markSyllable(s.base, s.tone)).join(separator);
+
+// Reverts the tone changes of 不 and 一 that the lesson data writes out
+// ('búkèqi', 'yíxiàr', 'yìdiǎnr'), so 'bú kèqi' and 'bù kèqi' compare equal.
+// Only the sandhi patterns are touched; a following neutral tone counts as a
+// fourth tone because 'yí ge' and 'bú shi' are written that way.
+export const undoToneSandhi = (syllables: PinyinSyllable[]): PinyinSyllable[] =>
+  syllables.map((s, i) => {
+    const next = syllables[i + 1];
+    const beforeFourth = next?.tone === 4 || next?.tone === 5;
+    if (s.base === 'bu' && s.tone === 2 && beforeFourth) return { ...s, tone: 4 };
+    if (s.base === 'yi' && s.tone === 2 && beforeFourth) return { ...s, tone: 1 };
+    if (s.base === 'yi' && s.tone === 4 && next && next.tone !== 4 && next.tone !== 5) return { ...s, tone: 1 };
+    return s;
+  });
+
+export interface PinyinCompareOptions {
+  ignoreTones?: boolean;
+  ignoreSandhi?: boolean;
+}
+
+// Canonical form for storage and comparison: lowercase diacritic pinyin with one
+// space between syllables, e.g. 'Méiguānxi' → 'méi guān xi', 'lao3shi1' → 'lǎo shī'.
+export const normalizePinyin = (pinyin: string, { ignoreTones = false, ignoreSandhi = false }: PinyinCompareOptions = {}): string => {
+  let syllables = splitSyllables(pinyin);
+  if (ignoreSandhi) syllables = undoToneSandhi(syllables);
+  return ignoreTones ? syllables.map(s => s.base).join(' ') : toDiacritic(syllables);
+};
+
+export const pinyinEquals = (a: string, b: string, options: PinyinCompareOptions = {}): boolean =>
+  normalizePinyin(a, options) === normalizePinyin(b, options);
+
+const syllableSubstitutionCost = (a: PinyinSyllable, b: PinyinSyllable) => {
+  if (a.base === b.base) return 0;
+  const [ai, af] = splitInitial(a.base);
+  const [bi, bf] = splitInitial(b.base);
+  return ai === bi || af === bf ? 1 : 2;
+};
+
+// Needleman–Wunsch alignment of an expected sequence against what was said or
+// typed, so a dropped or extra item does not shift every later item out of
+// place. A gap costs GAP_COST; `substitutionCost` should return 0 for a match.
+export const alignSequences = <T>(expected: T[], actual: T[], substitutionCost: (a: T, b: T) => number) => {
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i + j) * GAP_COST));
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(expected[i - 1], actual[j - 1]),
+        cost[i - 1][j] + GAP_COST,
+        cost[i][j - 1] + GAP_COST,
+      );
+    }
+  }
+
+  const pairs: [T | null, T | null][] = [];
+  let i = expected.length;
+  let j = actual.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(expected[i - 1], actual[j - 1])) {
+      pairs.unshift([expected[i - 1], actual[j - 1]]);
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + GAP_COST) {
+      pairs.unshift([expected[i - 1], null]);
+      i--;
+    } else {
+      pairs.unshift([null, actual[j - 1]]);
+      j--;
+    }
+  }
+  return pairs;
+};
+
+export const alignSyllables = (expected: PinyinSyllable[], actual: PinyinSyllable[]) =>
+  alignSequences(expected, actual, syllableSubstitutionCost);
+
+export type SyllableMatch = 'correct' | 'wrong-tone' | 'wrong' | 'missing' | 'extra';
+
+export interface TypedSyllable {
+  expected: PinyinSyllable | null;
+  typed: PinyinSyllable | null;
+  match: SyllableMatch;
+}
+
+export interface PinyinAnswerCheck {
+  syllables: TypedSyllable[];
+  // 'tones-wrong': every syllable is right but at least one tone is not.
+  result: 'correct' | 'tones-wrong' | 'wrong';
+}
+
+// Checks typed pinyin ('lao3shi1', 'lǎo shī', 'Laoshi') against the expected
+// pinyin. Case, spacing and the written 不/一 sandhi are ignored.
+export const checkPinyinAnswer = (expectedPinyin: string, typedPinyin: string): PinyinAnswerCheck => {
+  const expected = undoToneSandhi(splitSyllables(expectedPinyin));
+  const typed = undoToneSandhi(splitSyllables(typedPinyin));
+  const syllables = alignSyllables(expected, typed).map(([exp, got]): TypedSyllable => {
+    if (!got) return { expected: exp, typed: null, match: 'missing' };
+    if (!exp) return { expected: null, typed: got, match: 'extra' };
+    if (exp.base !== got.base) return { expected: exp, typed: got, match: 'wrong' };
+    return { expected: exp, typed: got, match: exp.tone === got.tone ? 'correct' : 'wrong-tone' };
+  });
+  const result = syllables.every(s => s.match === 'correct') ? 'correct'
+    : syllables.every(s => s.match === 'correct' || s.match === 'wrong-tone') ? 'tones-wrong'
+    : 'wrong';
+  return { syllables, result };
+};
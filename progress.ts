@@ -0,0 +1,285 @@
+import { AI_CONVERSATION_PROMPTS, LESSONS } from './content';
+import { loadConversationHistory } from './conversationHistory';
+import { SRS_WORDS, getSrsWord, loadSrsState, toDayString } from './srs';
+import type { SrsWord } from './srs';
+import { readValue, writeValue } from './storage';
+import type { ExerciseAttempt, LessonProgress, ProgressState, TypingAttempt, WordStats, WritingAttempt } from './types';
+
+// --- Learner progress across lessons ---
+
+const MAX_ATTEMPTS_PER_LESSON = 100;
+const MAX_WRITING_ATTEMPTS_PER_CHAR = 20;
+// Weakness is judged on the latest quizzes, so old struggles fade out.
+const RECENT_WRITING_ATTEMPTS = 5;
+const MAX_ACTIVE_DAYS = 400;
+
+// A card counts as mastered once SRS spaces it at least three weeks out.
+export const MASTERED_INTERVAL_DAYS = 21;
+
+const percent = (correct: number, total: number) => (total > 0 ? Math.round((correct / total) * 100) : 0);
+
+export const createEmptyProgress = (): ProgressState => ({ version: 1, lessons: {}, words: {}, activeDays: [] });
+
+const emptyLesson = (): LessonProgress => ({ typing: [], exercises: [], timeSpentMs: 0 });
+
+export const loadProgress = (): ProgressState => {
+  const stored = readValue('learner_progress');
+  if (stored?.version !== 1 || typeof stored.lessons !== 'object') return createEmptyProgress();
+  return { ...createEmptyProgress(), ...stored };
+};
+
+export const saveProgress = (state: ProgressState) => {
+  writeValue('learner_progress', state);
+};
+
+const mergeAttempts = <T extends { at: number }>(current: T[], incoming: T[], limit = MAX_ATTEMPTS_PER_LESSON): T[] => {
+  const seen = new Set(current.map(a => a.at));
+  return [...current, ...incoming.filter(a => !seen.has(a.at))]
+    .sort((a, b) => a.at - b.at)
+    .slice(-limit);
+};
+
+// Two devices usually share some history (an earlier export was imported on
+// both), so counters take the larger value instead of adding up.
+export const mergeProgress = (current: ProgressState, incoming: ProgressState): ProgressState => {
+  const lessons = { ...current.lessons };
+  Object.entries(incoming.lessons).forEach(([name, lesson]) => {
+    const existing = lessons[name];
+    lessons[name] = existing
+      ? {
+          typing: mergeAttempts(existing.typing, lesson.typing),
+          exercises: mergeAttempts(existing.exercises, lesson.exercises),
+          timeSpentMs: Math.max(existing.timeSpentMs, lesson.timeSpentMs),
+        }
+      : lesson;
+  });
+
+  const words = { ...current.words };
+  Object.entries(incoming.words).forEach(([key, stats]) => {
+    const existing = words[key];
+    words[key] = existing
+      ? { right: Math.max(existing.right, stats.right), wrong: Math.max(existing.wrong, stats.wrong) }
+      : stats;
+  });
+
+  const writing = { ...current.writing };
+  Object.entries(incoming.writing || {}).forEach(([char, attempts]) => {
+    writing[char] = mergeAttempts(writing[char] || [], attempts, MAX_WRITING_ATTEMPTS_PER_CHAR);
+  });
+
+  const activeDays = Array.from(new Set([...current.activeDays, ...incoming.activeDays])).sort().slice(-MAX_ACTIVE_DAYS);
+  return { version: 1, lessons, words, activeDays, writing };
+};
+
+// Every writer goes through a fresh load, so components recording progress at
+// the same time do not overwrite each other. `countsAsPractice` marks today for
+// the streak; merely having the app open does not.
+const updateProgress = (
+  lessonName: string,
+  update: (lesson: LessonProgress, state: ProgressState) => void,
+  countsAsPractice = true,
+) => {
+  const state = loadProgress();
+  const lesson = state.lessons[lessonName] || emptyLesson();
+  update(lesson, state);
+  state.lessons[lessonName] = lesson;
+  if (countsAsPractice) markActiveToday(state);
+  saveProgress(state);
+};
+
+const markActiveToday = (state: ProgressState) => {
+  const today = toDayString(new Date());
+  if (!state.activeDays.includes(today)) {
+    state.activeDays = [...state.activeDays, today].slice(-MAX_ACTIVE_DAYS);
+  }
+};
+
+export const recordTypingAttempt = (
+  lessonName: string,
+  attempt: Omit<TypingAttempt, 'at'>,
+  wordResults: { key: string; correct: boolean }[],
+) => {
+  updateProgress(lessonName, (lesson, state) => {
+    lesson.typing = [...lesson.typing, { ...attempt, at: Date.now() }].slice(-MAX_ATTEMPTS_PER_LESSON);
+    wordResults.forEach(({ key, correct }) => {
+      const stats: WordStats = state.words[key] || { right: 0, wrong: 0 };
+      state.words[key] = correct ? { ...stats, right: stats.right + 1 } : { ...stats, wrong: stats.wrong + 1 };
+    });
+  });
+};
+
+export const recordExerciseAttempt = (lessonName: string, attempt: Omit<ExerciseAttempt, 'at'>) => {
+  updateProgress(lessonName, lesson => {
+    lesson.exercises = [...lesson.exercises, { ...attempt, at: Date.now() }].slice(-MAX_ATTEMPTS_PER_LESSON);
+  });
+};
+
+export const addTimeSpent = (lessonName: string, ms: number) => {
+  if (ms <= 0) return;
+  updateProgress(lessonName, lesson => {
+    lesson.timeSpentMs += ms;
+  }, false);
+};
+
+// Writing is tracked per character rather than per lesson: the same Hanzi is
+// practised from every lesson and from the stroke-order popup.
+export const recordWritingAttempt = (char: string, attempt: Omit<WritingAttempt, 'at'>) => {
+  const state = loadProgress();
+  const writing = state.writing || {};
+  writing[char] = [...(writing[char] || []), { ...attempt, at: Date.now() }].slice(-MAX_WRITING_ATTEMPTS_PER_CHAR);
+  state.writing = writing;
+  markActiveToday(state);
+  saveProgress(state);
+};
+
+// --- Writing accuracy ---
+
+export const writingAccuracy = (attempt: Pick<WritingAttempt, 'strokes' | 'cleanStrokes'>): number =>
+  percent(attempt.cleanStrokes, attempt.strokes);
+
+export interface CharacterWritingStats {
+  char: string;
+  attempts: number;
+  // Average over the latest quizzes; null when never written.
+  recentAccuracy: number | null;
+  lastAccuracy: number | null;
+}
+
+export const getWritingStats = (char: string, progress = loadProgress()): CharacterWritingStats => {
+  const attempts = progress.writing?.[char] || [];
+  const recent = attempts.slice(-RECENT_WRITING_ATTEMPTS).map(writingAccuracy);
+  return {
+    char,
+    attempts: attempts.length,
+    recentAccuracy: recent.length ? Math.round(recent.reduce((sum, a) => sum + a, 0) / recent.length) : null,
+    lastAccuracy: recent.length ? recent[recent.length - 1] : null,
+  };
+};
+
+// Characters never written come first, then the lowest recent accuracy;
+// ties keep the lesson order.
+export const orderByWritingWeakness = (chars: string[]): CharacterWritingStats[] => {
+  const progress = loadProgress();
+  return chars
+    .map(char => getWritingStats(char, progress))
+    .map((stats, i) => ({ stats, i, rank: stats.recentAccuracy ?? -1 }))
+    .sort((a, b) => a.rank - b.rank || a.i - b.i)
+    .map(({ stats }) => stats);
+};
+
+// --- Dashboard summary ---
+
+export interface LessonSummary {
+  lessonName: string;
+  bestTypingPercent: number | null;
+  lastTypingPercent: number | null;
+  exercisesCompleted: number;
+  bestExercisePercent: number | null;
+  wordsTotal: number;
+  wordsMastered: number;
+  aiSessions: number;
+  timeSpentMs: number;
+  // 0–100, averaged over the activities the lesson offers.
+  completion: number;
+}
+
+export interface WeakWord {
+  word: SrsWord;
+  wrong: number;
+  lapses: number;
+}
+
+export interface ProgressSummary {
+  lessons: LessonSummary[];
+  currentStreak: number;
+  longestStreak: number;
+  totalTimeMs: number;
+  weakestWords: WeakWord[];
+}
+
+const streaks = (days: Set<string>, now: Date) => {
+  const sorted = Array.from(days).sort();
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  sorted.forEach(day => {
+    const [y, m, d] = day.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    run = previous && Math.round((date.getTime() - previous.getTime()) / 86400000) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  // The current streak survives until the end of the day after the last practice.
+  let current = 0;
+  const cursor = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (!days.has(toDayString(cursor))) cursor.setDate(cursor.getDate() - 1);
+  while (days.has(toDayString(cursor))) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return { current, longest };
+};
+
+export const summarizeProgress = (now = new Date()): ProgressSummary => {
+  const progress = loadProgress();
+  const srs = loadSrsState();
+  const sessions = loadConversationHistory();
+
+  const lessons = LESSONS.map(({ name }): LessonSummary => {
+    const lesson = progress.lessons[name] || emptyLesson();
+    const typingPercents = lesson.typing.map(a => percent(a.correct, a.total));
+    const exercisePercents = lesson.exercises.map(a => percent(a.correct, a.total));
+    const words = SRS_WORDS.filter(w => w.lessonName === name);
+    const wordsMastered = words.filter(w => (srs.cards[w.key]?.interval ?? 0) >= MASTERED_INTERVAL_DAYS).length;
+    const aiSessions = sessions.filter(s => s.lessonName === name).length;
+    const hasPrompts = (AI_CONVERSATION_PROMPTS[name] || []).length > 0;
+
+    const parts = [
+      typingPercents.length ? Math.max(...typingPercents) : 0,
+      exercisePercents.length ? Math.max(...exercisePercents) : 0,
+      percent(wordsMastered, words.length),
+    ];
+    if (hasPrompts) parts.push(aiSessions > 0 ? 100 : 0);
+
+    return {
+      lessonName: name,
+      bestTypingPercent: typingPercents.length ? Math.max(...typingPercents) : null,
+      lastTypingPercent: typingPercents.length ? typingPercents[typingPercents.length - 1] : null,
+      exercisesCompleted: lesson.exercises.length,
+      bestExercisePercent: exercisePercents.length ? Math.max(...exercisePercents) : null,
+      wordsTotal: words.length,
+      wordsMastered,
+      aiSessions,
+      timeSpentMs: lesson.timeSpentMs,
+      completion: Math.round(parts.reduce((sum, p) => sum + p, 0) / parts.length),
+    };
+  });
+
+  const days = new Set(progress.activeDays);
+  Object.values(srs.cards).forEach(card => card.history.forEach(h => days.add(toDayString(new Date(h.at)))));
+  sessions.forEach(s => days.add(toDayString(new Date(s.startedAt))));
+  const { current, longest } = streaks(days, now);
+
+  const weakestWords = Array.from(new Set([...Object.keys(progress.words), ...Object.keys(srs.cards)]))
+    .map(key => ({ key, word: getSrsWord(key), wrong: progress.words[key]?.wrong ?? 0, lapses: srs.cards[key]?.lapses ?? 0 }))
+    .filter((w): w is WeakWord & { key: string } => !!w.word && w.wrong + w.lapses > 0)
+    .sort((a, b) => (b.wrong + b.lapses * 2) - (a.wrong + a.lapses * 2))
+    .slice(0, 10)
+    .map(({ word, wrong, lapses }) => ({ word, wrong, lapses }));
+
+  return {
+    lessons,
+    currentStreak: current,
+    longestStreak: longest,
+    totalTimeMs: lessons.reduce((sum, l) => sum + l.timeSpentMs, 0),
+    weakestWords,
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '< 1 phút';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} giờ ${minutes % 60} phút` : `${minutes} phút`;
+};
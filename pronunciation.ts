@@ -0,0 +1,92 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { Blob } from '@google/genai';
+import { alignSyllables, splitInitial, splitSyllables } from './pinyin';
+import type { PinyinSyllable } from './pinyin';
+import type { VocabularyWord } from './types';
+
+// --- Pronunciation scoring for single vocabulary words ---
+
+const TRANSCRIBE_MODEL = 'gemini-2.5-flash';
+
+const INITIAL_POINTS = 30;
+const FINAL_POINTS = 30;
+const TONE_POINTS = 40;
+
+export interface SyllableScore {
+  expected: PinyinSyllable | null;
+  heard: PinyinSyllable | null;
+  initialCorrect: boolean;
+  finalCorrect: boolean;
+  toneCorrect: boolean;
+  score: number;
+}
+
+export interface PronunciationResult {
+  heard: string;
+  syllables: SyllableScore[];
+  score: number;
+}
+
+export const transcribePronunciation = async (apiKey: string, audio: Blob, word: VocabularyWord): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: TRANSCRIBE_MODEL,
+    contents: [{
+      role: 'user',
+      parts: [
+        { inlineData: audio },
+        {
+          text: `A Vietnamese learner of Mandarin tried to say the word 「${word.char}」 (expected pinyin: ${word.pinyin}).
+Transcribe the recording as Hanyu Pinyin with tone marks, exactly as it was pronounced, with the syllables separated by spaces.
+Do NOT correct it towards the expected word: if a sound or a tone is wrong, write what was actually said. Write neutral-tone syllables without a tone mark.
+If nothing intelligible was said, return an empty string.`,
+        },
+      ],
+    }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          heard: { type: Type.STRING },
+        },
+        required: ['heard'],
+      },
+    },
+  });
+  const parsed = JSON.parse(response.text || '{}');
+  return typeof parsed.heard === 'string' ? parsed.heard.trim() : '';
+};
+
+export const scorePronunciation = (expectedPinyin: string, heardPinyin: string): PronunciationResult => {
+  const expected = splitSyllables(expectedPinyin);
+  const heard = splitSyllables(heardPinyin);
+
+  const syllables = alignSyllables(expected, heard).map(([exp, got], index, pairs): SyllableScore => {
+    if (!exp || !got) {
+      return { expected: exp, heard: got, initialCorrect: false, finalCorrect: false, toneCorrect: false, score: 0 };
+    }
+    const [expInitial, expFinal] = splitInitial(exp.base);
+    const [gotInitial, gotFinal] = splitInitial(got.base);
+    // The data does not write third-tone sandhi (nǐ hǎo is said ní hǎo), and a
+    // neutral-tone syllable may be heard with any light tone.
+    const nextExpected = pairs.slice(index + 1).find(([e]) => e)?.[0];
+    const sandhi = exp.tone === 3 && nextExpected?.tone === 3 && got.tone === 2;
+    const toneCorrect = exp.tone === 5 || exp.tone === got.tone || sandhi;
+    const initialCorrect = expInitial === gotInitial;
+    const finalCorrect = expFinal === gotFinal;
+    return {
+      expected: exp,
+      heard: got,
+      initialCorrect,
+      finalCorrect,
+      toneCorrect,
+      score: (initialCorrect ? INITIAL_POINTS : 0) + (finalCorrect ? FINAL_POINTS : 0) + (toneCorrect ? TONE_POINTS : 0),
+    };
+  });
+
+  const score = syllables.length
+    ? Math.round(syllables.reduce((sum, s) => sum + s.score, 0) / syllables.length)
+    : 0;
+  return { heard: heardPinyin, syllables, score };
+};
@@ -0,0 +1,148 @@
+import { VOCABULARY_DATA } from './content';
+import { isHanzi } from './dictionary';
+import { BLANK, shuffle } from './exercises';
+import type { Exercise, FillBlankExercise, MultipleChoiceExercise, ReorderExercise, VocabularyWord } from './types';
+
+// --- Randomized quizzes generated from the lesson vocabulary and texts ---
+
+const WORD_SECTIONS = ['Từ mới', 'Gõ từ mới'];
+const SENTENCE_SECTIONS = ['Giao tiếp', 'Gõ bài khóa'];
+
+export const DEFAULT_QUESTION_COUNT = 15;
+const OPTION_COUNT = 4;
+const MIN_REORDER_TOKENS = 3;
+const MAX_REORDER_TOKENS = 7;
+
+interface Sentence {
+  text: string;
+  translation: string;
+}
+
+const cleanSentence = (text: string) => text.replace(/[\s.,!?。，！？]/g, '');
+
+// Entries such as '没(有)' or '从...到...' are notes rather than words.
+const isPlainWord = (word: VocabularyWord) => word.char.trim() !== '' && Array.from(word.char.trim()).every(isHanzi);
+
+const lessonWords = (lessonNames: string[]): VocabularyWord[] => {
+  const seen = new Set<string>();
+  return lessonNames.flatMap(name => WORD_SECTIONS.flatMap(section => VOCABULARY_DATA[name]?.[section] || []))
+    .filter(word => {
+      if (!isPlainWord(word) || !word.vi.trim() || seen.has(word.char)) return false;
+      seen.add(word.char);
+      return true;
+    });
+};
+
+// 'Gõ bài khóa' repeats the 'Giao tiếp' sentences, mostly without pinyin or
+// meaning, so sentences are merged by text and keep the first translation found.
+const lessonSentences = (lessonNames: string[]): Sentence[] => {
+  const byText = new Map<string, Sentence>();
+  lessonNames.forEach(name => SENTENCE_SECTIONS.forEach(section => {
+    (VOCABULARY_DATA[name]?.[section] || []).forEach(entry => {
+      const text = cleanSentence(entry.char);
+      if (!text) return;
+      const existing = byText.get(text);
+      if (!existing) byText.set(text, { text, translation: entry.vi.trim() });
+      else if (!existing.translation) existing.translation = entry.vi.trim();
+    });
+  }));
+  return Array.from(byText.values());
+};
+
+// Segmentation uses every word the course teaches, not only the chosen lessons.
+const SEGMENT_WORDS: Set<string> = new Set(lessonWords(Object.keys(VOCABULARY_DATA)).map(w => w.char));
+const MAX_WORD_LENGTH = Math.max(1, ...Array.from(SEGMENT_WORDS, w => w.length));
+
+// Greedy longest match; characters outside the word list become one-character tokens.
+const segmentSentence = (text: string): string[] => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    let len = Math.min(MAX_WORD_LENGTH, text.length - i);
+    while (len > 1 && !SEGMENT_WORDS.has(text.slice(i, i + len))) len--;
+    tokens.push(text.slice(i, i + len));
+    i += len;
+  }
+  return tokens;
+};
+
+const pickDistractors = <T,>(pool: T[], exclude: (item: T) => boolean, count: number): T[] =>
+  shuffle(pool.filter(item => !exclude(item))).slice(0, count);
+
+// 'tuổi' and 'tuổi tác' would both be right, so meanings that contain each
+// other are never offered together.
+const meaningsOverlap = (a: string, b: string) => {
+  const x = a.trim().toLowerCase();
+  const y = b.trim().toLowerCase();
+  return x.includes(y) || y.includes(x);
+};
+
+const meaningQuestion = (word: VocabularyWord, words: VocabularyWord[], id: number): MultipleChoiceExercise | null => {
+  const distractors: string[] = [];
+  pickDistractors(words, w => meaningsOverlap(w.vi, word.vi), words.length).forEach(w => {
+    if (distractors.length < OPTION_COUNT - 1 && !distractors.some(d => meaningsOverlap(d, w.vi))) distractors.push(w.vi.trim());
+  });
+  if (distractors.length < OPTION_COUNT - 1) return null;
+  const options = shuffle([word.vi.trim(), ...distractors]);
+  return { id, type: 'multiple-choice', prompt: `「${word.char}」 nghĩa là gì?`, options, answer: options.indexOf(word.vi.trim()) };
+};
+
+const clozeQuestion = (sentence: Sentence, words: VocabularyWord[], id: number): FillBlankExercise | null => {
+  const known = new Set(words.map(w => w.char));
+  const tokens = segmentSentence(sentence.text);
+  // A blank that is the whole sentence gives nothing to work from.
+  const candidates = tokens.length < 2 ? [] : tokens.flatMap((token, index) => (known.has(token) ? [index] : []));
+  if (candidates.length === 0) return null;
+  // The blank goes on the chosen token itself; a text search would blank the
+  // first match, which may be part of another word (e.g. 生 in 学生 and 生日).
+  const blankIndex = shuffle(candidates)[0];
+  const answer = tokens[blankIndex];
+  const distractors = pickDistractors(
+    words.map(w => w.char),
+    char => char === answer || sentence.text.includes(char) || char.length !== answer.length,
+    OPTION_COUNT - 1,
+  );
+  if (distractors.length < OPTION_COUNT - 1) return null;
+  return {
+    id,
+    type: 'fill-blank',
+    sentence: tokens.map((token, index) => (index === blankIndex ? BLANK : token)).join(''),
+    answer,
+    options: shuffle([answer, ...distractors]),
+    translation: sentence.translation || undefined,
+  };
+};
+
+const reorderQuestion = (sentence: Sentence, id: number): ReorderExercise | null => {
+  const tokens = segmentSentence(sentence.text);
+  if (tokens.length < MIN_REORDER_TOKENS || tokens.length > MAX_REORDER_TOKENS || !sentence.translation) return null;
+  return { id, type: 'reorder', tokens, translation: sentence.translation };
+};
+
+// Builds a fresh quiz over the given lessons: roughly 40% meaning choice, 30%
+// cloze and 30% sentence ordering. Kinds that run out of material are filled
+// up with the others.
+export const generateQuiz = (lessonNames: string[], questionCount = DEFAULT_QUESTION_COUNT): Exercise[] => {
+  const words = lessonWords(lessonNames);
+  const sentences = shuffle(lessonSentences(lessonNames));
+  let nextId = 1;
+
+  const meaning = shuffle(words)
+    .map(word => meaningQuestion(word, words, nextId++))
+    .filter((q): q is MultipleChoiceExercise => q !== null);
+  const cloze = sentences
+    .map(sentence => clozeQuestion(sentence, words, nextId++))
+    .filter((q): q is FillBlankExercise => q !== null);
+  const reorder = shuffle(sentences)
+    .map(sentence => reorderQuestion(sentence, nextId++))
+    .filter((q): q is ReorderExercise => q !== null);
+
+  const wanted: [Exercise[], number][] = [
+    [meaning, Math.round(questionCount * 0.4)],
+    [cloze, Math.round(questionCount * 0.3)],
+    [reorder, questionCount - Math.round(questionCount * 0.4) - Math.round(questionCount * 0.3)],
+  ];
+  const picked = wanted.flatMap(([pool, count]) => pool.splice(0, count));
+  const leftovers = shuffle(wanted.flatMap(([pool]) => pool));
+  return shuffle([...picked, ...leftovers.slice(0, questionCount - picked.length)]);
+};
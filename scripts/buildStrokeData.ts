@@ -0,0 +1,37 @@
+import { copyFileSync, existsSync, mkdirSync, readdirSync, rmSync } from 'node:fs';
+import path from 'node:path';
+import { CHARACTER_COMPONENTS } from '../constants';
+import { DEFAULT_PACK } from '../contentPack';
+import { STROKE_DATA_DIR } from '../strokeData';
+
+// Copies HanziWriter stroke data for every character of the built-in course
+// (and of the character breakdowns) into public/, where Vite serves and
+// bundles it. Runs before `npm run dev` and `npm run build`.
+
+const HANZI_GLOBAL = /[\u4e00-\u9fff]/g;
+
+const sourceDir = path.resolve('node_modules', 'hanzi-writer-data');
+const targetDir = path.resolve('public', STROKE_DATA_DIR);
+
+const courseCharacters = (): string[] => {
+  const chars = new Set(JSON.stringify(DEFAULT_PACK).match(HANZI_GLOBAL) || []);
+  Object.entries(CHARACTER_COMPONENTS).forEach(([char, { radical, components }]) => {
+    [char, radical, ...components].forEach(c => (c.match(HANZI_GLOBAL) || []).forEach(h => chars.add(h)));
+  });
+  return Array.from(chars).sort();
+};
+
+const chars = courseCharacters();
+const missing: string[] = [];
+
+if (existsSync(targetDir)) rmSync(targetDir, { recursive: true });
+mkdirSync(targetDir, { recursive: true });
+
+chars.forEach(char => {
+  const source = path.join(sourceDir, `${char}.json`);
+  if (existsSync(source)) copyFileSync(source, path.join(targetDir, `${char}.json`));
+  else missing.push(char);
+});
+
+console.log(`Stroke data: ${readdirSync(targetDir).length}/${chars.length} chữ → public/${STROKE_DATA_DIR}`);
+if (missing.length > 0) console.log(`Không có dữ liệu nét viết: ${missing.join(' ')}`);
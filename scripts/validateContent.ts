@@ -0,0 +1,41 @@
+import { readFileSync } from 'node:fs';
+import { DEFAULT_PACK, parseContentPack } from '../contentPack';
+import { validatePackContent } from '../contentValidator';
+import type { ContentIssue } from '../contentValidator';
+import type { ContentPack } from '../types';
+
+// Checks the bundled course, or the content pack files given as arguments.
+//   npm run validate-content
+//   npm run validate-content -- path/to/pack.json
+// Exits with 1 when any error is found; warnings are only reported.
+
+const formatIssue = (issue: ContentIssue) => {
+  const where = issue.section ? `${issue.lessonName} / ${issue.section}` : issue.lessonName;
+  const label = issue.severity === 'error' ? 'LỖI' : 'CẢNH BÁO';
+  return `  ${label.padEnd(8)} [${issue.check}] ${where}: ${issue.message}`;
+};
+
+const loadPacks = (files: string[]): { label: string; pack: ContentPack | null; errors: string[] }[] => {
+  if (files.length === 0) return [{ label: 'Giáo trình có sẵn', pack: DEFAULT_PACK, errors: [] }];
+  return files.map(file => ({ label: file, ...parseContentPack(readFileSync(file, 'utf8')) }));
+};
+
+let errorCount = 0;
+let warningCount = 0;
+
+loadPacks(process.argv.slice(2)).forEach(({ label, pack, errors }) => {
+  console.log(`\n${label}`);
+  if (!pack) {
+    errors.forEach(error => console.log(`  ${'LỖI'.padEnd(8)} [schema] ${error}`));
+    errorCount += errors.length;
+    return;
+  }
+  const issues = validatePackContent(pack);
+  if (issues.length === 0) console.log('  Không có vấn đề.');
+  issues.forEach(issue => console.log(formatIssue(issue)));
+  errorCount += issues.filter(i => i.severity === 'error').length;
+  warningCount += issues.filter(i => i.severity === 'warning').length;
+});
+
+console.log(`\n${errorCount} lỗi, ${warningCount} cảnh báo.`);
+process.exit(errorCount > 0 ? 1 : 0);
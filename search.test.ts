@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { searchDictionary } from './search';
+
+const top = (query: string) => searchDictionary(query)[0];
+
+describe('searchDictionary', () => {
+  it('finds words by Hanzi, pinyin and Vietnamese', () => {
+    expect(top('女儿').entry.char).toBe('女儿');
+    expect(top('nuer')).toMatchObject({ entry: { char: '女儿' }, matchedOn: 'pinyin' });
+    expect(searchDictionary('con gai').some(r => r.entry.char === '女儿' && r.matchedOn === 'vi')).toBe(true);
+  });
+
+  it('ranks pinyin above meanings when the query has tones', () => {
+    expect(top('nǚ')).toMatchObject({ entry: { char: '女儿' }, matchedOn: 'pinyin' });
+    expect(top('nv3').matchedOn).toBe('pinyin');
+    const results = searchDictionary('nǚ');
+    const firstMeaning = results.findIndex(r => r.matchedOn === 'vi');
+    expect(results.slice(firstMeaning).every(r => r.matchedOn === 'vi')).toBe(true);
+  });
+
+  it('ranks the meaning first for Vietnamese words that are also toned pinyin', () => {
+    expect(top('bà')).toMatchObject({ entry: { char: '奶奶' }, matchedOn: 'vi' });
+    expect(searchDictionary('bà').some(r => r.entry.char === '爸爸' && r.matchedOn === 'pinyin')).toBe(true);
+  });
+
+  it('does not read letters only Vietnamese has as pinyin', () => {
+    const results = searchDictionary('nữ');
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(r => r.matchedOn === 'vi')).toBe(true);
+    expect(searchDictionary('đi').every(r => r.matchedOn === 'vi')).toBe(true);
+  });
+});
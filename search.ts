@@ -0,0 +1,186 @@
+import { AI_CONVERSATION_PROMPTS, LESSONS, SUPPLEMENTARY_VOCABULARY, VOCABULARY_DATA } from './content';
+import { annotateWithPinyin, isHanzi } from './dictionary';
+import { numberedToDiacritic } from './pinyin';
+
+// --- Search across every lesson: Hanzi, pinyin (with or without tones), Vietnamese ---
+
+export const PROMPTS_SECTION = 'AI giao tiếp';
+export const SUPPLEMENTARY_SECTION = 'Từ mới SS';
+
+const WORD_SECTIONS = ['Từ mới', 'Gõ từ mới', SUPPLEMENTARY_SECTION];
+
+const MAX_RESULTS = 50;
+
+export interface SearchOccurrence {
+  lessonName: string;
+  section: string;
+}
+
+export interface SearchEntry {
+  char: string;
+  pinyin: string;
+  vi: string;
+  // Lines from the texts and the AI prompts; ranked after words.
+  isSentence: boolean;
+  occurrences: SearchOccurrence[];
+}
+
+export type SearchField = 'hanzi' | 'pinyin' | 'vi';
+
+export interface SearchResult {
+  entry: SearchEntry;
+  matchedOn: SearchField;
+}
+
+interface IndexedEntry {
+  entry: SearchEntry;
+  hanzi: string;
+  pinyinToned: string;
+  pinyinPlain: string;
+  vi: string;
+  viAccented: string;
+}
+
+// 'Khách sáo' → 'khach sao'. Also strips pinyin tone marks, which are the same
+// combining characters.
+export const foldVietnamese = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase();
+
+const HANZI_ONLY = /[^\u4e00-\u9fff]/g;
+
+const compactPinyin = (pinyin: string) => numberedToDiacritic(pinyin).normalize('NFC').toLowerCase().replace(/[^a-zāáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜü]/g, '');
+
+const foldPinyin = (pinyin: string) => foldVietnamese(compactPinyin(pinyin)).replace(/[^a-z]/g, '');
+
+const foldMeaning = (vi: string) => foldVietnamese(vi).replace(/[^a-z0-9]+/g, ' ').trim();
+
+const accentedMeaning = (vi: string) => vi.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const hasToneMarks = (pinyin: string) => /[āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜ]/.test(pinyin);
+
+// Letters pinyin is written with, in either tone style. A query with any other
+// letter (ư, ơ, đ, ạ, ả…) can only be Vietnamese.
+const PINYIN_LETTER = /[a-zāáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜü]/;
+
+const isPinyinQuery = (query: string) =>
+  (query.normalize('NFC').toLowerCase().match(/\p{L}/gu) || []).every(letter => PINYIN_LETTER.test(letter));
+
+// Tone numbers and the marks Vietnamese never uses. 'bà' or 'mé' could be
+// either language; 'bǎ' or 'ba3' is pinyin.
+const hasPinyinOnlyTones = (query: string) => /[1-5]/.test(query) || /[āǎēěīǐōǒūǔǖǘǚǜü]/.test(query.normalize('NFC').toLowerCase());
+
+let index: IndexedEntry[] | null = null;
+
+// Built on first use. Entries are grouped by their Hanzi so a word taught in
+// 'Từ mới' and practised in 'Gõ từ mới' and a later lesson is one result.
+const buildIndex = (): IndexedEntry[] => {
+  const byKey = new Map<string, SearchEntry>();
+  const add = (char: string, pinyin: string, vi: string, isSentence: boolean, occurrence: SearchOccurrence) => {
+    const key = char.replace(HANZI_ONLY, '');
+    if (!key) return;
+    let entry = byKey.get(key);
+    if (!entry) {
+      entry = { char: char.trim(), pinyin: pinyin.trim(), vi: vi.trim(), isSentence, occurrences: [] };
+      byKey.set(key, entry);
+    }
+    entry.isSentence = entry.isSentence && isSentence;
+    if (!entry.pinyin && pinyin.trim()) entry.pinyin = pinyin.trim();
+    if (!entry.vi && vi.trim()) entry.vi = vi.trim();
+    if (!entry.occurrences.some(o => o.lessonName === occurrence.lessonName && o.section === occurrence.section)) {
+      entry.occurrences.push(occurrence);
+    }
+  };
+
+  LESSONS.forEach(({ name: lessonName }) => {
+    Object.entries(VOCABULARY_DATA[lessonName] || {}).forEach(([section, words]) => {
+      words.forEach(word => add(word.char, word.pinyin, word.vi, !WORD_SECTIONS.includes(section), { lessonName, section }));
+    });
+    (SUPPLEMENTARY_VOCABULARY[lessonName] || []).forEach(word => {
+      add(word.char, word.pinyin, word.vi, false, { lessonName, section: SUPPLEMENTARY_SECTION });
+    });
+    (AI_CONVERSATION_PROMPTS[lessonName] || []).forEach(prompt => {
+      add(prompt, '', '', true, { lessonName, section: PROMPTS_SECTION });
+    });
+  });
+
+  return Array.from(byKey.values()).map(entry => {
+    // Prompts come without pinyin; the course dictionary fills in what it can
+    // so they are still found by pinyin.
+    const pinyin = entry.pinyin || annotateWithPinyin(entry.char).map(s => s.pinyin || '').join(' ');
+    return {
+      entry,
+      hanzi: entry.char.replace(HANZI_ONLY, ''),
+      pinyinToned: compactPinyin(pinyin),
+      pinyinPlain: foldPinyin(pinyin),
+      vi: foldMeaning(entry.vi),
+      viAccented: accentedMeaning(entry.vi),
+    };
+  });
+};
+
+// Exact matches rank above prefixes, prefixes above anything else.
+const matchRank = (haystack: string, needle: string): number => {
+  if (!needle || !haystack) return -1;
+  if (haystack === needle) return 3;
+  if (haystack.startsWith(needle)) return 2;
+  return haystack.includes(needle) ? 1 : -1;
+};
+
+// A query with tone marks or tone numbers only matches those tones; without
+// them any tone matches. Meanings match with or without accents, a match with
+// the same accents ranking higher. A query with letters pinyin does not have
+// ('nữ') is only matched on meaning. Tones only pinyin uses ('nǚ', 'nv3') put
+// meaning matches after every pinyin match; marks both languages share ('bà')
+// put the meaning first on an equal match.
+export const searchDictionary = (query: string): SearchResult[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  index = index || buildIndex();
+
+  const hanzi = Array.from(trimmed).some(isHanzi) ? trimmed.replace(HANZI_ONLY, '') : '';
+  const isPinyin = isPinyinQuery(trimmed);
+  const toned = compactPinyin(trimmed);
+  const matchTones = hasToneMarks(toned) || /[1-5]/.test(trimmed);
+  const plain = foldPinyin(trimmed);
+  const vi = foldMeaning(trimmed);
+  const viAccented = accentedMeaning(trimmed);
+  const pinyinOnlyTones = isPinyin && hasPinyinOnlyTones(trimmed);
+  const fieldPenalty: Record<SearchField, number> = {
+    hanzi: 0,
+    pinyin: matchTones && !pinyinOnlyTones ? 100 : 0,
+    vi: pinyinOnlyTones ? 3000 : 0,
+  };
+
+  const scored: { result: SearchResult; score: number }[] = [];
+  index.forEach(item => {
+    // [field, rank, penalty]
+    const candidates: [SearchField, number, number][] = [];
+    if (hanzi) {
+      candidates.push(['hanzi', matchRank(item.hanzi, hanzi), 0]);
+    } else {
+      if (isPinyin) candidates.push(['pinyin', matchTones ? matchRank(item.pinyinToned, toned) : matchRank(item.pinyinPlain, plain), 0]);
+      // A meaning that only matches once accents are dropped ('bà' in 'bận')
+      // is a looser match than one with the same accents.
+      const accentedRank = matchRank(item.viAccented, viAccented);
+      candidates.push(accentedRank >= 0 ? ['vi', accentedRank, 0] : ['vi', matchRank(item.vi, vi), 200]);
+    }
+    // Words before sentences, then shorter (closer) matches first.
+    const best = candidates
+      .filter(([, rank]) => rank >= 0)
+      .map(([field, rank, penalty]) => ({
+        result: { entry: item.entry, matchedOn: field },
+        score: rank * 1000 - (item.entry.isSentence ? 500 : 0) - item.hanzi.length - fieldPenalty[field] - penalty,
+      }))
+      .reduce<{ result: SearchResult; score: number } | null>((a, b) => (!a || b.score > a.score ? b : a), null);
+    if (best) scored.push(best);
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(s => s.result);
+};
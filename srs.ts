@@ -0,0 +1,173 @@
+import { LESSONS, VOCABULARY_DATA } from './content';
+import { readValue, writeValue } from './storage';
+import type { ReviewGrade, SrsCard, SrsState, VocabularyWord } from './types';
+
+// --- Spaced repetition (SM-2) over the lesson vocabulary ---
+
+const SRS_SECTIONS = ['Từ mới', 'Gõ từ mới'];
+export const NEW_CARDS_PER_DAY = 10;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export interface SrsWord extends VocabularyWord {
+  key: string;
+  lessonName: string;
+}
+
+// The per-section `id` restarts at 1 in every section, so cards are keyed by the
+// Hanzi itself. A word repeated in a later lesson shares the card of its first appearance.
+export const wordKey = (word: VocabularyWord): string => word.char.trim();
+
+export const SRS_WORDS: SrsWord[] = (() => {
+  const seen = new Set<string>();
+  const words: SrsWord[] = [];
+  LESSONS.forEach(lesson => {
+    const sections = VOCABULARY_DATA[lesson.name] || {};
+    SRS_SECTIONS.forEach(section => {
+      (sections[section] || []).forEach(word => {
+        const key = wordKey(word);
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+        words.push({ ...word, key, lessonName: lesson.name });
+      });
+    });
+  });
+  return words;
+})();
+
+const SRS_WORDS_BY_KEY = new Map(SRS_WORDS.map(word => [word.key, word]));
+
+export const getSrsWord = (key: string): SrsWord | undefined => SRS_WORDS_BY_KEY.get(key);
+
+export const toDayString = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+const addDays = (day: string, days: number): string => {
+  const [y, m, d] = day.split('-').map(Number);
+  return toDayString(new Date(y, m - 1, d + days));
+};
+
+export const createEmptySrsState = (): SrsState => ({ version: 1, cards: {} });
+
+export const loadSrsState = (): SrsState => {
+  const stored = readValue('srs_state');
+  if (stored?.version !== 1 || typeof stored.cards !== 'object') return createEmptySrsState();
+  return stored;
+};
+
+export const saveSrsState = (state: SrsState) => {
+  writeValue('srs_state', state);
+};
+
+// The same card reviewed on two devices: the copy with the longer review
+// history wins, ties go to the later due date.
+export const mergeSrsStates = (current: SrsState, incoming: SrsState): SrsState => {
+  const cards = { ...current.cards };
+  Object.entries(incoming.cards).forEach(([key, card]) => {
+    const existing = cards[key];
+    const newer = !existing
+      || card.history.length > existing.history.length
+      || (card.history.length === existing.history.length && card.due > existing.due);
+    if (newer) cards[key] = card;
+  });
+  return { version: 1, cards };
+};
+
+const newCard = (key: string, today: string): SrsCard => ({
+  key,
+  repetitions: 0,
+  interval: 0,
+  easeFactor: 2.5,
+  due: today,
+  lapses: 0,
+  history: [],
+});
+
+export const reviewCard = (card: SrsCard, grade: ReviewGrade, now: Date = new Date()): SrsCard => {
+  const today = toDayString(now);
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(1.3, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  const history = [...card.history, { at: now.getTime(), grade }];
+
+  if (quality < 3) {
+    // Forgotten words come back later the same day, then restart from a one-day interval.
+    return {
+      ...card,
+      repetitions: 0,
+      interval: 0,
+      easeFactor,
+      due: today,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      history,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 6;
+  } else {
+    interval = Math.round(card.interval * easeFactor);
+  }
+  if (grade === 'hard') interval = Math.max(1, Math.round(interval * 0.8));
+  if (grade === 'easy') interval = Math.round(interval * 1.3) || 1;
+
+  return {
+    ...card,
+    repetitions,
+    interval,
+    easeFactor,
+    due: addDays(today, interval),
+    history,
+  };
+};
+
+export const applyReview = (state: SrsState, key: string, grade: ReviewGrade, now: Date = new Date()): SrsState => {
+  const card = state.cards[key] || newCard(key, toDayString(now));
+  return {
+    ...state,
+    cards: { ...state.cards, [key]: reviewCard(card, grade, now) },
+  };
+};
+
+const lastReviewedAt = (card: SrsCard): number => card.history[card.history.length - 1]?.at ?? 0;
+
+export interface ReviewQueue {
+  due: SrsWord[];
+  fresh: SrsWord[];
+}
+
+// Due cards first (most overdue first, just-forgotten ones last), then unseen words
+// from lessons up to and including `currentLessonName`, capped by how many new words
+// were already started today.
+export const buildReviewQueue = (state: SrsState, currentLessonName: string, now: Date = new Date()): ReviewQueue => {
+  const today = toDayString(now);
+  const lessonIndex = LESSONS.findIndex(l => l.name === currentLessonName);
+  const reachedLessons = new Set(LESSONS.slice(0, lessonIndex + 1).map(l => l.name));
+
+  const due = Object.values(state.cards)
+    .filter(card => card.due <= today && SRS_WORDS_BY_KEY.has(card.key))
+    .sort((a, b) => a.due.localeCompare(b.due) || lastReviewedAt(a) - lastReviewedAt(b))
+    .map(card => SRS_WORDS_BY_KEY.get(card.key)!);
+
+  const startedToday = Object.values(state.cards)
+    .filter(card => card.history.length > 0 && toDayString(new Date(card.history[0].at)) === today)
+    .length;
+  const freshLimit = Math.max(0, NEW_CARDS_PER_DAY - startedToday);
+  const fresh = SRS_WORDS
+    .filter(word => reachedLessons.has(word.lessonName) && !state.cards[word.key])
+    .slice(0, freshLimit);
+
+  return { due, fresh };
+};
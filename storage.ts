@@ -0,0 +1,246 @@
+import type { CharacterJson } from 'hanzi-writer';
+import type { ConversationProviderId } from './conversationProvider';
+import type { ContentPack, ConversationSession, ProgressState, SrsState } from './types';
+
+// --- Local-first storage: IndexedDB with a localStorage / in-memory fallback ---
+//
+// Everything is loaded into memory once by `initStorage()` before the app
+// renders, so reads stay synchronous. Writes update memory immediately and are
+// persisted in the background.
+
+export interface StorageSchema {
+  gemini_api_key: string;
+  ai_provider: ConversationProviderId;
+  srs_state: SrsState;
+  learner_progress: ProgressState;
+  ai_conversation_history: ConversationSession[];
+  last_position: string;
+  content_packs: ContentPack[];
+  // Downloaded for characters that are not bundled; see strokeData.ts.
+  stroke_data: Record<string, CharacterJson>;
+}
+
+export type StorageKey = keyof StorageSchema;
+
+export type StorageBackend = 'indexeddb' | 'localstorage' | 'memory';
+
+const DB_NAME = 'tieng-trung-ai';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+const SCHEMA_VERSION_KEY = '__schema_version';
+const FALLBACK_PREFIX = 'tieng-trung-ai:';
+
+const STORAGE_KEYS: StorageKey[] = [
+  'gemini_api_key',
+  'ai_provider',
+  'srs_state',
+  'learner_progress',
+  'ai_conversation_history',
+  'last_position',
+  'content_packs',
+  'stroke_data',
+];
+
+// Earlier builds wrote these to localStorage as plain strings rather than JSON.
+const PLAIN_STRING_KEYS: StorageKey[] = ['gemini_api_key', 'ai_provider', 'last_position'];
+
+const cache = new Map<string, unknown>();
+let db: IDBDatabase | null = null;
+let backend: StorageBackend = 'memory';
+const listeners = new Set<(backend: StorageBackend) => void>();
+const pendingWrites = new Set<Promise<void>>();
+
+const setBackend = (next: StorageBackend) => {
+  if (next === backend) return;
+  backend = next;
+  listeners.forEach(listener => listener(next));
+};
+
+const hasLocalStorage = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && !!localStorage;
+  } catch {
+    return false;
+  }
+};
+
+const parseJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+// Each entry upgrades the stored data by one schema version and returns the
+// localStorage keys it has taken over, which are removed once the result is
+// safely persisted.
+const MIGRATIONS: Array<() => string[]> = [
+  // 0 -> 1: adopt what earlier builds kept directly in localStorage.
+  () => {
+    if (!hasLocalStorage()) return [];
+    const adopted: string[] = [];
+    STORAGE_KEYS.forEach(key => {
+      const raw = localStorage.getItem(key);
+      if (raw === null) return;
+      const value = PLAIN_STRING_KEYS.includes(key) ? raw : parseJson(raw);
+      if (value !== undefined && !cache.has(key)) cache.set(key, value);
+      adopted.push(key);
+    });
+    return adopted;
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(STORE_NAME)) database.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB is blocked by another tab'));
+  });
+
+const loadDatabase = async (database: IDBDatabase) => {
+  const store = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const [keys, values] = await Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll())]);
+  keys.forEach((key, i) => cache.set(String(key), values[i]));
+};
+
+// Entries under the prefix were written while IndexedDB was unavailable or
+// full, so they are newer than anything in the database.
+const fallbackKeys = (): string[] => {
+  if (!hasLocalStorage()) return [];
+  return Object.keys(localStorage).filter(key => key.startsWith(FALLBACK_PREFIX));
+};
+
+const loadFallback = () => {
+  fallbackKeys().forEach(key => {
+    const value = parseJson(localStorage.getItem(key) || '');
+    if (value !== undefined) cache.set(key.slice(FALLBACK_PREFIX.length), value);
+  });
+};
+
+const writeFallback = (key: string) => {
+  try {
+    const value = cache.get(key);
+    if (value === undefined) localStorage.removeItem(FALLBACK_PREFIX + key);
+    else localStorage.setItem(FALLBACK_PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to persist "${key}"; keeping it in memory only`, e);
+    setBackend('memory');
+  }
+};
+
+const writeDatabase = (database: IDBDatabase, key: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const value = cache.get(key);
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    if (value === undefined) store.delete(key);
+    else store.put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const persist = (key: string) => {
+  if (backend === 'indexeddb' && db) {
+    const write = writeDatabase(db, key)
+      .then(() => {
+        if (hasLocalStorage()) localStorage.removeItem(FALLBACK_PREFIX + key);
+      })
+      .catch(e => {
+        // Usually QuotaExceededError. localStorage has a separate quota, so
+        // keep going there rather than losing the write.
+        console.error(`IndexedDB write failed for "${key}"`, e);
+        setBackend('localstorage');
+        writeFallback(key);
+      })
+      .finally(() => pendingWrites.delete(write));
+    pendingWrites.add(write);
+  } else if (backend === 'localstorage') {
+    writeFallback(key);
+  }
+};
+
+export const initStorage = async (): Promise<StorageBackend> => {
+  try {
+    db = await openDatabase();
+    await loadDatabase(db);
+    backend = 'indexeddb';
+    navigator.storage?.persist?.().catch(() => undefined);
+  } catch (e) {
+    console.error('IndexedDB unavailable, falling back to localStorage', e);
+    db = null;
+    backend = hasLocalStorage() ? 'localstorage' : 'memory';
+  }
+
+  const absorbed = backend === 'indexeddb' ? fallbackKeys() : [];
+  loadFallback();
+
+  const storedVersion = Number(cache.get(SCHEMA_VERSION_KEY)) || 0;
+  const adopted = MIGRATIONS.slice(storedVersion).flatMap(migrate => migrate());
+  cache.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+
+  const changed = storedVersion !== SCHEMA_VERSION || absorbed.length > 0;
+  if (!changed) return backend;
+
+  const keys = Array.from(cache.keys());
+  if (backend === 'indexeddb' && db) {
+    try {
+      for (const key of keys) await writeDatabase(db, key);
+      absorbed.forEach(key => localStorage.removeItem(key));
+      adopted.forEach(key => localStorage.removeItem(key));
+    } catch (e) {
+      console.error('Failed to persist migrated data', e);
+      setBackend('localstorage');
+      keys.forEach(writeFallback);
+    }
+  } else if (backend === 'localstorage') {
+    keys.forEach(writeFallback);
+    if (backend === 'localstorage') adopted.forEach(key => localStorage.removeItem(key));
+  }
+  return backend;
+};
+
+// Values are copied in and out so callers can mutate what they read without
+// silently changing the stored state.
+export const readValue = <K extends StorageKey>(key: K): StorageSchema[K] | undefined => {
+  const value = cache.get(key);
+  return value === undefined ? undefined : structuredClone(value as StorageSchema[K]);
+};
+
+export const writeValue = <K extends StorageKey>(key: K, value: StorageSchema[K]) => {
+  cache.set(key, structuredClone(value));
+  persist(key);
+};
+
+export const removeValue = (key: StorageKey) => {
+  cache.delete(key);
+  persist(key);
+};
+
+// Resolves once every write made so far has reached the backend, e.g. before a reload.
+export const flushStorage = async (): Promise<void> => {
+  await Promise.all(Array.from(pendingWrites));
+};
+
+export const getStorageBackend = (): StorageBackend => backend;
+
+export const onStorageBackendChange = (listener: (backend: StorageBackend) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,66 @@
+import type { CharacterJson } from 'hanzi-writer';
+import { readValue, writeValue } from './storage';
+
+// --- Stroke data for HanziWriter: bundled files first, then a cached download ---
+//
+// `npm run dev` / `npm run build` copy the data for every character of the
+// built-in course into public/stroke-data (scripts/buildStrokeData.ts), so
+// those characters animate without a connection. Characters that only appear
+// in installed content packs are downloaded once and kept in storage.
+
+export const STROKE_DATA_DIR = 'stroke-data';
+
+const REMOTE_URL = 'https://cdn.jsdelivr.net/npm/hanzi-writer-data@2.0';
+
+export class MissingStrokeDataError extends Error {
+  constructor(readonly char: string) {
+    super(`No stroke data for "${char}"`);
+    this.name = 'MissingStrokeDataError';
+  }
+}
+
+const fetchJson = async (url: string): Promise<CharacterJson | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    // Some static hosts answer unknown paths with index.html.
+    if (!(response.headers.get('content-type') || '').includes('json')) return null;
+    return (await response.json()) as CharacterJson;
+  } catch {
+    return null;
+  }
+};
+
+const cacheStrokeData = (char: string, data: CharacterJson) => {
+  writeValue('stroke_data', { ...(readValue('stroke_data') || {}), [char]: data });
+};
+
+const pending = new Map<string, Promise<CharacterJson>>();
+
+export const loadStrokeData = (char: string): Promise<CharacterJson> => {
+  const cached = readValue('stroke_data')?.[char];
+  if (cached) return Promise.resolve(cached);
+  let request = pending.get(char);
+  if (!request) {
+    const file = `${encodeURIComponent(char)}.json`;
+    request = (async () => {
+      const bundled = await fetchJson(`${STROKE_DATA_DIR}/${file}`);
+      if (bundled) return bundled;
+      const remote = await fetchJson(`${REMOTE_URL}/${file}`);
+      if (!remote) throw new MissingStrokeDataError(char);
+      cacheStrokeData(char, remote);
+      return remote;
+    })().finally(() => pending.delete(char));
+    pending.set(char, request);
+  }
+  return request;
+};
+
+// Shaped for HanziWriter's `charDataLoader` option.
+export const strokeDataLoader = (
+  char: string,
+  onLoad: (data: CharacterJson) => void,
+  onError: (error?: unknown) => void,
+) => {
+  loadStrokeData(char).then(onLoad, onError);
+};
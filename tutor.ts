@@ -0,0 +1,135 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import type { ConversationMode } from './conversationProvider';
+import type { QuestionGrade, QuestionOutcome } from './types';
+
+// --- AI tutor persona, tools and grading ---
+
+export const MARK_ANSWER = 'markAnswer';
+export const SESSION_COMPLETE = 'sessionComplete';
+
+export const TUTOR_TOOLS: FunctionDeclaration[] = [
+  {
+    name: MARK_ANSWER,
+    description: "Records whether the learner's answer to a question from the list is correct. Must be called after every answer, before praising or correcting.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        questionIndex: {
+          type: Type.INTEGER,
+          description: 'The number of the question in the question list (starting at 1).',
+        },
+        correct: {
+          type: Type.BOOLEAN,
+          description: 'True if the answer is a grammatically correct and logical reply to the question.',
+        },
+        correction: {
+          type: Type.STRING,
+          description: 'When incorrect: a short explanation in Vietnamese plus a correct example answer in Chinese. Empty when correct.',
+        },
+      },
+      required: ['questionIndex', 'correct'],
+    },
+  },
+  {
+    name: SESSION_COMPLETE,
+    description: 'Ends the practice session. Call it once, after congratulating the learner for answering the last question correctly.',
+  },
+];
+
+export const buildTutorInstruction = (lessonName: string, prompts: string[], mode: ConversationMode = 'voice'): string => {
+  const questionList = prompts.map((p, i) => `${i + 1}. ${p}`).join('\n');
+  const isText = mode === 'text';
+  return `You are a Chinese language tutor for a Vietnamese speaker. Your task is to conduct a ${isText ? 'written chat' : 'spoken'} practice session for lesson '${lessonName}'.
+
+**Your Persona:**
+- Friendly, patient, and encouraging.
+- ${isText ? 'Write' : 'Speak'} Mandarin Chinese when asking questions and giving praise.
+- ${isText ? 'Write' : 'Speak'} Vietnamese when giving instructions or corrections.${isText ? `
+- Keep every message short: one question, or one praise plus the next question. Write Chinese in simplified Hanzi without pinyin; the learner types with a Chinese IME.` : ''}
+
+**Question List for this Session:**
+${questionList}
+
+**Tools:**
+- \`${MARK_ANSWER}(questionIndex, correct, correction)\`: you MUST call it after EVERY answer the learner gives to a question, before you say anything about the answer. Its response tells you which question to ask next.
+- \`${SESSION_COMPLETE}()\`: you MUST call it exactly once, at the very end of the session.
+
+**Conversation Flow:**
+1.  **Start:** Greet the user in Vietnamese: "Chào bạn, chúng ta cùng luyện tập giao tiếp cho ${lessonName} nhé?" Then, wait for their response.
+2.  **Ask First Question:** After they agree, ask question 1 from the list in Mandarin Chinese.
+3.  **${isText ? 'Read' : 'Listen'} & Evaluate:** ${isText ? "Read the user's typed" : "Listen to the user's spoken"} Chinese response. Their answer should be a grammatically correct and logical reply to your question. Call \`${MARK_ANSWER}\` with the result.
+4.  **If Correct:** Praise them briefly in Chinese (e.g., "很好!", "说得不错!"). Then ask the question named in the tool response.
+5.  **If Incorrect:**
+    a. Switch to VIETNAMESE.
+    b. Gently explain the mistake (e.g., "Câu trả lời chưa đúng lắm, bạn thử nói lại nhé." or explain a specific grammar error).
+    c. Provide a correct example answer in Chinese, along with its Vietnamese translation.
+    d. Switch back to Chinese and REPEAT the same question to give them another chance.
+6.  **End of Session:** When the tool response says every question is done, congratulate them in Vietnamese: "Rất tốt! Bạn đã hoàn thành bài luyện tập. Hẹn gặp lại lần sau!" Then call \`${SESSION_COMPLETE}\`.
+
+Proceed step-by-step through the question list. Do not skip questions.`;
+};
+
+export const nextQuestionIndex = (prompts: string[], grades: Record<number, QuestionGrade>): number | null => {
+  const index = prompts.findIndex((_, i) => !grades[i]?.correct);
+  return index === -1 ? null : index;
+};
+
+export const countAnswered = (grades: Record<number, QuestionGrade>): number =>
+  Object.values(grades).filter(g => g.correct).length;
+
+export interface MarkAnswerResult {
+  grades: Record<number, QuestionGrade>;
+  response: Record<string, unknown>;
+}
+
+// Validates a markAnswer call against the question list. `questionIndex` is the
+// 1-based number the model sees; grades are stored by 0-based index.
+export const applyMarkAnswer = (
+  prompts: string[],
+  grades: Record<number, QuestionGrade>,
+  args: Record<string, unknown> = {},
+): MarkAnswerResult => {
+  const index = Number(args.questionIndex) - 1;
+  if (!Number.isInteger(index) || index < 0 || index >= prompts.length) {
+    return {
+      grades,
+      response: { error: `questionIndex must be between 1 and ${prompts.length}.` },
+    };
+  }
+
+  const previous = grades[index] || { attempts: 0, correct: false };
+  const correct = args.correct === true;
+  const correction = typeof args.correction === 'string' && args.correction.trim() ? args.correction.trim() : undefined;
+  const updated: Record<number, QuestionGrade> = {
+    ...grades,
+    [index]: {
+      attempts: previous.correct ? previous.attempts : previous.attempts + 1,
+      correct: previous.correct || correct,
+      correction: correct ? previous.correction : correction ?? previous.correction,
+    },
+  };
+
+  const next = correct ? nextQuestionIndex(prompts, updated) : index;
+  return {
+    grades: updated,
+    response: {
+      output: {
+        answered: countAnswered(updated),
+        total: prompts.length,
+        nextQuestion: next === null ? null : { number: next + 1, text: prompts[next] },
+        instruction: next === null
+          ? `All questions are done. Congratulate the learner and call ${SESSION_COMPLETE}.`
+          : `Ask question ${next + 1}.`,
+      },
+    },
+  };
+};
+
+export const outcomesFromGrades = (prompts: string[], grades: Record<number, QuestionGrade>): QuestionOutcome[] =>
+  prompts.map((question, index) => {
+    const grade = grades[index];
+    let result: QuestionOutcome['result'] = 'unanswered';
+    if (grade?.correct) result = grade.attempts <= 1 ? 'first-try' : 'after-correction';
+    else if (grade) result = 'incorrect';
+    return { index, question, result };
+  });
@@ -9,3 +9,201 @@ export interface VocabularyWord {
   pinyin: string;
   vi: string;
 }
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface SrsCard {
+  key: string;
+  repetitions: number;
+  interval: number;
+  easeFactor: number;
+  due: string;
+  lapses: number;
+  history: { at: number; grade: ReviewGrade }[];
+}
+
+export interface SrsState {
+  version: 1;
+  cards: Record<string, SrsCard>;
+}
+
+export interface TranscriptItem {
+  id: number;
+  speaker: 'user' | 'ai';
+  text: string;
+}
+
+export type QuestionResult = 'first-try' | 'after-correction' | 'incorrect' | 'unanswered';
+
+export interface QuestionGrade {
+  attempts: number;
+  correct: boolean;
+  correction?: string;
+}
+
+export interface QuestionOutcome {
+  index: number;
+  question: string;
+  result: QuestionResult;
+}
+
+export interface ConversationSession {
+  id: string;
+  lessonName: string;
+  mode?: 'voice' | 'text';
+  startedAt: number;
+  endedAt: number;
+  transcript: TranscriptItem[];
+  outcomes: QuestionOutcome[];
+}
+
+export interface GrammarExample {
+  char: string;
+  pinyin: string;
+  vi: string;
+}
+
+export interface GrammarPoint {
+  id: number;
+  title: string;
+  // The structure being taught, e.g. 'Câu trần thuật + 吗?'.
+  pattern: string;
+  explanation: string;
+  examples: GrammarExample[];
+  // `char` of the lesson words the point is built on.
+  vocabulary: string[];
+}
+
+export type ExerciseType = 'multiple-choice' | 'fill-blank' | 'reorder' | 'matching' | 'listening';
+
+export interface MultipleChoiceExercise {
+  id: number;
+  type: 'multiple-choice';
+  prompt: string;
+  options: string[];
+  // Index into `options`.
+  answer: number;
+}
+
+export interface FillBlankExercise {
+  id: number;
+  type: 'fill-blank';
+  // The gap is written as ___.
+  sentence: string;
+  answer: string;
+  // With options the learner picks; without them the learner types.
+  options?: string[];
+  translation?: string;
+}
+
+export interface ReorderExercise {
+  id: number;
+  type: 'reorder';
+  // In the correct order; shuffled when shown.
+  tokens: string[];
+  translation: string;
+}
+
+export interface MatchingExercise {
+  id: number;
+  type: 'matching';
+  pairs: { char: string; vi: string }[];
+}
+
+export interface ListeningExercise {
+  id: number;
+  type: 'listening';
+  // Text read aloud with playChineseText.
+  audio: string;
+  options: string[];
+  answer: number;
+}
+
+export type Exercise = MultipleChoiceExercise | FillBlankExercise | ReorderExercise | MatchingExercise | ListeningExercise;
+
+export interface CharacterComponents {
+  // Radical (bộ thủ) under which the character is indexed.
+  radical: string;
+  // First-level parts, e.g. 你 → 亻 + 尔; empty for characters that do not split.
+  components: string[];
+}
+
+export interface SupplementaryWord extends VocabularyWord {
+  theme: string;
+  // A core 'Từ mới' word this one is easily confused with.
+  related?: {
+    char: string;
+    kind: 'synonym' | 'lookalike';
+    note: string;
+  };
+}
+
+export interface TypingAttempt {
+  at: number;
+  section: 'Gõ từ mới' | 'Gõ bài khóa';
+  mode: 'hanzi' | 'pinyin';
+  score: number;
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+export interface ExerciseAttempt {
+  at: number;
+  source: 'authored' | 'generated';
+  correct: number;
+  total: number;
+}
+
+export interface WritingAttempt {
+  at: number;
+  strokes: number;
+  // Strokes drawn right the first time.
+  cleanStrokes: number;
+  mistakes: number;
+  // Strokes where the quiz had to highlight the answer.
+  hints: number;
+  durationMs: number;
+}
+
+export interface LessonProgress {
+  typing: TypingAttempt[];
+  exercises: ExerciseAttempt[];
+  timeSpentMs: number;
+}
+
+export interface WordStats {
+  right: number;
+  wrong: number;
+}
+
+export interface ProgressState {
+  version: 1;
+  lessons: Record<string, LessonProgress>;
+  // Keyed like SRS cards, by the Hanzi of the word.
+  words: Record<string, WordStats>;
+  // YYYY-MM-DD days with any recorded practice.
+  activeDays: string[];
+  // Handwriting quizzes per Hanzi character. Missing in data saved before
+  // writing practice existed.
+  writing?: Record<string, WritingAttempt[]>;
+}
+
+export interface ContentPackLesson {
+  // Unique across every loaded pack; all lesson data is keyed by it.
+  name: string;
+  // Sections such as 'Từ mới', 'Gõ từ mới', 'Gõ bài khóa', 'Giao tiếp'.
+  vocabulary: Record<string, VocabularyWord[]>;
+  prompts?: string[];
+  grammar?: GrammarPoint[];
+  exercises?: Exercise[];
+  supplementary?: SupplementaryWord[];
+}
+
+export interface ContentPack {
+  format: 'tieng-trung-ai-content';
+  version: 1;
+  id: string;
+  title: string;
+  lessons: ContentPackLesson[];
+}